@@ -2,12 +2,73 @@
 import type { ModelMessage } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { z } from 'zod';
-import { searchWiki, getWikiPage, getWikiPageFull, getItemPrice, getMultipleItemPrices, getPlayerStats, formatPriceSummary, formatStatsSummary, formatGainsSummary, getPlayerGains, formatPrice } from '@/lib/osrs';
+import { searchWiki, getWikiPage, getWikiPageFull, getItemPrice, getMultipleItemPrices, formatPriceSummary, formatStatsSummary, formatGainsSummary, getPlayerGains, formatPrice, getPriceHistory, formatPriceHistorySummary, LOW_CONFIDENCE_THRESHOLD } from '@/lib/osrs';
+import { getPlayerStatsWithSource, formatStatsSource } from '@/lib/hiscores';
 import { searchWeb } from '@/lib/tavily';
+import { getMonsterDrops, formatRarity } from '@/lib/drops';
+import { findFlips, formatFlipList } from '@/lib/margins';
+import { findAlchProfits, formatAlchList } from '@/lib/alching';
+import { evaluateSkillRequirement, describeRequirementStatus, type RequirementCheck } from '@/lib/boosts';
+import { getPlayerMilestones, formatMilestones, toWomMetric } from '@/lib/milestones';
+import { getProgressTimeline, formatProgressTimeline, downsample } from '@/lib/timeline';
+import { getEfficiencyReport, formatEfficiencyReport } from '@/lib/efficiency';
+import { comparePlayers, formatComparison, MAX_COMPARE_PLAYERS } from '@/lib/compare';
+import {
+  resolveGroup,
+  findPlayerGroup,
+  getGroupLeaderboard,
+  getCurrentCompetitionStandings,
+  getPlayerCurrentCompetition,
+  formatGroupLeaderboard,
+  formatCompetitionStandings,
+} from '@/lib/groups';
+import { planQuests, formatQuestPlan } from '@/lib/quests';
+import { solveClue, formatClueSolution, CLUE_TYPES } from '@/lib/clues';
+import {
+  SLAYER_MASTERS,
+  DEFAULT_MAX_BLOCKS,
+  findSlayerMaster,
+  bestAvailableMaster,
+  resolveSlayerMonster,
+  taskDistribution,
+  optimizeBlocks,
+  formatSlayerAdvice,
+} from '@/lib/slayer';
+import { extractRareItems } from '@/lib/parser';
+import { planFarmRun, formatFarmRunPlan, FARM_RUN_TYPES, COMPOST_TYPES } from '@/lib/farming';
+import { rankMoneyMakers, formatMoneyMakers, MONEY_MAKING_CATEGORIES } from '@/lib/money-making';
+import { recommendBosses, formatBossRecommendations, killCountsFromSnapshot } from '@/lib/bosses';
+import { checkDiary, formatDiaryCheck, DIARY_TIERS, DIARY_REGIONS } from '@/lib/diaries';
+import { GEAR_SLOTS, parseGearList, normalizeSlot, buildOwnedItemSet, priceGearSetup, formatGearSetupCost, fetchWieldRequirements, type GearEntry } from '@/lib/gear';
+import { SKILL_NAMES, calculateXpToTarget, formatXpSummary } from '@/lib/xp';
+import {
+  getAccountRules,
+  isGameMode,
+  findBuildConflicts,
+  partitionByBuild,
+  describeBuildConflicts,
+  formatAccountRules,
+  type AccountRules,
+} from '@/lib/account-rules';
+import {
+  applyPotion,
+  calculateDps,
+  fetchEquipmentBonuses,
+  fetchTargetStats,
+  levelsFromSkills,
+  sumEquipmentBonuses,
+  PRAYERS,
+  POTIONS,
+  POWERED_STAVES,
+  SPELL_MAX_HITS,
+  type PrayerName,
+  type PotionName,
+} from '@/lib/dps';
 import { retrieveContext, formatContextForPrompt, retrieveExpertTips, formatExpertTipsForPrompt, isRAGConfigured, addDocument } from '@/lib/rag';
 import { getSupabaseClient } from '@/lib/supabase';
 import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
 import type { UserContext, CollectionLogItem } from '@/lib/types';
+import { parseBoostableNote, type ParsedInfoboxes } from '@/lib/wikitext';
 
 // Allow streaming responses up to 60 seconds
 export const maxDuration = 60;
@@ -74,17 +135,16 @@ interface CachedWikiPage {
   content: string;
   url: string;
   imageUrl?: string | null;
+  infoboxes?: ParsedInfoboxes | null;
   cachedAt: string;
 }
 
 interface CachedDocumentRow {
   id: string;
   content: string;
-  metadata: Record<string, string> | null;
+  metadata: (Record<string, string> & { infoboxes?: ParsedInfoboxes }) | null;
 }
 
-const validAccountTypes = ['regular', 'ironman', 'hardcore', 'ultimate'] as const;
-
 function normalizeUserContext(
   userContext: z.infer<typeof chatRequestSchema>['userContext']
 ): UserContext | null {
@@ -92,11 +152,7 @@ function normalizeUserContext(
     return null;
   }
 
-  const accountType =
-    typeof userContext.accountType === 'string' &&
-    validAccountTypes.includes(userContext.accountType as (typeof validAccountTypes)[number])
-      ? (userContext.accountType as UserContext['accountType'])
-      : null;
+  const accountType = isGameMode(userContext.accountType) ? userContext.accountType : null;
 
   return {
     username: userContext.username ?? null,
@@ -108,6 +164,45 @@ function normalizeUserContext(
   };
 }
 
+/** Rules for the user's game mode and build; null when the mode is unknown */
+function getUserRules(userContext: UserContext | null): AccountRules | null {
+  const type = userContext?.accountType ?? userContext?.stats?.type;
+  if (!isGameMode(type)) return null;
+  return getAccountRules(type, userContext?.stats?.build ?? 'main');
+}
+
+/** Ironmen of every kind can't buy boosts from the GE */
+function isIronman(userContext: UserContext | null): boolean {
+  const rules = getUserRules(userContext);
+  return !!rules && !rules.canUseGrandExchange;
+}
+
+/** Diary skill gaps that the build's skill caps make impossible */
+function diaryBuildConflicts(tiers: { missingSkills: { skill: string; required: number }[] }[], rules: AccountRules) {
+  // Highest level first so each skill keeps its strictest requirement
+  return partitionByBuild(tiers.flatMap((tier) => tier.missingSkills), rules).conflicts
+    .sort((a, b) => b.required - a.required)
+    .filter((c, i, all) => all.findIndex((o) => o.skill === c.skill) === i);
+}
+
+/** Wield requirements of the given items that the build's skill caps make impossible */
+async function gearBuildConflicts(items: string[], rules: AccountRules | null) {
+  // Only capped builds (pures) can conflict, so skip the Wiki lookups otherwise
+  if (!rules || Object.keys(rules.skillCaps).length === 0) return [];
+  const requirements = await fetchWieldRequirements(items);
+  return requirements.flatMap((req) => findBuildConflicts([req], rules).map((c) => ({ item: req.item, ...c })));
+}
+
+/** Lowercase skill name (plus "combat") -> level, for requirement checks */
+function getUserLevels(userContext: UserContext | null): Record<string, number> {
+  const skills = userContext?.stats?.latestSnapshot?.data?.skills ?? {};
+  const levels: Record<string, number> = Object.fromEntries(
+    Object.entries(skills).map(([name, skill]) => [name, skill.level])
+  );
+  if (userContext?.stats?.combatLevel) levels.combat = userContext.stats.combatLevel;
+  return levels;
+}
+
 const WIKI_CACHE_TTL = 180 * 24 * 60 * 60 * 1000; // 6 months
 
 async function getCachedWikiPage(title: string): Promise<CachedWikiPage | null> {
@@ -143,6 +238,7 @@ async function getCachedWikiPage(title: string): Promise<CachedWikiPage | null>
       content: (data as CachedDocumentRow).content,
       url: metadata?.url || '',
       imageUrl: metadata?.imageUrl || null,
+      infoboxes: metadata?.infoboxes || null,
       cachedAt: cachedAt || '',
     };
   } catch {
@@ -154,7 +250,8 @@ async function cacheWikiPage(
   title: string,
   content: string,
   url: string,
-  imageUrl?: string | null
+  imageUrl?: string | null,
+  infoboxes?: ParsedInfoboxes | null
 ): Promise<void> {
   try {
     const normalizedTitle = title.toLowerCase().trim();
@@ -164,6 +261,7 @@ async function cacheWikiPage(
       displayTitle: title,
       url,
       imageUrl,
+      infoboxes: infoboxes ?? null,
       cachedAt: new Date().toISOString(),
     };
 
@@ -231,45 +329,6 @@ function getKeySkills(stats: UserContext['stats']): string {
   return lines.join(', ');
 }
 
-function getGameModeRules(mode: string): string {
-  switch (mode) {
-    case 'ironman':
-      return `### IRONMAN RULES (CRITICAL):
-- The user is an **IRONMAN**. They CANNOT trade with other players or use the Grand Exchange.
-- When suggesting items or gear, you MUST explain WHERE to obtain them (monster drops, shops, spawns, minigame rewards).
-- Do not mention GE prices unless discussing "High Alchemy" value for self-sustaining GP.
-- For supplies (food, potions), explain how to gather/craft them yourself.
-- Prioritize drops and unlocks from Slayer, bosses, or quests.`;
-
-    case 'hardcore':
-      return `### HARDCORE IRONMAN RULES (CRITICAL - SAFETY FIRST):
-- The user is a **HARDCORE IRONMAN**. One death = status lost. SAFETY IS PRIORITY #1.
-- Do NOT suggest dangerous Wilderness methods unless explicitly asked and warn heavily.
-- ALWAYS warn about potential one-shot mechanics, dangerous quest bosses, or risky activities.
-- They CANNOT trade with other players or use the Grand Exchange.
-- When suggesting content, mention if it has a death risk (e.g., "Vorkath can combo you if unlucky").
-- For dangerous bosses, suggest over-preparing with extra food/prayer.`;
-
-    case 'ultimate':
-      return `### ULTIMATE IRONMAN RULES (CRITICAL - NO BANK):
-- The user is an **ULTIMATE IRONMAN (UIM)**. They have NO BANK ACCESS.
-- Inventory management is CRITICAL. Consider their limited space in all advice.
-- Suggest using: Looting Bag, Seed Box, Rune Pouch, death storage (Zulrah/Hespori), or POH storage.
-- They CANNOT trade with other players or use the Grand Exchange.
-- For skilling or bossing, explain how to manage inventory throughout the activity.
-- Suggest efficient "loadouts" that minimize bank trips (since they can't bank).`;
-
-    case 'regular':
-    default:
-      return `### REGULAR ACCOUNT RULES:
-- The user is a **REGULAR (MAIN) ACCOUNT**.
-- You can freely suggest buying items from the Grand Exchange.
-- Focus on GP/Hour efficiency and meta methods.
-- Suggest market flipping or merching if relevant to money-making questions.
-- Cost-benefit analysis is welcome (e.g., "Buying X for 5M saves 10 hours of grinding").`;
-  }
-}
-
 function formatRareItemsForPrompt(items: CollectionLogItem[]): string {
   if (items.length === 0) return 'No rare items logged';
 
@@ -293,7 +352,7 @@ function buildSystemPrompt(userContext: UserContext | null, profile: ProfileData
   const stats = userContext?.stats;
   const hasStats = !!stats;
   const username = stats?.displayName || userContext?.username || 'Adventurer';
-  const gameMode = stats?.type || null;
+  const rules = getUserRules(userContext);
   const combatLevel = stats?.combatLevel;
   const totalLevel = stats?.latestSnapshot?.data?.skills?.overall?.level;
   const keySkills = stats ? getKeySkills(stats) : null;
@@ -369,25 +428,65 @@ You have access to the **ENTIRE OSRS Wiki** and **real-time GE prices** via tool
 
 ### AVAILABLE TOOLS:
 - **searchWiki** - Search for Wiki pages when unsure of the exact page name. Returns a detailed summary of the top result (often enough to answer without a follow-up).
-- **getWikiPage** - Read the full content of a specific Wiki page. Use for detailed drop tables, quest steps, boss mechanics, requirements, etc.
+- **getWikiPage** - Read the full content of a specific Wiki page. Use for detailed drop tables, quest steps, boss mechanics, requirements, etc. Also returns parsed **infoboxes** (examine, high alch, weight, members, combat stats, equipment bonuses) — quote those exact numbers instead of estimating.
 - **getItemPrice** - Get live Grand Exchange price for a single item.
+- **getPriceHistory** - Get an item's GE price trend: 24h/7d/30d change, 30-day range, volatility and volume trend, plus a raw series for charting. Use for "is X crashing/rising", "good time to buy/sell" questions.
+- **findFlips** - Rank GE items by post-tax flipping margin, ROI and profit per 4-hour buy limit, with filters for minimum volume and maximum capital. Accounts for the 2% GE tax, the 5M tax cap and tax-exempt items.
+- **alchProfits** - Rank items by High Alchemy profit (alch value − GE buy price − nature rune) per cast and per hour, respecting buy limits.
 - **comparePrices** - Compare prices for multiple items at once (e.g., gear comparisons). Much faster than calling getItemPrice repeatedly — use this when comparing 2+ items.
-- **checkRequirements** - Check if the user meets requirements for a quest, boss, diary, or activity. Fetches requirements from the Wiki and compares against the user's stats. Use when users ask "can I do X?" or "what do I need for X?".
+- **priceGearSetup** - Price a full loadout (slot → item or a pasted list): total GE cost, untradeables with how to obtain them, and what the user still needs to buy after subtracting items they own.
+- **getDropRates** - Get a monster's parsed drop table (item, quantity, rarity, noted, members-only) plus expected GP per kill from live prices. Prefer this over getWikiPage for any drop-rate or "GP per kill" question.
+- **calculateXp** - Exact XP maths for a skill: remaining XP to a target level/XP, actions required (given XP per action) and hours remaining (given XP/hr). Uses the user's real current XP. NEVER do XP arithmetic yourself.
+- **calculateDps** - Compute max hit, accuracy, DPS and time-to-kill against a monster for one or more gear setups (melee, ranged or magic) using the user's levels, real equipment bonuses, prayers and potions. Use for "can I kill X", "what's my max hit", and "which setup is better" questions.
+- **checkRequirements** - Check if the user meets requirements for a quest, boss, diary, or activity. Fetches requirements from the Wiki and compares against the user's stats. Use when users ask "can I do X?" or "what do I need for X?". Each skill row is "met", "met with boost X" or "unmet" — a requirement a stew or potion covers is NOT a blocker unless the Wiki marks it not boostable.
+- **checkDiary** - Achievement Diary checker: per-tier (Easy/Medium/Hard/Elite) feasibility with the exact missing levels and quests for a region.
+- **planQuests** - Ordered quest path to a target quest or the Quest point cape, following nested prerequisites, with the skill levels to train along the way. Ask which quests the user has done if they haven't said.
 - **searchWeb** - Search the web for OSRS information beyond the Wiki. **Use as a fallback** when Wiki searches don't find what you need. Also great for community strategies, Reddit discussions, YouTube guides, and recent game updates/patch notes.
 - **lookupPlayer** - Look up any OSRS player's stats and recent gains from Wise Old Man. Use when the user asks about another player.
+- **comparePlayers** - Side-by-side comparison of 2-5 players: levels, XP, boss KC, activities (clues, LMS, minigames), EHP/EHB, time to max and weekly gains, returned as markdown tables.
+- **getGroupLeaderboard** - Wise Old Man clan/group leaderboards: who gained the most of a skill, boss or activity over a day/week/month/year, or current group hiscores. Defaults to the user's own group.
+- **getCompetitionStandings** - Standings in a clan competition (SOTW/BOTW etc.): top participants, team totals and the user's own rank and gap to the next player.
+- **getPlayerMilestones** - Achievements with dates, best-period records and closest unreached milestones from Wise Old Man.
+- **getProgressTimeline** - XP, boss KC or activity progress over a custom date range from Wise Old Man snapshots, with gains per day and the top skills/bosses in that range.
+- **solveClue** - Solve a Treasure Trails step (anagram, cipher, cryptic, coordinate, emote or hot/cold) from the Wiki's clue guides: who/where to go, challenge answers, emotes, items to wear, and skill requirements checked against the user's levels.
+- **planFarmRun** - Herb, tree or fruit tree run plan for the user's Farming level and quests: best crop, patch route, growth time, XP, expected yield and live-priced profit.
+- **rankMoneyMakers** - Money making methods from the Wiki guides (plus High Alchemy on the best current item) ranked by live-priced GP/hr, filtered to what the user's stats, quests and account type allow, plus the best locked methods and their requirements.
+- **recommendBosses** - Ranked boss suggestions for the user from their levels, boss KC, owned rares and collection log, with reasons (newly unlocked, GP/hr, log slots remaining, key gear) and the nearest locked bosses.
+- **slayerAdvice** - Slayer master task odds for the user's Slayer/combat level, quests, unlocks, blocks and extends, with expected points/XP/GP per hour and an optimised block and extend list for a goal.
+- **getEfficiency** - EHP/EHB and time to max (or 200m all) broken down per skill using Wise Old Man's rates for the account type and build, plus how much last week's gains cut it.
 
 ### WHEN TO USE TOOLS:
-- Drop rates, boss mechanics, quest requirements → searchWiki + getWikiPage
+- Drop rates, "what does X drop", GP per kill → **getDropRates**
+- Boss mechanics, quest requirements → searchWiki + getWikiPage
 - "Can I do X with my stats?" → **checkRequirements** (preferred) or getWikiPage
+- "What quests do I need for X", quest order, quest cape → **planQuests**
+- Achievement diaries, "can I do the X hard diary" → **checkDiary**
+- Max hit, DPS, kill speed, gear setup comparisons → **calculateDps**
 - Single item price → getItemPrice
+- A price tool returns **needsConfirmation** or **uncertainMatches** → tell the user which item you matched, list the alternatives, and ask which they meant before relying on the price
+- Price trends, crashes, "should I buy now" → **getPriceHistory**
+- Flipping, merching, margins → **findFlips** (margins from getItemPrice are already after tax)
+- High alching, magic training that pays, low-effort money making → **alchProfits**
 - Comparing gear/item costs → **comparePrices** (preferred, handles multiple at once)
-- Diary requirements, minigame rewards, spell unlocks → getWikiPage
+- Cost of a whole setup, "what do I still need to buy" → **priceGearSetup**
+- Minigame rewards, spell unlocks → getWikiPage
+- "How long / how many actions to level X?" → **calculateXp** (look up the method's XP per action or XP/hr on the Wiki first if needed)
 - Skilling XP rates, methods, efficiency → searchWiki + getWikiPage
-- Slayer tasks, masters, weights → getWikiPage
+- Clue scroll steps ("what does this cryptic mean", anagrams, ciphers, coordinates like 03°45'N 12°30'E, emote clues, hot/cold) → **solveClue** (not searchWeb)
+- Herb runs, tree runs, fruit tree runs, which seeds to plant, growth times → **planFarmRun**
+- "Best money making for my level?", GP/hr methods, AFK money makers → **rankMoneyMakers** (getItemPrice for single items)
+- "What boss should I do next?", which boss to learn, bossing for GP or log slots → **recommendBosses** (then getWikiPage for mechanics)
+- Slayer tasks, masters, weights, "what should I block", task odds → **slayerAdvice** (getWikiPage for monster mechanics)
 - Community meta, opinions, recent updates → searchWeb
 - Wiki returned no results or insufficient info → **searchWeb as fallback**
 - Recent patch notes, hotfixes, current meta → searchWeb
 - Another player's stats → lookupPlayer
+- "Compare me with X", "who's ahead", rivalries between friends → **comparePlayers** (include its tables in your reply exactly as returned, then summarise the key differences)
+- "Who gained the most X in our clan this week", clan hiscores → **getGroupLeaderboard**
+- "Where do I stand in the SOTW/BOTW", current clan competition → **getCompetitionStandings**
+- "When did I get 99 X", best XP week, "what am I closest to" → **getPlayerMilestones**
+- "How much XP did I gain since X", KC over the last month, progress between two dates → **getProgressTimeline**
+- Time to max, EHP/EHB, "which skill is slowing my max", "what should I train to max faster" → **getEfficiency**
 
 ### WHEN NOT TO USE TOOLS:
 - Simple greetings ("Hi!", "Thanks!")
@@ -409,7 +508,7 @@ You have access to the **ENTIRE OSRS Wiki** and **real-time GE prices** via tool
 ## USER CONTEXT
 ${hasStats ? `
 - **Username:** ${username}
-- **Account Type:** ${(gameMode || 'regular').toUpperCase()}
+- **Account Type:** ${(rules?.label || 'regular').toUpperCase()}
 - **Combat Level:** ${combatLevel}
 - **Total Level:** ${totalLevel}
 - **Key Skills:** ${keySkills}
@@ -417,7 +516,7 @@ ${gainsSection}` : `
 - **Username:** ${username || 'Unknown'}
 - **Stats:** Not available. Do not assume any skill levels. If the user asks for personalized advice, suggest they enter their RuneScape username for accurate recommendations. Ask the user about their account type if relevant.
 `}
-${gameMode ? getGameModeRules(gameMode) : `### ACCOUNT TYPE UNKNOWN:
+${rules ? formatAccountRules(rules) : `### ACCOUNT TYPE UNKNOWN:
 - The user has not linked their account. If your advice depends on whether they are an ironman, ask them.
 - Do NOT assume they can use the Grand Exchange unless confirmed.`}
 ${collectionLogSection}
@@ -434,7 +533,7 @@ ${memorySection}
 
 1. **NO HALLUCINATION**: If tools return no results, say "I couldn't find that information on the Wiki." NEVER make up numbers. NEVER claim something doesn't exist in OSRS without checking the Wiki first.
 2. **TRUST TOOLS OVER TRAINING**: Your training data has a cutoff date. OSRS is a live game with frequent updates. If the Wiki says something exists, it exists. Do not contradict tool results.
-3. **RESPECT GAME MODE**: Always consider the user's account type. Never suggest GE purchases to ironmen.
+3. **RESPECT GAME MODE AND BUILD**: Always follow the ACCOUNT RULES above. Never suggest GE purchases to ironmen, and never suggest training a skill past its build cap.
 4. **VERIFY BEFORE RECOMMENDING**: If suggesting a boss, quest, or activity, check that the user's stats are sufficient.`;
 }
 
@@ -463,8 +562,8 @@ function extractRequirementSection(wikiText: string): string {
 }
 
 /** Parse skill level requirements from wiki text like "70 Prayer" or "Level 80 Mining" */
-function parseSkillRequirements(text: string): { skill: string; level: number }[] {
-  const results: { skill: string; level: number }[] = [];
+function parseSkillRequirements(text: string): { skill: string; level: number; boostable: boolean | null }[] {
+  const results: { skill: string; level: number; boostable: boolean | null }[] = [];
   const seen = new Set<string>();
 
   const skillNames = [
@@ -488,7 +587,9 @@ function parseSkillRequirements(text: string): { skill: string; level: number }[
         const level = parseInt(match[1], 10);
         if (level >= 1 && level <= 99 && !seen.has(skill.toLowerCase())) {
           seen.add(skill.toLowerCase());
-          results.push({ skill, level });
+          // "(not boostable)" notes follow the requirement on the same line
+          const note = text.slice(match.index + match[0].length).split('\n')[0];
+          results.push({ skill, level, boostable: parseBoostableNote(note) });
         }
       }
     }
@@ -698,13 +799,14 @@ export async function POST(req: Request) {
 
               // Cache the top result for future RAG retrieval
               if (pageContent) {
-                const fullContent = await getWikiPageFull(topResult.title);
-                if (fullContent) {
+                const fullPage = await getWikiPageFull(topResult.title);
+                if (fullPage) {
                   cacheWikiPage(
                     topResult.title,
-                    fullContent,
+                    fullPage.content,
                     pageContent.fullurl,
-                    pageContent.imageUrl
+                    pageContent.imageUrl,
+                    fullPage.infoboxes
                   ).catch((err) => debugLog('[Cache] searchWiki background cache failed:', err));
                 }
               }
@@ -750,14 +852,15 @@ export async function POST(req: Request) {
                 url: cached.url,
                 content: cached.content.slice(0, 8000),
                 imageUrl: cached.imageUrl,
+                infoboxes: cached.infoboxes ?? null,
               };
             }
 
             debugLog(`[Cache MISS] Fetching ${title} from Wiki`);
-            const content = await getWikiPageFull(title);
+            const fullPage = await getWikiPageFull(title);
             const pageInfo = await getWikiPage(title);
 
-            if (!content) {
+            if (!fullPage) {
               return {
                 success: false as const,
                 message: `Wiki page "${title}" not found. Try searchWiki to find the correct name.`,
@@ -768,23 +871,24 @@ export async function POST(req: Request) {
             const imageUrl = pageInfo?.imageUrl || null;
 
             // Cache for future RAG retrieval
-            await cacheWikiPage(title, content, url, imageUrl);
+            await cacheWikiPage(title, fullPage.content, url, imageUrl, fullPage.infoboxes);
 
               return {
               success: true as const,
               fromCache: false,
               title: pageInfo?.title || title,
               url,
-              content: content.slice(0, 8000),
+              content: fullPage.content.slice(0, 8000),
               imageUrl,
+              infoboxes: fullPage.infoboxes,
             };
           },
         }),
 
         getItemPrice: tool({
-          description: 'Get live Grand Exchange prices. Use when users ask about costs, item values, or money-making comparisons.',
+          description: 'Get live Grand Exchange prices plus item metadata (buy limit, members flag, examine text, high alch value). Use when users ask about costs, item values, or money-making comparisons.',
           inputSchema: z.object({
-            itemName: z.string().describe('Item name (e.g., "Abyssal whip", "Dragon bones", "Twisted bow")'),
+            itemName: z.string().describe('Item name or common abbreviation (e.g., "Abyssal whip", "Dragon bones", "tbow", "bgs")'),
           }),
           execute: async ({ itemName }) => {
             debugLog(`[Tool] getItemPrice: "${itemName}"`);
@@ -802,12 +906,114 @@ export async function POST(req: Request) {
               lowPrice: priceData.lowPrice,
               avgPrice: priceData.avgPrice,
               volume: priceData.volume,
+              buyLimit: priceData.buyLimit,
+              members: priceData.members,
+              examine: priceData.examine,
+              highAlch: priceData.highAlch,
+              matchConfidence: priceData.matchConfidence,
+              needsConfirmation: priceData.matchConfidence < LOW_CONFIDENCE_THRESHOLD,
+              alternatives: priceData.alternatives.map((a) => a.itemName),
               wikiUrl: priceData.wikiUrl,
               formatted: formatPriceSummary(priceData),
             };
           },
         }),
 
+        getPriceHistory: tool({
+          description: 'Get GE price history and trend analysis for an item: 24h/7d/30d price change, 30-day high/low, volatility and volume trend, plus the raw price series for a chart. Use when users ask whether an item is rising, crashing, or a good buy right now.',
+          inputSchema: z.object({
+            itemName: z.string().describe('Item name (e.g., "Abyssal whip", "Zulrah\'s scales")'),
+            timestep: z.enum(['5m', '1h', '6h', '24h']).optional().default('24h').describe('Granularity of the returned series (24h = about a year of daily points, 1h = about two weeks)'),
+          }),
+          execute: async ({ itemName, timestep }) => {
+            debugLog(`[Tool] getPriceHistory: "${itemName}" (${timestep})`);
+            const history = await getPriceHistory(itemName, timestep);
+            if (!history) {
+              return {
+                success: false as const,
+                message: `Could not find price history for "${itemName}". Check the item name spelling.`,
+              };
+            }
+
+            // Keep the series compact: [timestamp, mid price, volume], most recent 90 points
+            const series = history.series.slice(-90).map((p) => [
+              p.timestamp,
+              p.avgHighPrice && p.avgLowPrice
+                ? Math.round((p.avgHighPrice + p.avgLowPrice) / 2)
+                : p.avgHighPrice || p.avgLowPrice || null,
+              p.highPriceVolume + p.lowPriceVolume,
+            ]);
+
+            return {
+              success: true as const,
+              itemName: history.itemName,
+              summary: history.summary,
+              timestep: history.timestep,
+              seriesFormat: ['timestamp', 'midPrice', 'volume'],
+              series,
+              wikiUrl: history.wikiUrl,
+              formatted: formatPriceHistorySummary(history),
+            };
+          },
+        }),
+
+        findFlips: tool({
+          description: 'Find the best Grand Exchange flips right now. Ranks items by post-tax margin × buy limit (profit per 4 hours), margin, or ROI, using live prices, hourly volume and buy limits. Use for flipping/merching questions on regular accounts.',
+          inputSchema: z.object({
+            minVolume: z.number().int().min(0).optional().default(100).describe('Minimum items traded in the last hour'),
+            maxCapital: z.number().int().positive().optional().describe('Maximum GP the user wants to invest per flip'),
+            minMargin: z.number().int().min(1).optional().describe('Minimum profit per item after tax'),
+            minRoi: z.number().min(0).optional().describe('Minimum return on investment in percent'),
+            sortBy: z.enum(['profit', 'margin', 'roi']).optional().default('profit').describe('profit = margin × buy limit per 4 hours'),
+            limit: z.number().int().min(1).max(25).optional().default(10),
+          }),
+          execute: async ({ minVolume, maxCapital, minMargin, minRoi, sortBy, limit }) => {
+            debugLog(`[Tool] findFlips: sort=${sortBy} minVolume=${minVolume} maxCapital=${maxCapital ?? 'any'}`);
+            const flips = await findFlips({ minVolume, maxCapital, minMargin, minRoi, sortBy, limit });
+            if (flips.length === 0) {
+              return {
+                success: false as const,
+                message: 'No flips matched those filters. Try lowering the minimum volume or margin.',
+              };
+            }
+            return {
+              success: true as const,
+              flips,
+              formatted: formatFlipList(flips),
+              note: 'Margins use the latest instant buy/sell prices and already subtract the 2% GE tax (capped at 5M per item). Prices move quickly — tell the user to check the margin before committing.',
+            };
+          },
+        }),
+
+        alchProfits: tool({
+          description: 'Rank items by High Level Alchemy profit using live GE prices and the current nature rune price. Returns profit per cast and per hour, capped by each item\'s 4-hour buy limit. Use for alching questions and as part of money-making answers.',
+          inputSchema: z.object({
+            f2pOnly: z.boolean().optional().default(false).describe('Only free-to-play items'),
+            minVolume: z.number().int().min(0).optional().default(50).describe('Minimum items traded in the last hour'),
+            minProfit: z.number().int().optional().default(1).describe('Minimum profit per cast'),
+            maxBuyPrice: z.number().int().positive().optional().describe('Maximum price per item the user is willing to pay'),
+            sortBy: z.enum(['cast', 'hour']).optional().default('hour'),
+            limit: z.number().int().min(1).max(25).optional().default(10),
+          }),
+          execute: async ({ f2pOnly, minVolume, minProfit, maxBuyPrice, sortBy, limit }) => {
+            debugLog(`[Tool] alchProfits: sort=${sortBy} f2p=${f2pOnly}`);
+            const items = await findAlchProfits({ f2pOnly, minVolume, minProfit, maxBuyPrice, sortBy, limit });
+            if (items.length === 0) {
+              return {
+                success: false as const,
+                message: 'No profitable alchs found with those filters.',
+              };
+            }
+            return {
+              success: true as const,
+              natureRunePrice: items[0].natureRunePrice,
+              items,
+              formatted: formatAlchList(items),
+              note: 'Profit assumes buying at the instant-buy price and a fire staff for runes. Ironmen cannot buy from the GE — only mention this for regular accounts.',
+            };
+          },
+        }),
+
         searchWeb: tool({
           description: 'Search the web for OSRS information. Use as a FALLBACK when Wiki search returns no useful results. Also use proactively for: community strategies, Reddit threads, YouTube guides, recent game updates, patch notes, current meta, and any time the user asks you to check sources beyond the Wiki.',
           inputSchema: z.object({
@@ -844,7 +1050,10 @@ export async function POST(req: Request) {
             const prices = await getMultipleItemPrices(itemNames);
             const results = Object.entries(prices).map(([name, data]) => ({
               itemName: name,
+              resolvedName: data?.itemName ?? null,
               found: !!data,
+              matchConfidence: data?.matchConfidence ?? null,
+              alternatives: data?.alternatives.map((a) => a.itemName) ?? [],
               highPrice: data?.highPrice ?? null,
               lowPrice: data?.lowPrice ?? null,
               avgPrice: data?.avgPrice ?? null,
@@ -854,6 +1063,7 @@ export async function POST(req: Request) {
 
             const found = results.filter((r) => r.found);
             const notFound = results.filter((r) => !r.found);
+            const uncertain = found.filter((r) => (r.matchConfidence ?? 0) < LOW_CONFIDENCE_THRESHOLD);
 
             // Sort by price descending for easy comparison
             found.sort((a, b) => (b.avgPrice ?? 0) - (a.avgPrice ?? 0));
@@ -862,11 +1072,281 @@ export async function POST(req: Request) {
               success: true as const,
               items: found,
               notFound: notFound.map((r) => r.itemName),
+              uncertainMatches: uncertain.map((r) => ({
+                query: r.itemName,
+                matched: r.resolvedName,
+                alternatives: r.alternatives,
+              })),
               summary: found.map((r) => r.formatted).join('\n'),
             };
           },
         }),
 
+        priceGearSetup: tool({
+          description: 'Price a complete gear setup: resolves every item, totals the GE cost, flags untradeable items with how to obtain them (skill levels, materials, quest), subtracts items the user already owns, and flags pieces the user\'s build (e.g. a 1 Defence pure) can\'t wear. Use for "how much does this setup cost", "what do I still need to buy" and loadout budgeting.',
+          inputSchema: z.object({
+            slots: z.record(z.string(), z.string()).optional().describe(`Slot -> item name (slots: ${GEAR_SLOTS.join(', ')}), e.g. {"head": "Neitiznot faceguard", "weapon": "Scythe of vitur"}`),
+            itemList: z.string().optional().describe('Pasted gear list, one item per line or comma-separated, optionally "Slot: Item"'),
+            subtractOwned: z.boolean().optional().default(true).describe('Skip the cost of items the user already owns (collection log and known notable items)'),
+          }),
+          execute: async ({ slots, itemList, subtractOwned }) => {
+            const entries: GearEntry[] = [
+              ...Object.entries(slots ?? {}).map(([slot, item]) => ({ slot: normalizeSlot(slot), item })),
+              ...(itemList ? parseGearList(itemList) : []),
+            ].filter((entry) => entry.item.trim());
+            debugLog(`[Tool] priceGearSetup: ${entries.map((e) => e.item).join(', ')}`);
+
+            if (entries.length === 0) {
+              return {
+                success: false as const,
+                message: 'No items given. Pass slot assignments or a gear list.',
+              };
+            }
+            if (entries.length > 20) {
+              return {
+                success: false as const,
+                message: 'Too many items (max 20). Price one setup at a time.',
+              };
+            }
+
+            const userStats = normalizeUserContext(userContext);
+            const owned = subtractOwned
+              ? buildOwnedItemSet(userStats?.collectionLog ?? null, profile?.notableItems ?? [])
+              : new Set<string>();
+            const setup = await priceGearSetup(entries, owned);
+            const rules = getUserRules(userStats);
+            const buildConflicts = await gearBuildConflicts(entries.map((e) => e.item), rules);
+            const buildNote = rules ? describeBuildConflicts(buildConflicts, rules) : null;
+
+            return {
+              success: true as const,
+              totalCost: setup.totalCost,
+              ownedValue: setup.ownedValue,
+              remainingCost: setup.remainingCost,
+              items: setup.items.map((item) => ({
+                slot: item.slot,
+                query: item.query,
+                itemName: item.itemName,
+                status: item.status,
+                price: item.price,
+                needsConfirmation: item.status === 'uncertain',
+                alternatives: item.alternatives,
+                acquisition: item.acquisition,
+                wikiUrl: item.wikiUrl,
+              })),
+              hasOwnershipData: owned.size > 0,
+              accountNote: isIronman(userStats)
+                ? 'Ironman account: GE prices are reference values only — explain how to obtain each item instead of buying it.'
+                : null,
+              buildConflicts: buildConflicts.length > 0 ? buildConflicts : null,
+              buildNote,
+              formatted: buildNote ? `${formatGearSetupCost(setup)}\n\n**${buildNote}**` : formatGearSetupCost(setup),
+            };
+          },
+        }),
+
+        getDropRates: tool({
+          description: 'Get the parsed drop table for a monster or boss from the Wiki, with exact rarities as fractions and expected GP per kill using live GE prices. Use for any drop rate, loot, or GP-per-kill question.',
+          inputSchema: z.object({
+            monsterName: z.string().describe('Exact Wiki page title of the monster (e.g., "Vorkath", "Abyssal demon", "General Graardor")'),
+            itemFilter: z.string().optional().describe('Only return drops whose name contains this text (e.g., "visage", "whip")'),
+          }),
+          execute: async ({ monsterName, itemFilter }) => {
+            debugLog(`[Tool] getDropRates: "${monsterName}"${itemFilter ? ` (filter: ${itemFilter})` : ''}`);
+            const drops = await getMonsterDrops(monsterName, itemFilter);
+            if (!drops) {
+              return {
+                success: false as const,
+                message: `Wiki page "${monsterName}" not found. Try searchWiki to find the correct name.`,
+              };
+            }
+            if (drops.rows.length === 0) {
+              return {
+                success: false as const,
+                message: itemFilter
+                  ? `No drops matching "${itemFilter}" on ${monsterName}'s drop table.`
+                  : `No drop table found on the "${monsterName}" page.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              monster: drops.monster,
+              url: `https://oldschool.runescape.wiki/w/${encodeURIComponent(monsterName)}#Drops`,
+              expectedGpPerKill: drops.expectedGpPerKill,
+              unpricedDrops: drops.unpricedCount,
+              drops: drops.rows.slice(0, 40).map((row) => ({
+                item: row.item,
+                section: row.section,
+                quantity: row.quantityText,
+                rarity: formatRarity(row.rarity, row.rarityText),
+                rarityFraction: row.rarity,
+                noted: row.noted,
+                membersOnly: row.membersOnly,
+                unitPrice: row.unitPrice,
+                expectedValuePerKill: row.expectedValue !== null ? Math.round(row.expectedValue) : null,
+              })),
+              truncated: drops.rows.length > 40,
+              formatted: `Expected loot value: ~${formatPrice(drops.expectedGpPerKill)} gp per kill (excludes ${drops.unpricedCount} unpriced drops)`,
+            };
+          },
+        }),
+
+        calculateXp: tool({
+          description: 'Calculate remaining XP, actions required and hours remaining to reach a target level or XP in a skill, using the real OSRS XP table and the user\'s current XP. Use for any "how long / how many to 99" question instead of doing the maths yourself.',
+          inputSchema: z.object({
+            skill: z.enum(SKILL_NAMES).describe('Skill name in lowercase (e.g., "fishing", "runecrafting")'),
+            targetLevel: z.number().int().min(2).max(126).optional().describe('Target level (defaults to 99). Levels above 99 are virtual levels.'),
+            targetXp: z.number().int().min(0).max(200_000_000).optional().describe('Target XP instead of a level (e.g., 200000000 for max XP)'),
+            currentXp: z.number().int().min(0).max(200_000_000).optional().describe('Current XP — only needed if the user has no linked stats or asks about a hypothetical'),
+            xpPerAction: z.number().positive().optional().describe('Base XP gained per action (e.g., 140 per Karambwan cooked)'),
+            xpPerHour: z.number().positive().optional().describe('Base XP/hr of the training method'),
+            bonusPercent: z.number().min(0).max(100).optional().describe('XP bonus percentage from outfits or other boosts (e.g., 2.5 for a full skilling outfit)'),
+          }),
+          execute: async ({ skill, targetLevel, targetXp, currentXp, xpPerAction, xpPerHour, bonusPercent }) => {
+            debugLog(`[Tool] calculateXp: ${skill} → ${targetXp ?? targetLevel ?? 99}`);
+
+            const userStats = normalizeUserContext(userContext);
+            const statsXp = userStats?.stats?.latestSnapshot?.data?.skills?.[skill]?.experience;
+            const startXp = currentXp ?? (statsXp !== undefined && statsXp >= 0 ? statsXp : null);
+
+            if (startXp === null) {
+              return {
+                success: false as const,
+                message: `No ${skill} XP available for this user. Ask for their current level or XP, or have them enter their username.`,
+              };
+            }
+
+            const result = calculateXpToTarget({
+              currentXp: startXp,
+              targetLevel,
+              targetXp,
+              xpPerAction,
+              xpPerHour,
+              bonusPercent,
+            });
+
+            return {
+              success: true as const,
+              skill,
+              usedLinkedStats: currentXp === undefined,
+              ...result,
+              formatted: formatXpSummary(skill, result),
+            };
+          },
+        }),
+
+        calculateDps: tool({
+          description: 'Calculate max hit, accuracy, DPS and time-to-kill for up to 4 gear setups against a monster, using the OSRS combat formulas, the user\'s combat levels, equipment bonuses from the Wiki, prayers and potions. Use for "can I kill X", "what\'s my max hit", or comparing setups.',
+          inputSchema: z.object({
+            monsterName: z.string().describe('Exact Wiki page title of the target (e.g., "Vorkath", "Abyssal demon")'),
+            monsterVersion: z.string().optional().describe('Infobox version when the monster has several (e.g., "Post-quest", "Hard mode")'),
+            setups: z.array(z.object({
+              label: z.string().optional().describe('Short name for this setup (e.g., "Whip + Fighter torso")'),
+              combatType: z.enum(['melee', 'ranged', 'magic']),
+              items: z.array(z.string()).max(11).describe('Exact Wiki names of every equipped item, including ammo (e.g., ["Abyssal whip", "Dragon defender", "Fighter torso"])'),
+              attackType: z.enum(['stab', 'slash', 'crush']).optional().describe('Melee attack type (default slash)'),
+              style: z.enum(['accurate', 'aggressive', 'controlled', 'defensive', 'rapid', 'longrange']).optional(),
+              prayer: z.enum(Object.keys(PRAYERS) as [PrayerName, ...PrayerName[]]).optional(),
+              potion: z.enum(Object.keys(POTIONS) as [PotionName, ...PotionName[]]).optional(),
+              spell: z.string().optional().describe('Combat spell for magic setups (e.g., "Fire Surge", "Ice Barrage"). Omit when using a powered staff.'),
+            })).min(1).max(4),
+            levels: z.object({
+              attack: z.number().int().min(1).max(99),
+              strength: z.number().int().min(1).max(99),
+              defence: z.number().int().min(1).max(99),
+              ranged: z.number().int().min(1).max(99),
+              magic: z.number().int().min(1).max(99),
+              hitpoints: z.number().int().min(10).max(99),
+              prayer: z.number().int().min(1).max(99),
+            }).partial().optional().describe('Override levels — only needed for hypothetical stats or when the user has no linked account'),
+          }),
+          execute: async ({ monsterName, monsterVersion, setups, levels: levelOverrides }) => {
+            debugLog(`[Tool] calculateDps: ${setups.length} setup(s) vs "${monsterName}"`);
+
+            const target = await fetchTargetStats(monsterName, monsterVersion);
+            if (!target) {
+              return {
+                success: false as const,
+                message: `Could not find combat stats for "${monsterName}" on the Wiki. Try searchWiki to find the correct name.`,
+              };
+            }
+
+            const userStats = normalizeUserContext(userContext);
+            const skills = userStats?.stats?.latestSnapshot?.data?.skills;
+            if (!skills && !levelOverrides) {
+              return {
+                success: false as const,
+                message: 'No combat levels available. Ask the user for their levels or have them enter their username.',
+              };
+            }
+            const baseLevels = { ...levelsFromSkills(skills ?? {}), ...levelOverrides };
+            const rules = getUserRules(userStats);
+
+            const results = [];
+            for (const [index, setup] of setups.entries()) {
+              const { bonuses, missing } = await fetchEquipmentBonuses(setup.items);
+              const equipment = sumEquipmentBonuses(bonuses);
+              const buildConflicts = await gearBuildConflicts(setup.items, rules);
+
+              let spellMaxHit: number | undefined;
+              let poweredStaff = false;
+              let spellNote: string | null = null;
+              if (setup.combatType === 'magic') {
+                const stave = setup.items
+                  .map((item) => item.toLowerCase())
+                  .find((item) => POWERED_STAVES[item]);
+                const spell = setup.spell?.toLowerCase();
+                if (spell && SPELL_MAX_HITS[spell] !== undefined) {
+                  spellMaxHit = SPELL_MAX_HITS[spell];
+                } else if (stave) {
+                  // Powered staves scale with the boosted Magic level
+                  spellMaxHit = POWERED_STAVES[stave](applyPotion(baseLevels, setup.potion).magic);
+                  poweredStaff = true;
+                } else {
+                  spellNote = `Unknown spell "${setup.spell ?? 'none'}" — magic max hit could not be computed.`;
+                }
+              }
+
+              const result = calculateDps({
+                combatType: setup.combatType,
+                levels: baseLevels,
+                equipment,
+                target,
+                attackType: setup.attackType,
+                style: setup.style,
+                prayer: setup.prayer,
+                potion: setup.potion,
+                spellMaxHit,
+                poweredStaff,
+              });
+
+              results.push({
+                label: setup.label || `Setup ${index + 1}`,
+                ...result,
+                equipmentBonuses: equipment,
+                itemsWithoutBonuses: missing.length > 0 ? missing : null,
+                note: spellNote,
+                buildConflicts: buildConflicts.length > 0 ? buildConflicts : null,
+                buildNote: rules ? describeBuildConflicts(buildConflicts, rules) : null,
+              });
+            }
+
+            const ranked = [...results].sort((a, b) => b.dps - a.dps);
+
+            return {
+              success: true as const,
+              target,
+              levelsUsed: baseLevels,
+              setups: results,
+              best: ranked[0].label,
+              formatted: ranked
+                .map((r) => `${r.label}: ${r.dps.toFixed(2)} DPS, max hit ${r.maxHit}, ${(r.accuracy * 100).toFixed(1)}% accuracy${r.timeToKill ? `, ~${r.timeToKill}s per kill` : ''}${r.buildNote ? ` — ${r.buildNote}` : ''}`)
+                .join('\n'),
+            };
+          },
+        }),
+
         checkRequirements: tool({
           description: 'Check if the current user meets the requirements for a quest, diary, boss, or activity. Fetches requirements from the Wiki and compares against the user\'s stats. Use when users ask "can I do X?" or "what do I need for X?".',
           inputSchema: z.object({
@@ -876,11 +1356,29 @@ export async function POST(req: Request) {
           execute: async ({ contentName, contentType }) => {
             debugLog(`[Tool] checkRequirements: "${contentName}" (${contentType})`);
 
+            if (contentType === 'diary') {
+              const userStats = normalizeUserContext(userContext);
+              const diary = await checkDiary(contentName, getUserLevels(userStats), null, DIARY_TIERS, { ironman: isIronman(userStats) });
+              if (diary) {
+                const rules = getUserRules(userStats);
+                const buildConflicts = rules ? diaryBuildConflicts(diary.tiers, rules) : [];
+                return {
+                  success: true as const,
+                  contentName: diary.region,
+                  contentType,
+                  diary,
+                  buildConflicts: buildConflicts.length > 0 ? buildConflicts : null,
+                  hasUserStats: !!userContext?.stats,
+                  formatted: formatDiaryCheck(diary),
+                };
+              }
+            }
+
             // Fetch the Wiki page for this content
-            const pageContent = await getWikiPageFull(contentName);
+            const fullPage = await getWikiPageFull(contentName);
             const pageInfo = await getWikiPage(contentName);
 
-            if (!pageContent) {
+            if (!fullPage) {
               return {
                 success: false as const,
                 message: `Could not find "${contentName}" on the Wiki. Try searchWiki to find the correct name.`,
@@ -891,15 +1389,15 @@ export async function POST(req: Request) {
             const imageUrl = pageInfo?.imageUrl || null;
 
             // Cache for future RAG retrieval
-            cacheWikiPage(contentName, pageContent, url, imageUrl)
+            cacheWikiPage(contentName, fullPage.content, url, imageUrl, fullPage.infoboxes)
               .catch((err) => debugLog('[Cache] checkRequirements background cache failed:', err));
 
             // Extract requirement-related sections
-            const reqSection = extractRequirementSection(pageContent);
+            const reqSection = extractRequirementSection(fullPage.content);
 
             // Compare against user stats if available
             const userStats = normalizeUserContext(userContext);
-            let statsComparison: { skill: string; required: number; current: number; met: boolean }[] = [];
+            let statsComparison: (RequirementCheck & { met: boolean; result: string })[] = [];
 
             if (userStats?.stats?.latestSnapshot?.data?.skills) {
               const skills = userStats.stats.latestSnapshot.data.skills;
@@ -908,18 +1406,18 @@ export async function POST(req: Request) {
 
               statsComparison = skillReqs.map((req) => {
                 const userSkill = skills[req.skill.toLowerCase()];
-                const currentLevel = userSkill?.level ?? 0;
-                return {
-                  skill: req.skill,
-                  required: req.level,
-                  current: currentLevel,
-                  met: currentLevel >= req.level,
-                };
+                const check = evaluateSkillRequirement(req, userSkill?.level ?? 0, { ironman: isIronman(userStats) });
+                return { ...check, met: check.status !== 'unmet', result: describeRequirementStatus(check) };
               });
             }
 
             const allMet = statsComparison.length > 0 && statsComparison.every((s) => s.met);
             const unmetReqs = statsComparison.filter((s) => !s.met);
+            const boostedReqs = statsComparison.filter((s) => s.status === 'met_with_boost');
+            const rules = getUserRules(userStats);
+            const buildConflicts = rules
+              ? findBuildConflicts(statsComparison.map((s) => ({ skill: s.skill, level: s.required })), rules)
+              : [];
 
             return {
               success: true as const,
@@ -931,7 +1429,595 @@ export async function POST(req: Request) {
               statsComparison: statsComparison.length > 0 ? statsComparison : null,
               allRequirementsMet: statsComparison.length > 0 ? allMet : null,
               unmetRequirements: unmetReqs.length > 0 ? unmetReqs : null,
+              metWithBoosts: boostedReqs.length > 0 ? boostedReqs : null,
+              buildConflicts: buildConflicts.length > 0 ? buildConflicts : null,
+              buildNote: rules ? describeBuildConflicts(buildConflicts, rules) : null,
+              hasUserStats: !!userStats?.stats,
+            };
+          },
+        }),
+
+        checkDiary: tool({
+          description: 'Check an Achievement Diary region tier by tier. Parses every Easy/Medium/Hard/Elite task with its skill, quest and item requirements from the Wiki and compares them against the user\'s levels, returning which tiers they can finish and the exact missing levels and quests.',
+          inputSchema: z.object({
+            region: z.string().describe(`Diary region (${[...new Set(Object.values(DIARY_REGIONS))].map((t) => t.replace(' Diary', '')).join(', ')})`),
+            tier: z.enum(DIARY_TIERS).optional().describe('Only check one tier'),
+            completedQuests: z.array(z.string()).optional().describe('Quests the user has completed, if they told you. Omit when unknown so quest requirements are listed rather than judged.'),
+          }),
+          execute: async ({ region, tier, completedQuests }) => {
+            debugLog(`[Tool] checkDiary: "${region}"${tier ? ` (${tier})` : ''}`);
+            const userStats = normalizeUserContext(userContext);
+            const diary = await checkDiary(
+              region,
+              getUserLevels(userStats),
+              completedQuests ? new Set(completedQuests.map((q) => q.toLowerCase())) : null,
+              tier ? [tier] : DIARY_TIERS,
+              { ironman: isIronman(userStats) }
+            );
+            if (!diary) {
+              return {
+                success: false as const,
+                message: `Could not load the "${region}" diary. Use one of the region names listed in the tool description.`,
+              };
+            }
+
+            const rules = getUserRules(userStats);
+            const buildConflicts = rules ? diaryBuildConflicts(diary.tiers, rules) : [];
+
+            return {
+              success: true as const,
+              region: diary.region,
+              tiers: diary.tiers,
+              questsVerified: diary.questsVerified,
+              buildConflicts: buildConflicts.length > 0 ? buildConflicts : null,
+              hasUserStats: !!userStats?.stats,
+              formatted: formatDiaryCheck(diary),
+            };
+          },
+        }),
+
+        planQuests: tool({
+          description: 'Plan the quests a user still needs for a target quest or the Quest point cape. Follows nested prerequisites through the Wiki quest graph, orders them so prerequisites come first and quests the user can already start come early, and lists the items each quest needs and the skill levels to train along the way. The Quest point cape plan reads every quest page, so the first call can be slow.',
+          inputSchema: z.object({
+            target: z.string().describe('Quest name (e.g., "Desert Treasure II - The Fallen Empire", "Monkey Madness II") or "Quest point cape" for all quests'),
+            completedQuests: z.array(z.string()).optional().default([]).describe('Quests the user has already completed, if they told you'),
+            questPoints: z.number().int().min(0).optional().describe('User\'s current quest points, if known'),
+          }),
+          execute: async ({ target, completedQuests, questPoints }) => {
+            debugLog(`[Tool] planQuests: "${target}" (${completedQuests.length} completed)`);
+            const userStats = normalizeUserContext(userContext);
+            const plan = await planQuests(target, {
+              levels: getUserLevels(userStats),
+              ironman: isIronman(userStats),
+              completed: new Set(completedQuests.map((q) => q.toLowerCase())),
+              questPoints,
+            });
+            if (!plan) {
+              return {
+                success: false as const,
+                message: `Could not find quest "${target}" on the Wiki. Try searchWiki to find the exact quest name.`,
+              };
+            }
+
+            const rules = getUserRules(userStats);
+            const { allowed: skillsToTrain, conflicts: buildConflicts } = rules
+              ? partitionByBuild(plan.skillsToTrain, rules)
+              : { allowed: plan.skillsToTrain, conflicts: [] };
+
+            return {
+              success: true as const,
+              target: plan.target,
+              questCount: plan.steps.length,
+              steps: plan.steps,
+              skillsToTrain,
+              buildConflicts: buildConflicts.length > 0 ? buildConflicts : null,
+              buildNote: rules ? describeBuildConflicts(buildConflicts, rules) : null,
+              startingQuestPoints: plan.startingQuestPoints,
+              finalQuestPoints: plan.finalQuestPoints,
+              unknownQuests: plan.unknownQuests,
+              unloadedQuests: plan.unloadedQuests,
+              hasUserStats: !!userStats?.stats,
+              formatted: formatQuestPlan(plan),
+            };
+          },
+        }),
+
+        getPlayerMilestones: tool({
+          description: 'Get a player\'s Wise Old Man achievements (with dates), records (best day/week/month gains) and the unreached milestones they are closest to. Use for "when did I get 99 X", "what\'s my best XP week", "what am I closest to next".',
+          inputSchema: z.object({
+            username: z.string().optional().describe('RuneScape username; defaults to the current user'),
+            metric: z.string().optional().describe('Skill, boss or activity to focus on (e.g., "slayer", "vorkath", "overall")'),
+            period: z.enum(['five_min', 'day', 'week', 'month', 'year']).optional().describe('Only return records for this period'),
+          }),
+          execute: async ({ username: requestedUsername, metric, period }) => {
+            const userStats = normalizeUserContext(userContext);
+            const username = requestedUsername || userStats?.username || userStats?.stats?.username;
+            debugLog(`[Tool] getPlayerMilestones: "${username}"${metric ? ` (${metric})` : ''}`);
+            if (!username) {
+              return {
+                success: false as const,
+                message: 'No username available. Ask the user for their RuneScape name.',
+              };
+            }
+
+            const milestones = await getPlayerMilestones(username, { metric, period });
+            if (!milestones) {
+              return {
+                success: false as const,
+                message: `Could not load milestones for "${username}" from Wise Old Man. They may need to be tracked first.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              username: milestones.username,
+              achievements: milestones.achievements,
+              records: milestones.records,
+              nextMilestones: milestones.nextMilestones,
+              formatted: formatMilestones(milestones),
+            };
+          },
+        }),
+
+        getProgressTimeline: tool({
+          description: 'Get a player\'s progress over a custom date range from Wise Old Man snapshots: start/end values, total gained and gain per day for chosen skills, bosses or activities, plus the skills and bosses with the biggest gains in the range. Use for "how much XP did I get since June", "my Vorkath KC over the last 3 months", "what did I train most this month".',
+          inputSchema: z.object({
+            username: z.string().optional().describe('RuneScape username; defaults to the current user'),
+            startDate: z.string().optional().describe('Range start as an ISO date (e.g., "2025-01-01"); defaults to 30 days ago'),
+            endDate: z.string().optional().describe('Range end as an ISO date; defaults to now'),
+            metrics: z.array(z.string()).max(5).optional().describe('Skills, bosses or activities to chart (e.g., ["overall", "slayer", "vorkath"]); defaults to overall'),
+          }),
+          execute: async ({ username: requestedUsername, startDate, endDate, metrics }) => {
+            const userStats = normalizeUserContext(userContext);
+            const username = requestedUsername || userStats?.username || userStats?.stats?.username;
+            debugLog(`[Tool] getProgressTimeline: "${username}" ${startDate ?? '30d ago'} → ${endDate ?? 'now'}`);
+            if (!username) {
+              return {
+                success: false as const,
+                message: 'No username available. Ask the user for their RuneScape name.',
+              };
+            }
+
+            const end = endDate ? new Date(endDate) : new Date();
+            const start = startDate ? new Date(startDate) : new Date(end.getTime() - 30 * 86400000);
+            if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+              return {
+                success: false as const,
+                message: 'Invalid date range. Use ISO dates with the start before the end.',
+              };
+            }
+
+            const timeline = await getProgressTimeline(
+              username,
+              { startDate: start.toISOString(), endDate: end.toISOString() },
+              metrics && metrics.length > 0 ? metrics.map(toWomMetric) : ['overall']
+            );
+            if (!timeline) {
+              return {
+                success: false as const,
+                message: `Could not load snapshots for "${username}" from Wise Old Man. They may need to be tracked first.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              username: timeline.username,
+              startDate: timeline.startDate,
+              endDate: timeline.endDate,
+              snapshotCount: timeline.snapshotCount,
+              // Keep the payload small; the summary numbers use every point
+              series: timeline.series.map((s) => ({ ...s, points: downsample(s.points, 30) })),
+              topSkills: timeline.topSkills,
+              topBosses: timeline.topBosses,
+              formatted: formatProgressTimeline(timeline),
+            };
+          },
+        }),
+
+        getEfficiency: tool({
+          description: 'Get a player\'s efficiency breakdown from Wise Old Man: EHP, EHB, time to max (or 200m all) split per skill using the rates for their account type and build (ironman, lvl3, def1, f2p, ...), how much last week\'s gains reduced it, and top EHB bosses. Use for "how long until I max", "which skills are slowing my max", "what is my EHP".',
+          inputSchema: z.object({
+            username: z.string().optional().describe('RuneScape username; defaults to the current user'),
+            target: z.enum(['max', '200m']).optional().describe('Time to max (default) or to 200m in every skill'),
+          }),
+          execute: async ({ username: requestedUsername, target = 'max' }) => {
+            const userStats = normalizeUserContext(userContext);
+            const username = requestedUsername || userStats?.username || userStats?.stats?.username;
+            debugLog(`[Tool] getEfficiency: "${username}" (${target})`);
+            if (!username) {
+              return {
+                success: false as const,
+                message: 'No username available. Ask the user for their RuneScape name.',
+              };
+            }
+
+            const report = await getEfficiencyReport(username, target);
+            if (!report) {
+              return {
+                success: false as const,
+                message: `Could not load efficiency data for "${username}" from Wise Old Man. They may need to be tracked first.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              username: report.username,
+              algorithm: report.algorithm,
+              ehp: report.ehp,
+              ehb: report.ehb,
+              ttm: report.ttm,
+              tt200m: report.tt200m,
+              estimatedHours: Math.round(report.estimatedHours),
+              skills: report.skills.slice(0, 10).map((s) => ({
+                skill: s.skill,
+                level: s.level,
+                hours: Math.round((s.hours ?? 0) * 10) / 10,
+                share: Math.round(s.share * 100),
+                remainingXp: s.remainingXp,
+              })),
+              weekly: report.weekly,
+              bosses: report.bosses,
+              formatted: formatEfficiencyReport(report),
+            };
+          },
+        }),
+
+        comparePlayers: tool({
+          description: 'Compare 2-5 players side by side from Wise Old Man: total level, XP, combat, EHP, EHB, time to max, every skill level, boss KC, activity scores (clue scrolls, LMS, minigames) and XP gained this week. Returns markdown comparison tables with the leader of each row in bold. If only one other player is given, the current user is compared against them.',
+          inputSchema: z.object({
+            usernames: z.array(z.string()).min(1).max(MAX_COMPARE_PLAYERS).describe('RuneScape usernames to compare (e.g., ["Zezima", "Woox"])'),
+          }),
+          execute: async ({ usernames }) => {
+            const userStats = normalizeUserContext(userContext);
+            const self = userStats?.username || userStats?.stats?.username;
+            const players = usernames.length === 1 && self ? [self, ...usernames] : usernames;
+            debugLog(`[Tool] comparePlayers: ${players.join(', ')}`);
+            if (players.length < 2) {
+              return {
+                success: false as const,
+                message: 'Need at least two players to compare. Ask the user who to compare against.',
+              };
+            }
+
+            const comparison = await comparePlayers(players);
+            if (!comparison) {
+              return {
+                success: false as const,
+                message: `Could not find at least two of ${players.join(', ')} on Wise Old Man. They may need to be tracked first.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              players: comparison.players,
+              notFound: comparison.notFound,
+              skills: comparison.skills,
+              bosses: comparison.bosses,
+              activities: comparison.activities,
+              weeklyGains: comparison.weeklyGains,
+              formatted: formatComparison(comparison),
+            };
+          },
+        }),
+
+        getGroupLeaderboard: tool({
+          description: 'Rank the members of a Wise Old Man group (clan) by gains in a skill, boss or activity over a period, or by current hiscores. Use for "who gained the most Slayer XP in our clan this week" or "who has the most Vorkath kills in the clan". Defaults to the current user\'s group.',
+          inputSchema: z.object({
+            group: z.string().optional().describe('WOM group name or id; defaults to the group the current user is in'),
+            metric: z.string().default('overall').describe('Skill, boss or activity (e.g., "slayer", "vorkath", "overall", "ehp")'),
+            mode: z.enum(['gains', 'hiscores']).default('gains').describe('"gains" ranks by amount gained in the period, "hiscores" by current totals'),
+            period: z.enum(['day', 'week', 'month', 'year']).default('week').describe('Period for gains'),
+          }),
+          execute: async ({ group: groupQuery, metric, mode, period }) => {
+            const userStats = normalizeUserContext(userContext);
+            const username = userStats?.username || userStats?.stats?.username;
+            debugLog(`[Tool] getGroupLeaderboard: "${groupQuery ?? `group of ${username}`}" ${metric} (${mode}, ${period})`);
+
+            const group = groupQuery ? await resolveGroup(groupQuery) : username ? await findPlayerGroup(username) : null;
+            if (!group) {
+              return {
+                success: false as const,
+                message: groupQuery
+                  ? `No Wise Old Man group found for "${groupQuery}".`
+                  : 'Could not find a Wise Old Man group for the user. Ask for their clan\'s WOM group name or id.',
+              };
+            }
+
+            const board = await getGroupLeaderboard(group, toWomMetric(metric), { mode, period });
+            if (!board) {
+              return {
+                success: false as const,
+                message: `Could not load ${mode} for "${group.name}". Check the metric name.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              group: board.group,
+              metric: board.metric,
+              mode: board.mode,
+              period: board.period,
+              entries: board.entries,
+              formatted: formatGroupLeaderboard(board),
+            };
+          },
+        }),
+
+        getCompetitionStandings: tool({
+          description: 'Get standings in the current Wise Old Man competition (e.g. Skill/Boss of the Week) for a group or the user: top participants, team totals, and the user\'s rank and gap to the player above. Use for "where do I stand in the current SOTW".',
+          inputSchema: z.object({
+            group: z.string().optional().describe('WOM group name or id; defaults to the competitions the user is entered in'),
+            metric: z.string().optional().describe('Only consider competitions for this skill/boss (e.g., "woodcutting")'),
+            username: z.string().optional().describe('Player whose rank to report; defaults to the current user'),
+          }),
+          execute: async ({ group: groupQuery, metric, username: requestedUsername }) => {
+            const userStats = normalizeUserContext(userContext);
+            const username = requestedUsername || userStats?.username || userStats?.stats?.username;
+            const womMetric = metric ? toWomMetric(metric) : undefined;
+            debugLog(`[Tool] getCompetitionStandings: "${groupQuery ?? '-'}" for "${username}"${womMetric ? ` (${womMetric})` : ''}`);
+
+            let standings = null;
+            if (groupQuery) {
+              const group = await resolveGroup(groupQuery);
+              if (!group) {
+                return {
+                  success: false as const,
+                  message: `No Wise Old Man group found for "${groupQuery}".`,
+                };
+              }
+              standings = await getCurrentCompetitionStandings(group, { username, metric: womMetric });
+            } else if (username) {
+              standings = await getPlayerCurrentCompetition(username, { metric: womMetric });
+              if (!standings) {
+                const group = await findPlayerGroup(username);
+                standings = group ? await getCurrentCompetitionStandings(group, { username, metric: womMetric }) : null;
+              }
+            } else {
+              return {
+                success: false as const,
+                message: 'No username or group available. Ask the user for their RuneScape name or clan group.',
+              };
+            }
+
+            if (!standings) {
+              return {
+                success: false as const,
+                message: 'No current competition found on Wise Old Man.',
+              };
+            }
+
+            return {
+              success: true as const,
+              competition: standings.competition,
+              status: standings.status,
+              standings: standings.standings,
+              player: standings.player,
+              nextAbove: standings.nextAbove,
+              teams: standings.teams,
+              formatted: formatCompetitionStandings(standings),
+            };
+          },
+        }),
+
+        solveClue: tool({
+          description: 'Solve a Treasure Trails clue step from a dataset parsed from the Wiki\'s clue guides: anagrams, ciphers, cryptic clues, coordinates, emote clues and hot/cold. Returns the NPC/location, challenge answer, emotes, items to wear and skill requirements checked against the user\'s levels.',
+          inputSchema: z.object({
+            clue: z.string().describe('The clue text as written on the scroll (e.g., "A BAKER", "03 degrees 45 minutes north 12 degrees 30 minutes east", "Clap in the Digsite wearing...")'),
+            type: z.enum(CLUE_TYPES).optional().describe('Clue type, if known. Detected from the text when omitted.'),
+          }),
+          execute: async ({ clue, type }) => {
+            debugLog(`[Tool] solveClue: "${clue}"${type ? ` (${type})` : ''}`);
+            const userStats = normalizeUserContext(userContext);
+            const solution = await solveClue(clue, getUserLevels(userStats), type);
+            if (!solution) {
+              return {
+                success: false as const,
+                message: `No clue matching "${clue}" was found in the Wiki clue guides. Ask the user for the exact scroll text, or try getWikiPage on the clue guide.`,
+              };
+            }
+
+            return {
+              success: true as const,
+              type: solution.type,
+              clue: solution.match.clue,
+              solution: solution.match.solution,
+              location: solution.match.location,
+              tier: solution.match.tier,
+              challengeAnswer: solution.match.challengeAnswer,
+              emotes: solution.match.emotes,
+              items: solution.match.items,
+              skills: solution.match.skills,
+              unmetSkills: solution.unmetSkills,
+              quests: solution.match.quests,
+              matchConfidence: solution.score,
+              needsConfirmation: solution.score < 0.9,
+              hasUserStats: !!userStats?.stats,
+              formatted: formatClueSolution(solution),
+            };
+          },
+        }),
+
+        planFarmRun: tool({
+          description: 'Plan a herb, tree or fruit tree run for the user\'s Farming level and quests: the best crop for profit or XP, the unlocked patches in route order with travel, growth time, XP per run, expected herb yield after disease, and seed/compost cost and profit at live prices. Lists locked patches and what unlocks them.',
+          inputSchema: z.object({
+            type: z.enum(FARM_RUN_TYPES).describe('Kind of run: herb, tree or fruit_tree'),
+            goal: z.enum(['profit', 'xp']).optional().describe('Pick the crop for profit or XP. Defaults to profit for herbs and XP for trees.'),
+            crop: z.string().optional().describe('A specific crop to plant (e.g., "Ranarr", "Magic", "Palm") instead of the best one'),
+            compost: z.enum(COMPOST_TYPES).optional().default('ultracompost').describe('Compost used on each patch'),
+            completedQuests: z.array(z.string()).optional().describe('Quests the user has completed, if they told you. Omit when unknown so quest-locked patches are assumed unlocked.'),
+          }),
+          execute: async ({ type, goal, crop, compost, completedQuests }) => {
+            debugLog(`[Tool] planFarmRun: ${type}${crop ? ` (${crop})` : ''}`);
+            const userStats = normalizeUserContext(userContext);
+            const levels = getUserLevels(userStats);
+            if (levels.farming === undefined) {
+              return {
+                success: false as const,
+                message: 'No Farming level available. Ask the user for their Farming level or username.',
+              };
+            }
+
+            const plan = await planFarmRun(type, {
+              levels,
+              completedQuests: completedQuests ? new Set(completedQuests.map((q) => q.toLowerCase())) : null,
+              rules: getUserRules(userStats),
+            }, { goal, crop, compost });
+            if ('error' in plan) {
+              return { success: false as const, message: plan.error };
+            }
+
+            return {
+              success: true as const,
+              type: plan.type,
+              crop: plan.crop.name,
+              seed: plan.crop.seed,
+              patches: plan.stops.map((s) => s.location),
+              locked: plan.locked,
+              growthMinutes: plan.growthMinutes,
+              xpPerRun: plan.xpPerRun,
+              expectedYield: plan.expectedYield,
+              costPerRun: plan.costPerRun,
+              profitPerRun: plan.profitPerRun,
+              questsVerified: !!completedQuests,
+              hasUserStats: !!userStats?.stats,
+              formatted: formatFarmRunPlan(plan, isIronman(userStats)),
+            };
+          },
+        }),
+
+        rankMoneyMakers: tool({
+          description: 'Rank money making methods from the Wiki\'s Money making guides, plus High Alchemy on the best item to alch right now, by profit per hour recomputed with live GE prices, keeping only methods the user\'s skills, quests and account type allow (ironmen never get GE-dependent methods). Also lists the best-paying methods still locked and what they need.',
+          inputSchema: z.object({
+            category: z.enum(MONEY_MAKING_CATEGORIES).optional().describe('Only methods of this type (combat, skilling, processing, collecting, recurring)'),
+            intensity: z.enum(['low', 'moderate', 'high']).optional().describe('Only methods of this intensity ("low" for AFK methods)'),
+            completedQuests: z.array(z.string()).optional().describe('Quests the user has completed, if they told you. Omit when unknown so quest-gated methods are assumed available.'),
+            limit: z.number().int().min(1).max(20).optional().default(10).describe('How many methods to return'),
+          }),
+          execute: async ({ category, intensity, completedQuests, limit }) => {
+            debugLog(`[Tool] rankMoneyMakers: ${category ?? 'all'}${intensity ? ` (${intensity})` : ''}`);
+            const userStats = normalizeUserContext(userContext);
+            const ranking = await rankMoneyMakers({
+              levels: getUserLevels(userStats),
+              completedQuests: completedQuests ? new Set(completedQuests.map((q) => q.toLowerCase())) : null,
+              rules: getUserRules(userStats),
+            }, { category, intensity, limit });
+            if (!ranking) {
+              return {
+                success: false as const,
+                message: 'Could not load the Wiki money making guides right now. Fall back to getWikiPage("Money making guide").',
+              };
+            }
+
+            return {
+              success: true as const,
+              methods: ranking.methods.map((r) => ({
+                activity: r.method.activity,
+                category: r.method.category,
+                intensity: r.method.intensity,
+                profitPerHour: r.profitPerHour,
+                inputCostPerHour: r.inputCostPerHour,
+                requirements: r.method.skills.map((s) => `${s.level} ${s.skill}`),
+                quests: r.method.quests,
+                unpriced: r.unpriced,
+                url: r.url,
+              })),
+              excluded: ranking.excluded,
+              pendingGuides: ranking.pendingGuides,
+              questsVerified: ranking.questsVerified,
+              hasUserStats: !!userStats?.stats,
+              formatted: formatMoneyMakers(ranking, isIronman(userStats)),
+            };
+          },
+        }),
+
+        recommendBosses: tool({
+          description: 'Recommend which boss the user should do next. Scores bosses from the user\'s levels, boss kill counts, owned rares and collection log against entry requirements, key gear, GP/hr and collection log slots remaining, and returns a ranked list with reasons plus the closest bosses still locked.',
+          inputSchema: z.object({
+            focus: z.enum(['balanced', 'gp', 'log']).optional().default('balanced').describe('What to prioritise: balanced, GP/hr, or collection log slots'),
+            completedQuests: z.array(z.string()).optional().describe('Quests the user has completed, if they told you. Omit when unknown so quest-locked bosses are assumed unlocked.'),
+            limit: z.number().int().min(1).max(10).optional().default(5).describe('How many bosses to recommend'),
+          }),
+          execute: async ({ focus, completedQuests, limit }) => {
+            debugLog(`[Tool] recommendBosses: ${focus}`);
+            const userStats = normalizeUserContext(userContext);
+            if (!userStats?.stats) {
+              return {
+                success: false as const,
+                message: 'No player stats loaded. Ask the user to enter their username so bosses can be matched to their levels and kill counts.',
+              };
+            }
+
+            const collectionLog = userStats.collectionLog;
+            const rareItems = userStats.rareItems.length > 0 || !collectionLog ? userStats.rareItems : extractRareItems(collectionLog);
+            const owned = buildOwnedItemSet(collectionLog, [...rareItems.map((i) => i.name), ...(profile?.notableItems ?? [])]);
+            const result = recommendBosses({
+              levels: getUserLevels(userStats),
+              killCounts: killCountsFromSnapshot(userStats.stats.latestSnapshot?.data.bosses),
+              owned,
+              collectionLog,
+              completedQuests: completedQuests ? new Set(completedQuests.map((q) => q.toLowerCase())) : null,
+              rules: getUserRules(userStats),
+            }, focus, limit);
+
+            return {
+              success: true as const,
+              focus: result.focus,
+              recommended: result.recommended,
+              locked: result.locked,
+              questsVerified: result.questsVerified,
+              hasCollectionLog: result.hasCollectionLog,
+              hasUserStats: true,
+              formatted: formatBossRecommendations(result),
+            };
+          },
+        }),
+
+        slayerAdvice: tool({
+          description: 'Slayer master advice: chance of each task from a master given the user\'s Slayer and combat level, completed quests, bought unlocks, blocks and extends, the expected Slayer points/XP/GP per hour, and a recommended block list (and extends) for a goal. Rates are estimates from typical kill speeds, not the user\'s own.',
+          inputSchema: z.object({
+            goal: z.enum(['points', 'xp', 'gp']).optional().default('xp').describe('What to optimise blocks for'),
+            master: z.string().optional().describe(`Slayer master (${SLAYER_MASTERS.map((m) => m.name).join(', ')}). Defaults to the best one the user can use.`),
+            blocks: z.array(z.string()).optional().default([]).describe('Tasks the user already has blocked'),
+            extends: z.array(z.string()).optional().default([]).describe('Tasks the user has extend unlocks for'),
+            unlocks: z.array(z.string()).optional().default([]).describe('Task unlocks bought from the reward shop (e.g., "Seeing red", "Watch the birdie", "Hot stuff")'),
+            completedQuests: z.array(z.string()).optional().describe('Quests the user has completed, if they told you. Omit when unknown so quest-gated tasks are assumed available.'),
+            maxBlocks: z.number().int().min(0).max(DEFAULT_MAX_BLOCKS).optional().default(DEFAULT_MAX_BLOCKS).describe('Block slots the user has'),
+          }),
+          execute: async ({ goal, master: masterName, blocks, extends: extendList, unlocks, completedQuests, maxBlocks }) => {
+            debugLog(`[Tool] slayerAdvice: ${goal}${masterName ? ` (${masterName})` : ''}`);
+            const userStats = normalizeUserContext(userContext);
+            const levels = getUserLevels(userStats);
+            const master = masterName ? findSlayerMaster(masterName) : bestAvailableMaster(levels);
+            if (!master) {
+              return {
+                success: false as const,
+                message: `Unknown Slayer master "${masterName}". Supported: ${SLAYER_MASTERS.map((m) => m.name).join(', ')}.`,
+              };
+            }
+
+            const toKeys = (names: string[]) => new Set(names.map((n) => resolveSlayerMonster(n) ?? n.toLowerCase()));
+            const state = {
+              levels,
+              completedQuests: completedQuests ? new Set(completedQuests.map((q) => q.toLowerCase())) : null,
+              unlocks: new Set(unlocks.map((u) => u.toLowerCase().replace(/!$/, ''))),
+              blocks: toKeys(blocks),
+              extends: toKeys(extendList),
+            };
+            const distribution = taskDistribution(master, state);
+            const plan = optimizeBlocks(master, state, goal, Math.max(maxBlocks, state.blocks.size));
+            const combat = levels.combat ?? 0;
+
+            return {
+              success: true as const,
+              master: master.name,
+              meetsMasterRequirements: combat >= master.combatLevel && (levels.slayer ?? 1) >= master.slayerLevel,
+              tasks: distribution.tasks.map((t) => ({ monster: t.monster, probability: Math.round(t.probability * 1000) / 10, extended: t.extended })),
+              ineligible: distribution.ineligible,
+              rates: distribution.rates,
+              plan,
+              questsVerified: distribution.questsVerified,
               hasUserStats: !!userStats?.stats,
+              formatted: formatSlayerAdvice(distribution, plan),
             };
           },
         }),
@@ -943,15 +2029,16 @@ export async function POST(req: Request) {
           }),
           execute: async ({ username: lookupUsername }) => {
             debugLog(`[Tool] lookupPlayer: "${lookupUsername}"`);
-            const playerStats = await getPlayerStats(lookupUsername);
-            if (!playerStats) {
+            const lookup = await getPlayerStatsWithSource(lookupUsername);
+            if (!lookup) {
               return {
                 success: false as const,
-                message: `Player "${lookupUsername}" not found on Wise Old Man. They may need to be tracked first.`,
+                message: `Player "${lookupUsername}" not found on Wise Old Man or the official hiscores.`,
               };
             }
 
-            const statsSummary = formatStatsSummary(playerStats);
+            const playerStats = lookup.stats;
+            const statsSummary = `${formatStatsSummary(playerStats)}\n\n${formatStatsSource(lookup)}`;
             const gains = await getPlayerGains(lookupUsername, 'week');
             const gainsSummary = gains ? formatGainsSummary(gains) : 'No recent gains data';
 
@@ -960,6 +2047,8 @@ export async function POST(req: Request) {
               displayName: playerStats.displayName,
               type: playerStats.type,
               combatLevel: playerStats.combatLevel,
+              source: lookup.source,
+              updatedAt: lookup.updatedAt,
               statsSummary,
               gainsSummary,
             };
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { ingestMoneyMakingGuides } from '@/lib/money-making';
+import { getClueDataset, CLUE_TYPES } from '@/lib/clues';
+
+// Ingestion parses a few hundred Wiki pages, far more than a chat request has time for
+export const maxDuration = 300;
+
+const INGEST_BUDGET_MS = 240_000;
+
+/**
+ * Build the parsed Wiki datasets ahead of chat use. Meant to be called by a cron job with
+ * `Authorization: Bearer $CRON_SECRET`; each call resumes where the previous one stopped.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const clues: Record<string, number> = {};
+    for (const type of CLUE_TYPES) {
+      clues[type] = (await getClueDataset(type))?.length ?? 0;
+    }
+
+    const moneyMaking = await ingestMoneyMakingGuides(INGEST_BUDGET_MS);
+
+    return NextResponse.json({
+      clues,
+      moneyMaking: {
+        methods: moneyMaking?.entries.length ?? 0,
+        pending: moneyMaking?.pending.length ?? 0,
+        complete: moneyMaking?.complete ?? false,
+      },
+    });
+  } catch (error) {
+    console.error('Error ingesting Wiki datasets:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest Wiki datasets' },
+      { status: 500 }
+    );
+  }
+}
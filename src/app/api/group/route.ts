@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import {
+  resolveGroup,
+  findPlayerGroup,
+  getGroupLeaderboard,
+  getCurrentCompetitionStandings,
+} from '@/lib/groups';
+import { validateUsername, rateLimitResponse } from '@/lib/api-helpers';
+
+const METRIC_REGEX = /^[a-z0-9_]{2,40}$/;
+const PERIODS = ['day', 'week', 'month', 'year'] as const;
+
+export async function GET(req: Request) {
+  const limited = rateLimitResponse(req, 'group-get');
+  if (limited) return limited;
+  const { searchParams } = new URL(req.url);
+  const groupQuery = searchParams.get('group')?.trim() ?? '';
+  const username = validateUsername(searchParams.get('username'));
+  const metric = (searchParams.get('metric') || 'overall').toLowerCase();
+  const periodParam = searchParams.get('period');
+  const period = PERIODS.find((p) => p === periodParam) ?? 'week';
+
+  if (groupQuery.length > 50) {
+    return NextResponse.json(
+      { error: 'Group name or id is too long (max 50 characters).' },
+      { status: 400 }
+    );
+  }
+
+  if (!groupQuery && !username) {
+    return NextResponse.json(
+      { error: 'Provide a group name or id, or a username to find their group.' },
+      { status: 400 }
+    );
+  }
+
+  if (!METRIC_REGEX.test(metric)) {
+    return NextResponse.json(
+      { error: 'Invalid metric name (e.g. "overall", "slayer", "vorkath").' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const group = groupQuery ? await resolveGroup(groupQuery) : await findPlayerGroup(username!);
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found on Wise Old Man' },
+        { status: 404 }
+      );
+    }
+
+    const [hiscores, gains, competition] = await Promise.all([
+      getGroupLeaderboard(group, metric, { mode: 'hiscores' }),
+      getGroupLeaderboard(group, metric, { mode: 'gains', period }),
+      getCurrentCompetitionStandings(group, { username: username ?? undefined, limit: 20 }),
+    ]);
+
+    return NextResponse.json({
+      group: { id: group.id, name: group.name, clanChat: group.clanChat, memberCount: group.memberCount },
+      hiscores,
+      gains,
+      competition,
+    });
+  } catch (error) {
+    console.error('Error fetching group data:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch group data' },
+      { status: 500 }
+    );
+  }
+}
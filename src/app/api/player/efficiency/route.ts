@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getEfficiencyReport } from '@/lib/efficiency';
+import { validateUsername, rateLimitResponse } from '@/lib/api-helpers';
+
+export async function GET(req: Request) {
+  const limited = rateLimitResponse(req, 'player-efficiency');
+  if (limited) return limited;
+  const { searchParams } = new URL(req.url);
+  const username = validateUsername(searchParams.get('username'));
+  const target = searchParams.get('target') === '200m' ? '200m' : 'max';
+
+  if (!username) {
+    return NextResponse.json(
+      { error: 'Invalid or missing username. RSN must be 1-12 characters (letters, numbers, spaces, hyphens).' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await getEfficiencyReport(username, target);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Player not found or efficiency rates unavailable' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error building efficiency report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build efficiency report' },
+      { status: 500 }
+    );
+  }
+}
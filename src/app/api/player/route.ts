@@ -1,40 +1,16 @@
 import { NextResponse } from 'next/server';
-import { getPlayerStats, updatePlayerStats, getPlayerGains } from '@/lib/osrs';
-import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
-
-// RSN: 1-12 characters, alphanumeric + spaces + hyphens + underscores
-const RSN_REGEX = /^[a-zA-Z0-9 _-]{1,12}$/;
-
-function validateUsername(username: string | null): string | null {
-  if (!username) return null;
-  const trimmed = username.trim();
-  if (!RSN_REGEX.test(trimmed)) return null;
-  return trimmed;
-}
-
-function rateLimitResponse(req: Request, prefix: string) {
-  const clientId = getClientIdentifier(req);
-  const check = checkRateLimit(`${prefix}:${clientId}`, {
-    limit: 15,          // 15 lookups
-    windowSeconds: 60,  // per minute
-  });
-  if (!check.allowed) {
-    return NextResponse.json(
-      { error: 'Rate limit exceeded. Please wait before making more requests.' },
-      {
-        status: 429,
-        headers: { 'Retry-After': Math.ceil((check.resetAt - Date.now()) / 1000).toString() },
-      }
-    );
-  }
-  return null;
-}
+import { getPlayerGains } from '@/lib/osrs';
+import { getPlayerStatsWithSource, updatePlayerStatsWithSource } from '@/lib/hiscores';
+import { isGameMode } from '@/lib/account-rules';
+import { validateUsername, rateLimitResponse } from '@/lib/api-helpers';
 
 export async function GET(req: Request) {
   const limited = rateLimitResponse(req, 'player-get');
   if (limited) return limited;
   const { searchParams } = new URL(req.url);
   const username = validateUsername(searchParams.get('username'));
+  // Game mode picks which official hiscores to fall back to
+  const mode = searchParams.get('mode');
 
   if (!username) {
     return NextResponse.json(
@@ -44,19 +20,20 @@ export async function GET(req: Request) {
   }
 
   try {
-    const [stats, gains] = await Promise.all([
-      getPlayerStats(username),
+    const [result, gains] = await Promise.all([
+      getPlayerStatsWithSource(username, isGameMode(mode) ? mode : null),
       getPlayerGains(username, 'week'),
     ]);
 
-    if (!stats) {
+    if (!result) {
       return NextResponse.json(
         { error: 'Player not found' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json({ stats, gains });
+    const { stats, ...freshness } = result;
+    return NextResponse.json({ stats, gains, ...freshness });
   } catch (error) {
     console.error('Error fetching player data:', error);
     return NextResponse.json(
@@ -70,7 +47,7 @@ export async function POST(req: Request) {
   const limited = rateLimitResponse(req, 'player-post');
   if (limited) return limited;
 
-  let body: { username?: string };
+  let body: { username?: string; mode?: string };
   try {
     body = await req.json();
   } catch {
@@ -90,9 +67,9 @@ export async function POST(req: Request) {
   }
 
   try {
-    const stats = await updatePlayerStats(username);
+    const result = await updatePlayerStatsWithSource(username, isGameMode(body.mode) ? body.mode : null);
 
-    if (!stats) {
+    if (!result) {
       return NextResponse.json(
         { error: 'Failed to update player stats' },
         { status: 500 }
@@ -101,7 +78,8 @@ export async function POST(req: Request) {
 
     const gains = await getPlayerGains(username, 'week');
 
-    return NextResponse.json({ stats, gains });
+    const { stats, ...freshness } = result;
+    return NextResponse.json({ stats, gains, ...freshness });
   } catch (error) {
     console.error('Error updating player data:', error);
     return NextResponse.json(
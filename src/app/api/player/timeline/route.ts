@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { getProgressTimeline } from '@/lib/timeline';
+import { validateUsername, rateLimitResponse } from '@/lib/api-helpers';
+
+const METRIC_REGEX = /^[a-z0-9_]{2,40}$/;
+const MAX_METRICS = 5;
+const MAX_RANGE_DAYS = 366;
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(req: Request) {
+  const limited = rateLimitResponse(req, 'player-timeline');
+  if (limited) return limited;
+  const { searchParams } = new URL(req.url);
+  const username = validateUsername(searchParams.get('username'));
+
+  if (!username) {
+    return NextResponse.json(
+      { error: 'Invalid or missing username. RSN must be 1-12 characters (letters, numbers, spaces, hyphens).' },
+      { status: 400 }
+    );
+  }
+
+  // Default range: the last 30 days
+  const endDate = parseDate(searchParams.get('endDate')) ?? new Date();
+  const startDate = parseDate(searchParams.get('startDate')) ?? new Date(endDate.getTime() - 30 * 86400000);
+  const rangeDays = (endDate.getTime() - startDate.getTime()) / 86400000;
+
+  if (rangeDays <= 0 || rangeDays > MAX_RANGE_DAYS) {
+    return NextResponse.json(
+      { error: `Date range must be between 1 and ${MAX_RANGE_DAYS} days, with startDate before endDate.` },
+      { status: 400 }
+    );
+  }
+
+  const metrics = (searchParams.get('metrics') || 'overall')
+    .split(',')
+    .map((m) => m.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (metrics.length > MAX_METRICS || !metrics.every((m) => METRIC_REGEX.test(m))) {
+    return NextResponse.json(
+      { error: `Provide up to ${MAX_METRICS} comma-separated metric names (e.g. "overall,slayer,vorkath").` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const timeline = await getProgressTimeline(
+      username,
+      { startDate: startDate.toISOString(), endDate: endDate.toISOString() },
+      metrics
+    );
+
+    if (!timeline) {
+      return NextResponse.json(
+        { error: 'No snapshot history found for this player' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ timeline });
+  } catch (error) {
+    console.error('Error fetching progress timeline:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch progress timeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -684,6 +684,18 @@ function MessageContent({ content }: { content: string }) {
   return (
     <div className="space-y-1.5">
       {lines.map((line, index) => {
+        // Markdown tables: render the whole block at its first row, skip the rest
+        if (isTableRow(line)) {
+          let start = index;
+          while (start > 0 && isTableRow(lines[start - 1])) start--;
+          if (isTableSeparator(lines[start + 1] ?? '')) {
+            if (index !== start) return null;
+            const block: string[] = [];
+            for (let i = start; i < lines.length && isTableRow(lines[i]); i++) block.push(lines[i]);
+            return <MarkdownTable key={index} rows={block} />;
+          }
+        }
+
         // Headers
         if (line.startsWith('### ')) {
           return (
@@ -773,6 +785,64 @@ function MessageContent({ content }: { content: string }) {
   );
 }
 
+// ============================================
+// Markdown tables
+// ============================================
+
+function isTableRow(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith('|') && trimmed.endsWith('|') && trimmed.length > 1;
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\|(\s*:?-{3,}:?\s*\|)+$/.test(line.trim());
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().slice(1, -1).split('|').map((cell) => cell.trim());
+}
+
+function MarkdownTable({ rows }: { rows: string[] }) {
+  const header = splitTableRow(rows[0]);
+  const align = splitTableRow(rows[1]).map((cell) =>
+    cell.endsWith(':') ? (cell.startsWith(':') ? 'text-center' : 'text-right') : 'text-left'
+  );
+  const body = rows.slice(2).map(splitTableRow);
+
+  return (
+    <div className="my-2 overflow-x-auto rounded-lg border border-[var(--osrs-border)]/60">
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="bg-[var(--osrs-panel-dark)]/60">
+            {header.map((cell, i) => (
+              <th
+                key={i}
+                className={cn('px-3 py-1.5 font-semibold text-[var(--osrs-orange)] whitespace-nowrap', align[i])}
+              >
+                {formatInlineText(cell)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {body.map((cells, rowIndex) => (
+            <tr key={rowIndex} className="border-t border-[var(--osrs-border)]/30 odd:bg-[var(--osrs-bg)]/30">
+              {header.map((_, i) => (
+                <td
+                  key={i}
+                  className={cn('px-3 py-1 text-[var(--osrs-white)] whitespace-nowrap', align[i], i === 0 && 'text-gray-300')}
+                >
+                  {formatInlineText(cells[i] ?? '')}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // Format inline text with images and styling
 function formatInlineText(text: string): React.ReactNode {
   const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
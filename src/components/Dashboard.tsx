@@ -3,9 +3,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import Sidebar from './Sidebar';
 import Chat from './Chat';
+import ProgressView from './ProgressView';
 import { cn } from '@/lib/utils';
+import { resolveGameMode } from '@/lib/account-rules';
 import { useChats, useProfile, ChatHistoryItem } from '@/hooks/useSupabase';
 import type { WOMPlayerDetails, WOMGains, CollectionLogData, CollectionLogItem, UserContext } from '@/lib/types';
+import type { StatsFreshness } from '@/lib/hiscores';
 
 export default function Dashboard() {
   // Player context state – restore from localStorage for instant recall
@@ -16,6 +19,7 @@ export default function Dashboard() {
     return '';
   });
   const [stats, setStats] = useState<WOMPlayerDetails | null>(null);
+  const [statsSource, setStatsSource] = useState<StatsFreshness | null>(null);
   const [gains, setGains] = useState<WOMGains | null>(null);
   const [collectionLog, setCollectionLog] = useState<CollectionLogData | null>(null);
   const [rareItems, setRareItems] = useState<CollectionLogItem[]>([]);
@@ -42,13 +46,14 @@ export default function Dashboard() {
   } = useProfile();
 
   // Derive user context for the chat
+  const accountType = resolveGameMode(stats?.type, collectionLog?.accountType);
   const userContext: UserContext = {
     username: username || null,
     stats,
     gains,
     collectionLog,
     rareItems,
-    accountType: stats?.type || null,
+    accountType,
   };
 
   // Load stats from API
@@ -61,6 +66,7 @@ export default function Dashboard() {
       if (response.ok) {
         const data = await response.json();
         setStats(data.stats);
+        setStatsSource({ source: data.source, updatedAt: data.updatedAt, stale: data.stale, fallbackReason: data.fallbackReason });
         setGains(data.gains);
 
         // If Supabase is configured, update the profile with this username
@@ -91,11 +97,12 @@ export default function Dashboard() {
       const response = await fetch('/api/player', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username }),
+        body: JSON.stringify({ username, mode: accountType }),
       });
       if (response.ok) {
         const data = await response.json();
         setStats(data.stats);
+        setStatsSource({ source: data.source, updatedAt: data.updatedAt, stale: data.stale, fallbackReason: data.fallbackReason });
         setGains(data.gains);
       } else {
         console.error('Failed to update player stats');
@@ -105,7 +112,7 @@ export default function Dashboard() {
     } finally {
       setIsLoading(false);
     }
-  }, [username]);
+  }, [username, accountType]);
 
   // Handle collection log parsing
   const handleCollectionLogParsed = useCallback(
@@ -158,6 +165,7 @@ export default function Dashboard() {
   // Mobile sidebar state
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const [isProgressOpen, setIsProgressOpen] = useState(false);
 
   useEffect(() => {
     const checkMobile = () => setIsMobile(window.innerWidth < 768);
@@ -184,6 +192,11 @@ export default function Dashboard() {
     setIsSidebarOpen(false);
   }, []);
 
+  const openProgress = useCallback(() => {
+    setIsProgressOpen(true);
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+  }, []);
+
   // Persist username to localStorage whenever it changes
   useEffect(() => {
     if (username) {
@@ -221,6 +234,7 @@ export default function Dashboard() {
           username={username}
           setUsername={setUsername}
           stats={stats}
+          statsSource={statsSource}
           gains={gains}
           rareItems={rareItems}
           collectionLog={collectionLog}
@@ -237,6 +251,7 @@ export default function Dashboard() {
           isSupabaseConfigured={isSupabaseConfigured}
           profile={profile}
           onClose={closeSidebar}
+          onOpenProgress={openProgress}
           isMobile={isMobile}
         />
       </div>
@@ -250,6 +265,15 @@ export default function Dashboard() {
         onToggleSidebar={toggleSidebar}
         isMobile={isMobile}
       />
+
+      {/* Progress overlay — Chat stays mounted underneath */}
+      {isProgressOpen && username && (
+        <ProgressView
+          username={username}
+          stats={stats}
+          onClose={() => setIsProgressOpen(false)}
+        />
+      )}
     </div>
   );
 }
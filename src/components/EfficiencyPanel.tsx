@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Hourglass, Loader2 } from 'lucide-react';
+import type { EfficiencyReport } from '@/lib/efficiency';
+
+interface EfficiencyPanelProps {
+  username: string;
+}
+
+function formatHours(hours: number): string {
+  return hours >= 100 ? Math.round(hours).toLocaleString() : hours.toFixed(1);
+}
+
+export default function EfficiencyPanel({ username }: EfficiencyPanelProps) {
+  const [report, setReport] = useState<EfficiencyReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/player/efficiency?username=${encodeURIComponent(username)}`);
+      const data = await response.json();
+      setReport(response.ok ? data.report : null);
+    } catch (error) {
+      console.error('Error loading efficiency report:', error);
+      setReport(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (!report) {
+    return isLoading ? (
+      <div className="osrs-card p-3 flex items-center justify-center">
+        <Loader2 className="w-4 h-4 animate-spin text-[var(--osrs-orange)]" />
+      </div>
+    ) : null;
+  }
+
+  const topSkills = report.skills.slice(0, 5);
+  const topMovers = report.weekly?.skills.slice(0, 3) ?? [];
+
+  return (
+    <div className="osrs-card p-3 space-y-2.5">
+      <div className="flex items-center gap-2">
+        <Hourglass className="w-3.5 h-3.5 text-[var(--osrs-yellow)]" />
+        <span className="text-xs font-medium text-gray-400 flex-1">Time to Max</span>
+        {isLoading && <Loader2 className="w-3 h-3 animate-spin text-gray-500" />}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="bg-[var(--osrs-bg)]/50 rounded-md p-2 text-center">
+          <p className="text-[0.65rem] text-gray-500 uppercase tracking-wider">TTM</p>
+          <p className="text-sm font-bold text-[var(--osrs-yellow)]">{formatHours(report.ttm)}h</p>
+        </div>
+        <div className="bg-[var(--osrs-bg)]/50 rounded-md p-2 text-center">
+          <p className="text-[0.65rem] text-gray-500 uppercase tracking-wider">EHP</p>
+          <p className="text-sm font-bold text-[var(--osrs-white)]">{formatHours(report.ehp)}</p>
+        </div>
+        <div className="bg-[var(--osrs-bg)]/50 rounded-md p-2 text-center">
+          <p className="text-[0.65rem] text-gray-500 uppercase tracking-wider">EHB</p>
+          <p className="text-sm font-bold text-[var(--osrs-white)]">{formatHours(report.ehb)}</p>
+        </div>
+      </div>
+
+      {topSkills.length > 0 ? (
+        <div className="space-y-1.5">
+          {topSkills.map((s) => (
+            <div key={s.skill}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-300 capitalize">{s.skill}</span>
+                <span className="text-gray-400">{formatHours(s.hours ?? 0)}h</span>
+              </div>
+              <div className="h-1 rounded-full bg-[var(--osrs-bg)]/80 overflow-hidden">
+                <div
+                  className="h-full bg-[var(--osrs-orange)]"
+                  style={{ width: `${Math.round(s.share * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-[var(--osrs-green)]">Maxed!</p>
+      )}
+
+      {report.weekly && report.weekly.hoursReduced > 0 && (
+        <div className="pt-1 border-t border-[var(--osrs-border)]/40">
+          <p className="text-xs text-gray-400 mb-1">
+            Last week: <span className="text-[var(--osrs-green)] font-medium">−{formatHours(report.weekly.hoursReduced)}h</span>
+          </p>
+          {topMovers.map((m) => (
+            <div key={m.skill} className="flex items-center justify-between text-xs">
+              <span className="text-gray-400 capitalize">{m.skill}</span>
+              <span className="text-[var(--osrs-green)]">−{formatHours(m.hoursReduced)}h</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, TrendingUp, Loader2, AlertCircle, Skull, LineChart } from 'lucide-react';
+import { SKILL_NAMES } from '@/lib/xp';
+import type { WOMPlayerDetails } from '@/lib/types';
+import type { ProgressTimeline, MetricSeries } from '@/lib/timeline';
+
+interface ProgressViewProps {
+  username: string;
+  stats: WOMPlayerDetails | null;
+  onClose: () => void;
+}
+
+const DAY_MS = 86400000;
+
+const RANGE_PRESETS = [
+  { label: '7d', days: 7 },
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: '1y', days: 365 },
+];
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatValue(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toLocaleString();
+}
+
+function formatMetric(metric: string): string {
+  return metric.replace(/_/g, ' ');
+}
+
+export default function ProgressView({ username, stats, onClose }: ProgressViewProps) {
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date(Date.now() - 30 * DAY_MS)));
+  const [metric, setMetric] = useState('overall');
+  const [timeline, setTimeline] = useState<ProgressTimeline | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Skills plus every boss the player has kills at
+  const bossOptions = Object.values(stats?.latestSnapshot?.data?.bosses ?? {})
+    .filter((boss) => boss.kills > 0)
+    .map((boss) => boss.metric);
+
+  const loadTimeline = useCallback(async () => {
+    if (!username) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        username,
+        startDate: new Date(startDate).toISOString(),
+        // End of the selected day
+        endDate: new Date(new Date(endDate).getTime() + DAY_MS - 1).toISOString(),
+        metrics: metric,
+      });
+      const response = await fetch(`/api/player/timeline?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        setTimeline(data.timeline);
+      } else {
+        setTimeline(null);
+        setError(data.error || 'Failed to load progress');
+      }
+    } catch (err) {
+      console.error('Error loading progress timeline:', err);
+      setError('Failed to load progress');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [username, startDate, endDate, metric]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const applyPreset = (days: number) => {
+    const end = new Date();
+    setEndDate(toDateInput(end));
+    setStartDate(toDateInput(new Date(end.getTime() - days * DAY_MS)));
+  };
+
+  const series = timeline?.series[0] ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="osrs-card w-full max-w-2xl max-h-[90vh] overflow-y-auto p-5 space-y-4 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-2">
+          <LineChart className="w-4 h-4 text-[var(--osrs-orange)]" />
+          <h2 className="text-sm font-semibold text-[var(--osrs-white)] flex-1">
+            Progress — {stats?.displayName || username}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-[var(--osrs-orange)] transition-colors rounded"
+            aria-label="Close progress view"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="flex flex-col gap-1 text-[0.65rem] text-gray-500 uppercase tracking-wider">
+            Metric
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value)}
+              className="osrs-input text-sm capitalize"
+            >
+              <optgroup label="Skills">
+                <option value="overall">overall</option>
+                {SKILL_NAMES.map((skill) => (
+                  <option key={skill} value={skill}>{skill}</option>
+                ))}
+              </optgroup>
+              {bossOptions.length > 0 && (
+                <optgroup label="Bosses">
+                  {bossOptions.map((boss) => (
+                    <option key={boss} value={boss}>{formatMetric(boss)}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-[0.65rem] text-gray-500 uppercase tracking-wider">
+            From
+            <input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              className="osrs-input text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-[0.65rem] text-gray-500 uppercase tracking-wider">
+            To
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              className="osrs-input text-sm"
+            />
+          </label>
+          <div className="flex gap-1">
+            {RANGE_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => applyPreset(preset.days)}
+                className="osrs-button px-2 py-1.5 text-xs"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-[var(--osrs-red)] text-xs">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </div>
+        )}
+
+        {/* Chart */}
+        <div className="bg-[var(--osrs-bg)]/50 rounded-md p-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="w-5 h-5 animate-spin text-[var(--osrs-orange)]" />
+            </div>
+          ) : series && series.points.length > 0 ? (
+            <>
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="text-sm text-gray-300 capitalize">{formatMetric(series.metric)}</span>
+                <span className="text-sm font-medium text-[var(--osrs-green)]">
+                  +{formatValue(series.gained)} {series.kind === 'skill' ? 'XP' : series.kind === 'boss' ? 'KC' : ''}
+                  <span className="text-gray-500 text-xs ml-1">(~{formatValue(series.perDay)}/day)</span>
+                </span>
+              </div>
+              <SeriesChart series={series} />
+            </>
+          ) : (
+            <p className="text-xs text-gray-500 italic text-center py-12">No data for this range</p>
+          )}
+        </div>
+
+        {/* Top movers */}
+        {timeline && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <MoverList
+              title="Top Skills"
+              icon={<TrendingUp className="w-3.5 h-3.5 text-[var(--osrs-green)]" />}
+              gains={timeline.topSkills}
+              unit="XP"
+              onSelect={setMetric}
+            />
+            <MoverList
+              title="Top Bosses"
+              icon={<Skull className="w-3.5 h-3.5 text-[var(--osrs-red)]" />}
+              gains={timeline.topBosses}
+              unit="KC"
+              onSelect={setMetric}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Chart & Lists
+// ============================================
+
+function SeriesChart({ series }: { series: MetricSeries }) {
+  const width = 600;
+  const height = 160;
+  const values = series.points.map((p) => p.value);
+  const times = series.points.map((p) => new Date(p.date).getTime());
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const minTime = times[0];
+  const maxTime = times[times.length - 1];
+
+  const x = (t: number) => (maxTime === minTime ? width / 2 : ((t - minTime) / (maxTime - minTime)) * width);
+  const y = (v: number) => (maxValue === minValue ? height / 2 : height - ((v - minValue) / (maxValue - minValue)) * height);
+  const path = series.points.map((p, i) => `${x(times[i])},${y(p.value)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none">
+        <polyline
+          points={path}
+          fill="none"
+          stroke="var(--osrs-orange)"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-[0.65rem] text-gray-500 mt-1">
+        <span>{new Date(minTime).toLocaleDateString()} · {formatValue(minValue)}</span>
+        <span>{new Date(maxTime).toLocaleDateString()} · {formatValue(maxValue)}</span>
+      </div>
+    </div>
+  );
+}
+
+function MoverList({
+  title,
+  icon,
+  gains,
+  unit,
+  onSelect,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  gains: { metric: string; gained: number }[];
+  unit: string;
+  onSelect: (metric: string) => void;
+}) {
+  return (
+    <div className="bg-[var(--osrs-bg)]/50 rounded-md p-3">
+      <div className="flex items-center gap-2 mb-2">
+        {icon}
+        <span className="text-xs font-medium text-gray-400">{title}</span>
+      </div>
+      {gains.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">Nothing gained in this range</p>
+      ) : (
+        <div className="space-y-1">
+          {gains.map((g) => (
+            <button
+              key={g.metric}
+              onClick={() => onSelect(g.metric)}
+              className="flex items-center justify-between w-full text-left text-sm py-0.5 hover:text-[var(--osrs-orange-light)] transition-colors"
+            >
+              <span className="text-gray-300 capitalize truncate">{formatMetric(g.metric)}</span>
+              <span className="text-[var(--osrs-green)] font-medium ml-2 flex-shrink-0">
+                +{formatValue(g.gained)} {unit}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
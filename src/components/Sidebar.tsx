@@ -26,11 +26,14 @@ import {
   LogIn,
   LogOut,
   X,
+  LineChart,
 } from 'lucide-react';
 import { useAuth } from './AuthProvider';
+import EfficiencyPanel from './EfficiencyPanel';
 import { cn } from '@/lib/utils';
 import type { WOMPlayerDetails, WOMGains, CollectionLogData, CollectionLogItem } from '@/lib/types';
 import type { ProfileRow } from '@/lib/database.types';
+import type { StatsFreshness } from '@/lib/hiscores';
 import type { ChatHistoryItem } from '@/hooks/useSupabase';
 import { parseCollectionLog, extractRareItems } from '@/lib/parser';
 
@@ -38,6 +41,7 @@ interface SidebarProps {
   username: string;
   setUsername: (username: string) => void;
   stats: WOMPlayerDetails | null;
+  statsSource: StatsFreshness | null;
   gains: WOMGains | null;
   rareItems: CollectionLogItem[];
   collectionLog: CollectionLogData | null;
@@ -54,13 +58,19 @@ interface SidebarProps {
   isSupabaseConfigured: boolean;
   profile: ProfileRow | null;
   onClose?: () => void;
+  onOpenProgress?: () => void;
   isMobile?: boolean;
 }
 
+function formatUpdatedAt(updatedAt: string): string {
+  return new Date(updatedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
 export default function Sidebar({
   username,
   setUsername,
   stats,
+  statsSource,
   gains,
   rareItems,
   collectionLog,
@@ -77,6 +87,7 @@ export default function Sidebar({
   isSupabaseConfigured,
   profile,
   onClose,
+  onOpenProgress,
   isMobile,
 }: SidebarProps) {
   const [inputValue, setInputValue] = useState(username);
@@ -406,6 +417,24 @@ export default function Sidebar({
                     </div>
                   </div>
 
+                  {statsSource && (
+                    <div
+                      className={cn(
+                        'flex items-center gap-1.5 text-[0.65rem]',
+                        statsSource.source === 'hiscores' || statsSource.stale ? 'text-orange-400' : 'text-gray-500'
+                      )}
+                      title={statsSource.fallbackReason ?? undefined}
+                    >
+                      <Clock className="w-3 h-3" />
+                      <span>
+                        {statsSource.source === 'wom' ? 'Wise Old Man' : 'Official hiscores (WOM unavailable)'}
+                        {' · '}
+                        {statsSource.source === 'wom' ? 'updated' : 'fetched'} {formatUpdatedAt(statsSource.updatedAt)}
+                        {statsSource.stale && ' (over a day old)'}
+                      </span>
+                    </div>
+                  )}
+
                   <button
                     onClick={onUpdateStats}
                     disabled={isLoading}
@@ -414,6 +443,16 @@ export default function Sidebar({
                     <RefreshCw className={cn('w-3.5 h-3.5', isLoading && 'animate-spin')} />
                     Refresh Stats
                   </button>
+
+                  {onOpenProgress && (
+                    <button
+                      onClick={onOpenProgress}
+                      className="osrs-button w-full flex items-center justify-center gap-2 py-1.5 text-sm"
+                    >
+                      <LineChart className="w-3.5 h-3.5" />
+                      View Progress
+                    </button>
+                  )}
                 </div>
 
                 {/* Weekly Gains */}
@@ -435,6 +474,9 @@ export default function Sidebar({
                     </div>
                   </div>
                 )}
+
+                {/* Time to Max — keyed on updatedAt so a stats refresh reloads it */}
+                <EfficiencyPanel key={stats.updatedAt} username={stats.username} />
               </>
             )}
           </div>
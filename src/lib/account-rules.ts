@@ -0,0 +1,269 @@
+/**
+ * Account Rules Module
+ * Derives gameplay constraints from an account's game mode (including group ironman
+ * variants) and build, for filtering advice and tool results.
+ */
+
+import type { GameMode, WOMPlayer } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type AccountBuild = WOMPlayer['build'];
+
+export interface AccountRules {
+  mode: GameMode;
+  build: AccountBuild;
+  /** e.g. "Hardcore Ironman · 1 Defence pure" */
+  label: string;
+  /** Grand Exchange and trading with any player */
+  canUseGrandExchange: boolean;
+  /** Trading limited to group members */
+  groupTrading: boolean;
+  hasBank: boolean;
+  /** False for free-to-play builds */
+  membersContent: boolean;
+  /** Dying costs the account's (or group's) hardcore status */
+  hardcore: boolean;
+  /** Highest level a skill may reach without breaking the build */
+  skillCaps: Record<string, number>;
+  /** Mode and build specific advice rules */
+  guidance: string[];
+}
+
+export interface BuildConflict {
+  skill: string;
+  required: number;
+  cap: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const GAME_MODES: readonly GameMode[] = [
+  'regular', 'ironman', 'hardcore', 'ultimate',
+  'group_ironman', 'hardcore_group_ironman', 'unranked_group_ironman',
+];
+
+const MODE_LABELS: Record<GameMode, string> = {
+  regular: 'Regular',
+  ironman: 'Ironman',
+  hardcore: 'Hardcore Ironman',
+  ultimate: 'Ultimate Ironman',
+  group_ironman: 'Group Ironman',
+  hardcore_group_ironman: 'Hardcore Group Ironman',
+  unranked_group_ironman: 'Unranked Group Ironman',
+};
+
+const BUILD_LABELS: Record<AccountBuild, string> = {
+  main: 'main',
+  f2p: 'free-to-play',
+  f2p_lvl3: 'free-to-play level 3 skiller',
+  lvl3: 'level 3 skiller',
+  zerker: 'berserker pure (45 Defence)',
+  def1: '1 Defence pure',
+  hp10: '10 Hitpoints pure',
+};
+
+// Collection log plugin export names -> game mode
+const COLLECTION_LOG_MODES: Record<string, GameMode> = {
+  NORMAL: 'regular',
+  IRONMAN: 'ironman',
+  HARDCORE_IRONMAN: 'hardcore',
+  ULTIMATE_IRONMAN: 'ultimate',
+  GROUP_IRONMAN: 'group_ironman',
+  HARDCORE_GROUP_IRONMAN: 'hardcore_group_ironman',
+  UNRANKED_GROUP_IRONMAN: 'unranked_group_ironman',
+};
+
+const COMBAT_LVL3_CAPS = { attack: 1, strength: 1, defence: 1, hitpoints: 10, prayer: 1, ranged: 1, magic: 1 };
+
+const BUILD_CAPS: Record<AccountBuild, Record<string, number>> = {
+  main: {},
+  f2p: {},
+  f2p_lvl3: COMBAT_LVL3_CAPS,
+  lvl3: COMBAT_LVL3_CAPS,
+  zerker: { defence: 45 },
+  def1: { defence: 1 },
+  hp10: { hitpoints: 10 },
+};
+
+const MODE_GUIDANCE: Record<GameMode, string[]> = {
+  regular: [
+    'You can freely suggest buying items from the Grand Exchange.',
+    'Focus on GP/Hour efficiency and meta methods.',
+    'Suggest market flipping or merching if relevant to money-making questions.',
+    'Cost-benefit analysis is welcome (e.g., "Buying X for 5M saves 10 hours of grinding").',
+  ],
+  ironman: [
+    'When suggesting items or gear, you MUST explain WHERE to obtain them (monster drops, shops, spawns, minigame rewards).',
+    'Do not mention GE prices unless discussing "High Alchemy" value for self-sustaining GP.',
+    'For supplies (food, potions), explain how to gather/craft them yourself.',
+    'Prioritize drops and unlocks from Slayer, bosses, or quests.',
+  ],
+  hardcore: [
+    'One death = status lost. SAFETY IS PRIORITY #1.',
+    'Do NOT suggest dangerous Wilderness methods unless explicitly asked and warn heavily.',
+    'ALWAYS warn about potential one-shot mechanics, dangerous quest bosses, or risky activities.',
+    'When suggesting content, mention if it has a death risk (e.g., "Vorkath can combo you if unlucky").',
+    'For dangerous bosses, suggest over-preparing with extra food/prayer.',
+  ],
+  ultimate: [
+    'NO BANK ACCESS. Inventory management is CRITICAL. Consider their limited space in all advice.',
+    'Suggest using: Looting Bag, Seed Box, Rune Pouch, death storage (Zulrah/Hespori), or POH storage.',
+    'For skilling or bossing, explain how to manage inventory throughout the activity.',
+    'Suggest efficient "loadouts" that minimize bank trips (since they can\'t bank).',
+  ],
+  group_ironman: [
+    'They can trade and share items with their group only — never with other players or the GE.',
+    'Explain where to obtain items, and suggest splitting gathering and supply roles within the group.',
+    'Group storage (from the Group Ironman island) is shared; mention it for passing gear and supplies.',
+  ],
+  hardcore_group_ironman: [
+    'They can trade and share items with their group only — never with other players or the GE.',
+    'The group shares a limited number of lives; every death counts against everyone. Warn about risky content.',
+    'Explain where to obtain items, and suggest splitting gathering and supply roles within the group.',
+  ],
+  unranked_group_ironman: [
+    'They can trade and share items with their group only — never with other players or the GE.',
+    'Group size can change and they are not on the group hiscores, but all group ironman trade rules apply.',
+    'Explain where to obtain items, and suggest splitting gathering and supply roles within the group.',
+  ],
+};
+
+const BUILD_GUIDANCE: Record<AccountBuild, string[]> = {
+  main: [],
+  f2p: [
+    'FREE-TO-PLAY ONLY: never suggest members skills, quests, areas, items or bosses.',
+  ],
+  f2p_lvl3: [
+    'FREE-TO-PLAY ONLY: never suggest members skills, quests, areas, items or bosses.',
+    'LEVEL 3 SKILLER: never suggest anything that gives combat or Prayer XP (fighting, quests or lamps with combat rewards).',
+  ],
+  lvl3: [
+    'LEVEL 3 SKILLER: never suggest anything that gives combat or Prayer XP (fighting, quests or lamps with combat rewards).',
+    'Only suggest skilling methods, quests and minigames that are safe for a level 3 skiller.',
+  ],
+  zerker: [
+    'BERSERKER PURE: Defence must stay at or below 45. Warn about quests and rewards that give Defence XP.',
+  ],
+  def1: [
+    '1 DEFENCE PURE: never suggest training Defence, Defence-XP quest rewards, or gear that needs Defence.',
+    'Always check quest XP rewards before recommending a quest; many give Defence XP.',
+  ],
+  hp10: [
+    '10 HITPOINTS PURE: never suggest dealing damage in combat; Hitpoints must stay at 10.',
+  ],
+};
+
+// ============================================
+// Resolution
+// ============================================
+
+export function isGameMode(value: unknown): value is GameMode {
+  return typeof value === 'string' && (GAME_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Game mode from the WOM account type, upgraded to a group ironman variant when the
+ * collection log export says so (WOM doesn't track group modes)
+ */
+export function resolveGameMode(womType: string | null | undefined, collectionLogType?: string | null): GameMode | null {
+  const fromLog = collectionLogType ? COLLECTION_LOG_MODES[collectionLogType.toUpperCase()] : undefined;
+  if (fromLog?.includes('group')) return fromLog;
+  if (isGameMode(womType)) return womType;
+  return fromLog ?? null;
+}
+
+/**
+ * Skill caps a build must stay under (lowercase skill -> max level)
+ */
+export function buildSkillCaps(build: AccountBuild): Record<string, number> {
+  return BUILD_CAPS[build] ?? {};
+}
+
+export function isF2pBuild(build: AccountBuild): boolean {
+  return build === 'f2p' || build === 'f2p_lvl3';
+}
+
+/**
+ * Constraints for a game mode and build
+ */
+export function getAccountRules(mode: GameMode, build: AccountBuild = 'main'): AccountRules {
+  const ironman = mode !== 'regular';
+  const group = mode.includes('group');
+  return {
+    mode,
+    build,
+    label: build === 'main' ? MODE_LABELS[mode] : `${MODE_LABELS[mode]} · ${BUILD_LABELS[build]}`,
+    canUseGrandExchange: !ironman,
+    groupTrading: group,
+    hasBank: mode !== 'ultimate',
+    membersContent: !isF2pBuild(build),
+    hardcore: mode === 'hardcore' || mode === 'hardcore_group_ironman',
+    skillCaps: buildSkillCaps(build),
+    guidance: [...MODE_GUIDANCE[mode], ...(BUILD_GUIDANCE[build] ?? [])],
+  };
+}
+
+// ============================================
+// Filtering
+// ============================================
+
+/**
+ * Requirements that would break the build's skill caps
+ */
+export function findBuildConflicts(
+  requirements: { skill: string; level: number }[],
+  rules: AccountRules
+): BuildConflict[] {
+  return requirements
+    .map((req) => ({ skill: req.skill, required: req.level, cap: rules.skillCaps[req.skill.toLowerCase()] }))
+    .filter((c): c is BuildConflict => c.cap !== undefined && c.required > c.cap);
+}
+
+/**
+ * Split training targets into those the build allows and those that would break it
+ */
+export function partitionByBuild<T extends { skill: string; required: number }>(
+  targets: T[],
+  rules: AccountRules
+): { allowed: T[]; conflicts: BuildConflict[] } {
+  const conflicts = findBuildConflicts(targets.map((t) => ({ skill: t.skill, level: t.required })), rules);
+  const blocked = new Set(conflicts.map((c) => c.skill.toLowerCase()));
+  return { allowed: targets.filter((t) => !blocked.has(t.skill.toLowerCase())), conflicts };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Structured constraints block for the system prompt
+ */
+export function formatAccountRules(rules: AccountRules): string {
+  const caps = Object.entries(rules.skillCaps);
+  const lines = [
+    `### ACCOUNT RULES (CRITICAL): ${rules.label.toUpperCase()}`,
+    `- **Grand Exchange / trading:** ${rules.canUseGrandExchange ? 'yes' : rules.groupTrading ? 'NO — group members only' : 'NO'}`,
+    `- **Bank:** ${rules.hasBank ? 'yes' : 'NO'}`,
+    `- **Members content:** ${rules.membersContent ? 'yes' : 'NO — free-to-play only'}`,
+    `- **Hardcore status:** ${rules.hardcore ? 'YES — deaths are costly' : 'no'}`,
+    `- **Skill caps:** ${caps.length > 0 ? caps.map(([skill, level]) => `${skill} ≤ ${level}`).join(', ') + ' — never advise training these past the cap' : 'none'}`,
+    ...rules.guidance.map((g) => `- ${g}`),
+  ];
+  if (caps.length > 0) {
+    lines.push('- Tool results mark requirements above a cap as **buildConflicts**: present them as "not doable on this build", never as something to train.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Short summary of build conflicts for tool output
+ */
+export function describeBuildConflicts(conflicts: BuildConflict[], rules: AccountRules): string | null {
+  if (conflicts.length === 0) return null;
+  return `Not doable on a ${BUILD_LABELS[rules.build]}: needs ${conflicts.map((c) => `${c.required} ${c.skill} (cap ${c.cap})`).join(', ')}`;
+}
@@ -0,0 +1,138 @@
+/**
+ * High Alchemy Module
+ * Ranks items by High Level Alchemy profit using /mapping alch values and live GE prices.
+ */
+
+import { getLatestPrices, getVolumeData, getItemMetadataStore, formatPrice } from './osrs';
+
+// ============================================
+// Constants
+// ============================================
+
+export const NATURE_RUNE_ID = 561;
+
+/** High Level Alchemy takes 5 ticks (3 seconds) per cast */
+export const MAX_ALCHS_PER_HOUR = 1200;
+
+// ============================================
+// Types
+// ============================================
+
+export interface AlchCandidate {
+  itemId: number;
+  itemName: string;
+  members: boolean;
+  /** Instant-buy price of the item */
+  buyPrice: number;
+  highAlch: number;
+  natureRunePrice: number;
+  profitPerCast: number;
+  buyLimit: number | null;
+  /** Casts per hour after accounting for the 4-hour buy limit */
+  castsPerHour: number;
+  profitPerHour: number;
+  hourlyVolume: number;
+}
+
+export interface AlchFilters {
+  membersOnly?: boolean;
+  /** Exclude members items (for F2P accounts) */
+  f2pOnly?: boolean;
+  minVolume?: number;
+  minProfit?: number;
+  maxBuyPrice?: number;
+  sortBy?: 'cast' | 'hour';
+  limit?: number;
+}
+
+// ============================================
+// Calculations
+// ============================================
+
+/**
+ * Casts per hour for an item, limited by how many can be bought per hour under the buy limit
+ */
+export function castsPerHour(buyLimit: number | null): number {
+  if (buyLimit === null) return MAX_ALCHS_PER_HOUR;
+  return Math.min(MAX_ALCHS_PER_HOUR, Math.floor(buyLimit / 4));
+}
+
+/**
+ * Rank items by High Alchemy profit at current prices
+ */
+export async function findAlchProfits(filters: AlchFilters = {}): Promise<AlchCandidate[]> {
+  const {
+    membersOnly = false,
+    f2pOnly = false,
+    minVolume = 0,
+    minProfit = 1,
+    maxBuyPrice,
+    sortBy = 'hour',
+    limit = 10,
+  } = filters;
+
+  const [prices, volumes, store] = await Promise.all([
+    getLatestPrices(),
+    getVolumeData(),
+    getItemMetadataStore(),
+  ]);
+
+  const natureRunePrice = prices[NATURE_RUNE_ID]?.high ?? null;
+  if (!natureRunePrice) return [];
+
+  const candidates: AlchCandidate[] = [];
+
+  for (const item of store.byId.values()) {
+    if (!item.highAlch) continue;
+    if (membersOnly && !item.members) continue;
+    if (f2pOnly && item.members) continue;
+
+    const buyPrice = prices[item.id]?.high;
+    if (!buyPrice) continue;
+    if (maxBuyPrice !== undefined && buyPrice > maxBuyPrice) continue;
+
+    const volume = volumes[item.id];
+    const hourlyVolume = volume ? (volume.highPriceVolume || 0) + (volume.lowPriceVolume || 0) : 0;
+    if (hourlyVolume < minVolume) continue;
+
+    const profitPerCast = item.highAlch - buyPrice - natureRunePrice;
+    if (profitPerCast < minProfit) continue;
+
+    const casts = castsPerHour(item.buyLimit);
+    candidates.push({
+      itemId: item.id,
+      itemName: item.name,
+      members: item.members,
+      buyPrice,
+      highAlch: item.highAlch,
+      natureRunePrice,
+      profitPerCast,
+      buyLimit: item.buyLimit,
+      castsPerHour: casts,
+      profitPerHour: profitPerCast * casts,
+      hourlyVolume,
+    });
+  }
+
+  candidates.sort((a, b) =>
+    sortBy === 'cast' ? b.profitPerCast - a.profitPerCast : b.profitPerHour - a.profitPerHour
+  );
+
+  return candidates.slice(0, limit);
+}
+
+/**
+ * Format alch candidates for the AI
+ */
+export function formatAlchList(items: AlchCandidate[]): string {
+  if (items.length === 0) return 'No profitable alchs found.';
+
+  const lines = [`Nature rune: ${formatPrice(items[0].natureRunePrice)} gp`, ''];
+  items.forEach((a, i) => {
+    lines.push(
+      `${i + 1}. **${a.itemName}**${a.members ? ' (members)' : ''} — buy ${formatPrice(a.buyPrice)}, alch ${formatPrice(a.highAlch)}, ` +
+      `${formatPrice(a.profitPerCast)}/cast, ~${formatPrice(a.profitPerHour)}/hr at ${a.castsPerHour.toLocaleString()} casts/hr`
+    );
+  });
+  return lines.join('\n');
+}
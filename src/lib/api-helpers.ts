@@ -0,0 +1,34 @@
+/**
+ * Shared helpers for the player-facing API routes
+ */
+
+import { NextResponse } from 'next/server';
+import { checkRateLimit, getClientIdentifier } from './rate-limit';
+
+// RSN: 1-12 characters, alphanumeric + spaces + hyphens + underscores
+const RSN_REGEX = /^[a-zA-Z0-9 _-]{1,12}$/;
+
+export function validateUsername(username: string | null): string | null {
+  if (!username) return null;
+  const trimmed = username.trim();
+  if (!RSN_REGEX.test(trimmed)) return null;
+  return trimmed;
+}
+
+export function rateLimitResponse(req: Request, prefix: string) {
+  const clientId = getClientIdentifier(req);
+  const check = checkRateLimit(`${prefix}:${clientId}`, {
+    limit: 15,          // 15 lookups
+    windowSeconds: 60,  // per minute
+  });
+  if (!check.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please wait before making more requests.' },
+      {
+        status: 429,
+        headers: { 'Retry-After': Math.ceil((check.resetAt - Date.now()) / 1000).toString() },
+      }
+    );
+  }
+  return null;
+}
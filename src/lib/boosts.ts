@@ -0,0 +1,155 @@
+/**
+ * Skill Boosts Module
+ * Catalogue of temporary skill boosts and boost-aware requirement checks.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface SkillBoost {
+  name: string;
+  /** Lowercase skills the boost applies to */
+  skills: string[];
+  /** Boost = flat + floor(level × percent) */
+  flat: number;
+  percent: number;
+  /** Random boost (e.g. spicy stew) — the amount is the best case */
+  random?: boolean;
+  /** Obtainable without the Grand Exchange */
+  ironman: boolean;
+  notes?: string;
+}
+
+export type RequirementStatus = 'met' | 'met_with_boost' | 'unmet';
+
+export interface RequirementCheck {
+  skill: string;
+  required: number;
+  current: number;
+  /** False when the Wiki marks the requirement "(not boostable)" */
+  boostable: boolean;
+  status: RequirementStatus;
+  /** Boost that bridges the gap, e.g. "Spicy stew (+5)" */
+  boost: string | null;
+}
+
+export interface BoostOptions {
+  /** Only consider boosts an ironman can obtain */
+  ironman?: boolean;
+}
+
+// ============================================
+// Catalogue
+// ============================================
+
+const SPICY_STEW_SKILLS = [
+  'attack', 'strength', 'defence', 'ranged', 'magic', 'cooking', 'farming', 'herblore',
+  'fletching', 'crafting', 'fishing', 'firemaking', 'woodcutting', 'mining', 'smithing',
+  'agility', 'thieving', 'slayer', 'hunter', 'runecrafting', 'construction',
+];
+
+export const BOOSTS: SkillBoost[] = [
+  // Combat
+  { name: 'Super attack', skills: ['attack'], flat: 5, percent: 0.15, ironman: true },
+  { name: 'Super strength', skills: ['strength'], flat: 5, percent: 0.15, ironman: true },
+  { name: 'Super defence', skills: ['defence'], flat: 5, percent: 0.15, ironman: true },
+  { name: 'Ranging potion', skills: ['ranged'], flat: 4, percent: 0.1, ironman: true },
+  { name: 'Magic potion', skills: ['magic'], flat: 4, percent: 0, ironman: true },
+  { name: 'Imbued heart', skills: ['magic'], flat: 1, percent: 0.1, ironman: true, notes: 'Slayer drop, 7 minute cooldown' },
+  { name: 'Wild pie', skills: ['slayer'], flat: 5, percent: 0, ironman: true },
+  // Gathering
+  { name: 'Dragon pickaxe special', skills: ['mining'], flat: 3, percent: 0, ironman: true },
+  { name: 'Dragon axe special', skills: ['woodcutting'], flat: 3, percent: 0, ironman: true },
+  { name: 'Dragon harpoon special', skills: ['fishing'], flat: 3, percent: 0, ironman: true },
+  { name: 'Admiral pie', skills: ['fishing'], flat: 5, percent: 0, ironman: true },
+  { name: 'Fishing potion', skills: ['fishing'], flat: 3, percent: 0, ironman: true },
+  { name: 'Hunter potion', skills: ['hunter'], flat: 3, percent: 0, ironman: true },
+  { name: 'Garden pie', skills: ['farming'], flat: 3, percent: 0, ironman: true },
+  { name: 'Dwarven stout', skills: ['mining', 'smithing'], flat: 1, percent: 0, ironman: true },
+  // Artisan and support
+  { name: 'Summer pie', skills: ['agility'], flat: 5, percent: 0, ironman: true },
+  { name: 'Agility potion', skills: ['agility'], flat: 3, percent: 0, ironman: true },
+  { name: 'Botanical pie', skills: ['herblore'], flat: 4, percent: 0, ironman: true },
+  { name: 'Mushroom pie', skills: ['crafting'], flat: 4, percent: 0, ironman: true },
+  { name: 'Crafting potion', skills: ['crafting'], flat: 3, percent: 0, ironman: true },
+  { name: 'Dragonfruit pie', skills: ['fletching'], flat: 4, percent: 0, ironman: true },
+  { name: 'Fletching potion', skills: ['fletching'], flat: 3, percent: 0, ironman: true },
+  { name: "Chef's delight", skills: ['cooking'], flat: 1, percent: 0.05, ironman: true },
+  { name: 'Crystal saw', skills: ['construction'], flat: 3, percent: 0, ironman: true, notes: 'Only while building' },
+  {
+    name: 'Spicy stew',
+    skills: SPICY_STEW_SKILLS,
+    flat: 5,
+    percent: 0,
+    random: true,
+    ironman: true,
+    notes: 'Random −5 to +5 with three doses of the matching spice; requires the Evil Dave subquest of Recipe for Disaster',
+  },
+];
+
+// ============================================
+// Calculations
+// ============================================
+
+/**
+ * Levels a boost adds at a given base level
+ */
+export function boostAmount(boost: SkillBoost, level: number): number {
+  return boost.flat + Math.floor(level * boost.percent);
+}
+
+/**
+ * Smallest reliable boost that lifts `current` to `required`.
+ * Random boosts are only suggested when no fixed boost is big enough.
+ */
+export function findBoost(
+  skill: string,
+  current: number,
+  required: number,
+  options: BoostOptions = {}
+): { boost: SkillBoost; amount: number } | null {
+  const key = skill.toLowerCase();
+  const candidates = BOOSTS
+    .filter((boost) => boost.skills.includes(key) && (!options.ironman || boost.ironman))
+    .map((boost) => ({ boost, amount: boostAmount(boost, current) }))
+    .filter(({ amount }) => current + amount >= required);
+
+  candidates.sort((a, b) => Number(!!a.boost.random) - Number(!!b.boost.random) || a.amount - b.amount);
+  return candidates[0] ?? null;
+}
+
+/**
+ * Check one skill requirement: met outright, met with a boost, or unmet
+ */
+export function evaluateSkillRequirement(
+  requirement: { skill: string; level: number; boostable?: boolean | null },
+  current: number,
+  options: BoostOptions = {}
+): RequirementCheck {
+  // Requirements are boostable unless the Wiki says otherwise
+  const boostable = requirement.boostable !== false;
+  const base = { skill: requirement.skill, required: requirement.level, current, boostable };
+
+  if (current >= requirement.level) {
+    return { ...base, status: 'met', boost: null };
+  }
+
+  const found = boostable && requirement.skill.toLowerCase() !== 'combat'
+    ? findBoost(requirement.skill, current, requirement.level, options)
+    : null;
+  if (found) {
+    return { ...base, status: 'met_with_boost', boost: `${found.boost.name} (+${found.amount}${found.boost.random ? ', random' : ''})` };
+  }
+
+  return { ...base, status: 'unmet', boost: null };
+}
+
+/**
+ * Human-readable status: "met", "met with boost Spicy stew (+5)" or "unmet"
+ */
+export function describeRequirementStatus(check: RequirementCheck): string {
+  if (check.status === 'met_with_boost') return `met with boost ${check.boost}`;
+  if (check.status === 'unmet' && !check.boostable) return 'unmet (not boostable)';
+  return check.status;
+}
@@ -0,0 +1,459 @@
+/**
+ * Bosses Module
+ * Curated boss table (entry requirements, key gear, kill speeds and drop value) and a
+ * recommender that ranks bosses for a player from their levels, kill counts, owned rares
+ * and collection log.
+ */
+
+import { findUnmetSkills, type SkillRequirement } from './quests';
+import { findBuildConflicts, type AccountRules } from './account-rules';
+import type { CollectionLogData, CollectionLogEntry, WOMBoss } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type BossFocus = 'balanced' | 'gp' | 'log';
+
+export interface BossInfo {
+  name: string;
+  /** WOM boss metrics whose kill counts add up to this boss (e.g. the three Dagannoth Kings) */
+  metrics: string[];
+  /** Collection log entry name */
+  collectionLog: string;
+  requirements: SkillRequirement[];
+  quests: string[];
+  /** Combat level the boss is comfortable from (3 for skilling bosses) */
+  recommendedCombat: number;
+  /** Gear that makes the kill noticeably easier or faster */
+  keyGear: string[];
+  /** Typical kills per hour, including banking */
+  killsPerHour: number;
+  /** Average GP per kill from drops */
+  gpPerKill: number;
+  wilderness: boolean;
+  members: boolean;
+  /** Only assigned or accessible on a Slayer task */
+  slayerTask: boolean;
+}
+
+export interface BossPlayerState {
+  /** Lowercase skill name (plus "combat") -> level */
+  levels: Record<string, number>;
+  /** WOM boss metric -> kill count */
+  killCounts: Record<string, number>;
+  /** Lowercase names of owned items (collection log and notable rares) */
+  owned: Set<string>;
+  collectionLog: CollectionLogData | null;
+  /** Lowercase names of completed quests; null when unknown (quest-gated bosses assumed unlocked) */
+  completedQuests: Set<string> | null;
+  rules: AccountRules | null;
+}
+
+export interface BossRecommendation {
+  boss: string;
+  killCount: number;
+  unlocked: boolean;
+  score: number;
+  gpPerHour: number;
+  /** Collection log slots still missing (null without a collection log) */
+  logSlotsRemaining: number | null;
+  logSlotsTotal: number | null;
+  gearOwned: string[];
+  gearMissing: string[];
+  /** What stands between the player and the boss, e.g. "91 Slayer (have 85)" */
+  missing: string[];
+  reasons: string[];
+}
+
+export interface BossRecommendations {
+  focus: BossFocus;
+  recommended: BossRecommendation[];
+  /** Closest bosses the player can't do yet, fewest levels missing first */
+  locked: BossRecommendation[];
+  questsVerified: boolean;
+  hasCollectionLog: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// GP/hr that counts as a full GP score
+const GP_SCORE_CAP = 3000000;
+
+const FOCUS_WEIGHTS: Record<BossFocus, { gp: number; log: number }> = {
+  balanced: { gp: 2, log: 1.5 },
+  gp: { gp: 4, log: 0.5 },
+  log: { gp: 0.5, log: 4 },
+};
+
+function skills(...pairs: [string, number][]): SkillRequirement[] {
+  return pairs.map(([skill, level]) => ({ skill, level, boostable: true }));
+}
+
+function boss(
+  name: string,
+  metrics: string[],
+  recommendedCombat: number,
+  killsPerHour: number,
+  gpPerKill: number,
+  options: Partial<Pick<BossInfo, 'collectionLog' | 'requirements' | 'quests' | 'keyGear' | 'wilderness' | 'members' | 'slayerTask'>> = {}
+): BossInfo {
+  return {
+    name,
+    metrics,
+    collectionLog: options.collectionLog ?? name,
+    requirements: options.requirements ?? [],
+    quests: options.quests ?? [],
+    recommendedCombat,
+    keyGear: options.keyGear ?? [],
+    killsPerHour,
+    gpPerKill,
+    wilderness: options.wilderness ?? false,
+    members: options.members ?? true,
+    slayerTask: options.slayerTask ?? false,
+  };
+}
+
+export const BOSSES: BossInfo[] = [
+  boss('Obor', ['obor'], 35, 20, 5000, { members: false }),
+  boss('Bryophyta', ['bryophyta'], 35, 20, 8000, { members: false }),
+  boss('Wintertodt', ['wintertodt'], 3, 4, 40000, { requirements: skills(['Firemaking', 50]) }),
+  boss('Tempoross', ['tempoross'], 3, 4, 35000, { requirements: skills(['Fishing', 35]) }),
+  boss('Zalcano', ['zalcano'], 3, 15, 35000, {
+    requirements: skills(['Mining', 70], ['Smithing', 70]),
+    quests: ['Song of the Elves'],
+  }),
+  boss('Scurrius', ['scurrius'], 50, 40, 10000),
+  boss('Giant Mole', ['giant_mole'], 70, 40, 20000),
+  boss('Barrows', ['barrows_chests'], 70, 20, 55000, {
+    collectionLog: 'Barrows Chests',
+    quests: ['Priest in Peril'],
+    keyGear: ['Trident of the seas'],
+  }),
+  boss('King Black Dragon', ['king_black_dragon'], 75, 40, 25000, { wilderness: true }),
+  boss('Sarachnis', ['sarachnis'], 80, 45, 25000),
+  boss('Kraken', ['kraken'], 80, 80, 12000, {
+    requirements: skills(['Slayer', 87]),
+    keyGear: ['Trident of the seas'],
+    slayerTask: true,
+  }),
+  boss('Dagannoth Kings', ['dagannoth_rex', 'dagannoth_prime', 'dagannoth_supreme'], 90, 60, 30000, {
+    quests: ['Horror from the Deep'],
+    keyGear: ['Trident of the seas', 'Armadyl crossbow'],
+  }),
+  boss('Zulrah', ['zulrah'], 85, 30, 120000, {
+    quests: ['Regicide'],
+    keyGear: ['Trident of the seas', 'Toxic blowpipe'],
+  }),
+  boss('Vorkath', ['vorkath'], 95, 30, 90000, {
+    quests: ['Dragon Slayer II'],
+    keyGear: ['Dragon hunter lance', 'Dragon hunter crossbow'],
+  }),
+  boss('Grotesque Guardians', ['grotesque_guardians'], 90, 30, 40000, {
+    requirements: skills(['Slayer', 75]),
+    slayerTask: true,
+  }),
+  boss('Thermonuclear smoke devil', ['thermonuclear_smoke_devil'], 90, 60, 12000, {
+    requirements: skills(['Slayer', 93]),
+    keyGear: ['Trident of the seas'],
+    slayerTask: true,
+  }),
+  boss('Cerberus', ['cerberus'], 95, 30, 55000, {
+    requirements: skills(['Slayer', 91]),
+    keyGear: ['Abyssal whip', 'Bandos chestplate'],
+    slayerTask: true,
+  }),
+  boss('Abyssal Sire', ['abyssal_sire'], 95, 25, 70000, {
+    requirements: skills(['Slayer', 85]),
+    keyGear: ['Abyssal whip'],
+    slayerTask: true,
+  }),
+  boss('Alchemical Hydra', ['alchemical_hydra'], 100, 25, 110000, {
+    requirements: skills(['Slayer', 95]),
+    keyGear: ['Dragon hunter lance', 'Bow of faerdhinen'],
+    slayerTask: true,
+  }),
+  boss('General Graardor', ['general_graardor'], 100, 20, 55000, {
+    requirements: skills(['Strength', 70]),
+    keyGear: ['Bandos chestplate', 'Bandos tassets'],
+  }),
+  boss('Commander Zilyana', ['commander_zilyana'], 100, 15, 60000, {
+    requirements: skills(['Agility', 70]),
+    keyGear: ['Armadyl crossbow'],
+  }),
+  boss('Kree\'arra', ['kreearra'], 100, 15, 70000, {
+    requirements: skills(['Ranged', 70]),
+    keyGear: ['Armadyl crossbow', 'Armadyl chestplate'],
+  }),
+  boss('K\'ril Tsutsaroth', ['kril_tsutsaroth'], 100, 15, 55000, {
+    requirements: skills(['Hitpoints', 70]),
+    keyGear: ['Bandos chestplate'],
+  }),
+  boss('Phantom Muspah', ['phantom_muspah'], 100, 20, 90000, {
+    quests: ['Secrets of the North'],
+    keyGear: ['Twisted bow', 'Bow of faerdhinen'],
+  }),
+  boss('The Gauntlet', ['the_gauntlet'], 90, 6, 60000, { quests: ['Song of the Elves'] }),
+  boss('The Corrupted Gauntlet', ['the_corrupted_gauntlet'], 100, 5, 250000, {
+    collectionLog: 'The Gauntlet',
+    quests: ['Song of the Elves'],
+  }),
+  boss('Callisto', ['callisto'], 100, 25, 70000, { wilderness: true }),
+  boss('Vet\'ion', ['vetion'], 100, 25, 70000, { wilderness: true }),
+  boss('Venenatis', ['venenatis'], 100, 25, 70000, { wilderness: true }),
+  boss('Vardorvis', ['vardorvis'], 110, 35, 90000, {
+    quests: ['Desert Treasure II - The Fallen Empire'],
+    keyGear: ['Osmumten\'s fang'],
+  }),
+  boss('Duke Sucellus', ['duke_sucellus'], 110, 30, 80000, {
+    quests: ['Desert Treasure II - The Fallen Empire'],
+  }),
+  boss('Chambers of Xeric', ['chambers_of_xeric'], 100, 2.5, 1200000, {
+    keyGear: ['Twisted bow', 'Dragon warhammer', 'Toxic blowpipe'],
+  }),
+  boss('Tombs of Amascut', ['tombs_of_amascut'], 100, 2, 1000000, {
+    quests: ['Beneath Cursed Sands'],
+    keyGear: ['Osmumten\'s fang', 'Bow of faerdhinen'],
+  }),
+  boss('Theatre of Blood', ['theatre_of_blood'], 115, 2.5, 1500000, {
+    keyGear: ['Scythe of vitur', 'Twisted bow', 'Dragon warhammer'],
+  }),
+  boss('Nex', ['nex'], 120, 3, 1000000, {
+    requirements: skills(['Strength', 70], ['Agility', 70], ['Ranged', 70], ['Hitpoints', 70]),
+    keyGear: ['Twisted bow', 'Zaryte crossbow'],
+  }),
+];
+
+// ============================================
+// Lookup
+// ============================================
+
+export function findBoss(name: string): BossInfo | null {
+  const query = name.toLowerCase().trim();
+  return BOSSES.find((b) => b.name.toLowerCase() === query || b.metrics.includes(query.replace(/[\s-]+/g, '_')))
+    ?? BOSSES.find((b) => b.name.toLowerCase().includes(query))
+    ?? null;
+}
+
+/**
+ * WOM boss metric -> kill count. Unranked bosses (-1) count as 0.
+ */
+export function killCountsFromSnapshot(bosses: Record<string, WOMBoss> | null | undefined): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(bosses ?? {}).map(([metric, b]) => [metric, Math.max(b.kills, 0)])
+  );
+}
+
+function findLogEntry(info: BossInfo, collectionLog: CollectionLogData | null): CollectionLogEntry | null {
+  if (!collectionLog) return null;
+  const name = info.collectionLog.toLowerCase();
+  for (const tab of Object.values(collectionLog.tabs)) {
+    // Entries can carry extra names, e.g. "Callisto and Artio"
+    const entry = Object.values(tab.entries).find((e) => e.name.toLowerCase().includes(name));
+    if (entry) return entry;
+  }
+  return null;
+}
+
+function bossKillCount(info: BossInfo, state: BossPlayerState, entry: CollectionLogEntry | null): number {
+  const fromWom = info.metrics.reduce((sum, metric) => sum + (state.killCounts[metric] ?? 0), 0);
+  // WOM hides kill counts under the hiscores threshold; the collection log export doesn't
+  if (fromWom > 0 || !entry?.killCounts?.length) return fromWom;
+  return Math.max(...entry.killCounts.map((k) => k.count));
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Requirements, quests and account rules standing between the player and a boss
+ */
+function missingRequirements(info: BossInfo, state: BossPlayerState): { missing: string[]; boosts: string[] } {
+  const ironman = !!state.rules && !state.rules.canUseGrandExchange;
+  const unmet = findUnmetSkills(info.requirements, state.levels, { ironman });
+  const missing = unmet
+    .filter((s) => !s.boost)
+    .map((s) => `${s.required} ${s.skill} (have ${s.current})`);
+  const boosts = unmet
+    .filter((s) => s.boost)
+    .map((s) => `${s.required} ${s.skill} with ${s.boost}`);
+
+  if (state.completedQuests) {
+    for (const quest of info.quests) {
+      if (!state.completedQuests.has(quest.toLowerCase())) missing.push(quest);
+    }
+  }
+
+  if (state.rules) {
+    if (info.members && !state.rules.membersContent) missing.push('members only');
+    const conflicts = findBuildConflicts(info.requirements, state.rules);
+    for (const c of conflicts) missing.push(`${c.required} ${c.skill} breaks the build (cap ${c.cap})`);
+    // Any fight gives Hitpoints XP
+    if (info.recommendedCombat > 3 && state.rules.skillCaps.hitpoints !== undefined) {
+      missing.push('combat XP breaks the build');
+    }
+  }
+
+  return { missing, boosts };
+}
+
+/**
+ * Score and explain one boss for the player
+ */
+export function scoreBoss(info: BossInfo, state: BossPlayerState, focus: BossFocus = 'balanced'): BossRecommendation {
+  const rules = state.rules;
+  const ironman = !!rules && !rules.canUseGrandExchange;
+  const weights = FOCUS_WEIGHTS[focus];
+  const logEntry = findLogEntry(info, state.collectionLog);
+  const killCount = bossKillCount(info, state, logEntry);
+  const { missing, boosts } = missingRequirements(info, state);
+  const gpPerHour = Math.round(info.killsPerHour * info.gpPerKill);
+  const reasons: string[] = [];
+
+  const gearOwned = info.keyGear.filter((g) => state.owned.has(g.toLowerCase()));
+  const gearMissing = info.keyGear.filter((g) => !state.owned.has(g.toLowerCase()));
+
+  const logItems = logEntry?.items ?? [];
+  const logSlotsTotal = logItems.length > 0 ? logItems.length : null;
+  const logSlotsRemaining = logSlotsTotal !== null ? logItems.filter((i) => !i.obtained).length : null;
+
+  // Ironmen can't sell drops, so GP/hr counts for less than the uniques themselves
+  const gpWeight = ironman ? weights.gp / 4 : weights.gp;
+  const logWeight = ironman ? weights.log * 1.5 : weights.log;
+
+  let score = Math.min(gpPerHour / GP_SCORE_CAP, 1) * gpWeight;
+  reasons.push(`~${(gpPerHour / 1000000).toFixed(2)}M GP/hr (${info.killsPerHour} kills/hr)${ironman ? ' in drops' : ''}`);
+
+  if (logSlotsTotal !== null && logSlotsRemaining !== null) {
+    score += (logSlotsRemaining / logSlotsTotal) * logWeight;
+    reasons.push(logSlotsRemaining === 0
+      ? 'Collection log complete'
+      : `${logSlotsRemaining}/${logSlotsTotal} collection log slots remaining`);
+  } else {
+    score += 0.5 * logWeight;
+  }
+
+  if (info.keyGear.length > 0) {
+    score += gearOwned.length / info.keyGear.length;
+    if (gearOwned.length > 0) reasons.push(`Owns ${gearOwned.join(', ')}`);
+    if (gearMissing.length > 0) reasons.push(`Would benefit from ${gearMissing.join(', ')}`);
+  } else {
+    score += 0.5;
+  }
+
+  if (killCount === 0) {
+    score += 0.75;
+    reasons.push('Unlock: no kills yet — a new boss to learn');
+  } else if (killCount < 50) {
+    score += 0.4;
+    reasons.push(`Only ${killCount} KC — still early progress`);
+  } else {
+    reasons.push(`${killCount} KC`);
+  }
+
+  const combat = state.levels.combat ?? 3;
+  if (combat < info.recommendedCombat) {
+    score -= (info.recommendedCombat - combat) / 10;
+    reasons.push(`Combat ${combat} is below the comfortable ${info.recommendedCombat}`);
+  }
+
+  if (boosts.length > 0) reasons.push(`Needs a boost: ${boosts.join(', ')}`);
+  if (info.slayerTask) reasons.push('Requires a Slayer task (or Konar/boss task)');
+
+  if (info.wilderness) {
+    if (rules?.hardcore) {
+      score -= 2;
+      reasons.push('Wilderness boss — very risky on a hardcore account');
+    } else {
+      reasons.push('Wilderness — bring only what you can risk');
+    }
+  }
+
+  if (!state.completedQuests && info.quests.length > 0) {
+    reasons.push(`Requires ${info.quests.join(', ')}`);
+  }
+
+  return {
+    boss: info.name,
+    killCount,
+    unlocked: missing.length === 0,
+    score: Math.round(score * 100) / 100,
+    gpPerHour,
+    logSlotsRemaining,
+    logSlotsTotal,
+    gearOwned,
+    gearMissing,
+    missing,
+    reasons,
+  };
+}
+
+/**
+ * Rank every boss for the player: unlocked bosses by score, and the nearest locked ones
+ * with what they still need
+ */
+export function recommendBosses(state: BossPlayerState, focus: BossFocus = 'balanced', limit = 5): BossRecommendations {
+  const scored = BOSSES.map((info) => ({ info, recommendation: scoreBoss(info, state, focus) }));
+
+  const recommended = scored
+    .map((s) => s.recommendation)
+    .filter((r) => r.unlocked)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  // Levels still to train, plus one per other missing requirement
+  const distance = ({ info, recommendation }: (typeof scored)[number]) => recommendation.missing.length + info.requirements
+    .reduce((sum, req) => sum + Math.max(req.level - (state.levels[req.skill.toLowerCase()] ?? 1), 0), 0);
+  const locked = scored
+    .filter((s) => !s.recommendation.unlocked)
+    .filter((s) => !s.recommendation.missing.some((m) => m === 'members only' || m.includes('breaks the build')))
+    .sort((a, b) => distance(a) - distance(b) || b.recommendation.score - a.recommendation.score)
+    .slice(0, 3)
+    .map((s) => s.recommendation);
+
+  return {
+    focus,
+    recommended,
+    locked,
+    questsVerified: !!state.completedQuests,
+    hasCollectionLog: !!state.collectionLog,
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format boss recommendations for the AI
+ */
+export function formatBossRecommendations(result: BossRecommendations): string {
+  const lines = [`## Boss recommendations (${result.focus === 'log' ? 'collection log' : result.focus === 'gp' ? 'GP' : 'balanced'} focus)`];
+
+  if (result.recommended.length === 0) {
+    lines.push('No bosses are unlocked for this account yet.');
+  }
+  result.recommended.forEach((r, i) => {
+    lines.push(`${i + 1}. **${r.boss}** (score ${r.score})`);
+    for (const reason of r.reasons) lines.push(`   - ${reason}`);
+  });
+
+  if (result.locked.length > 0) {
+    lines.push('', '### Next to unlock');
+    for (const r of result.locked) {
+      lines.push(`- **${r.boss}** — needs ${r.missing.join(', ')}`);
+    }
+  }
+
+  if (!result.hasCollectionLog) {
+    lines.push('', '_No collection log synced — log slots and owned gear are not counted._');
+  }
+  if (!result.questsVerified) {
+    lines.push('_Quest-locked bosses are assumed unlocked — completed quests weren\'t given._');
+  }
+
+  return lines.join('\n');
+}
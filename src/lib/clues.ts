@@ -0,0 +1,358 @@
+/**
+ * Clue Scroll Module
+ * Parses the Wiki's Treasure Trails guide pages (anagrams, ciphers, cryptics, coordinates,
+ * emote clues and hot/cold) into a local dataset cached in the dataset store, matches
+ * clue text against it, and checks skill requirements against a player's levels.
+ */
+
+import { getWikiWikitext } from './osrs';
+import { loadDataset, storeDataset } from './datasets';
+import { parseWikitables, parseScpTemplates, stripMarkup, type WikiTable } from './wikitext';
+import { scoreNameMatch } from './fuzzy';
+import { isSkillName } from './xp';
+import { capitalize, findUnmetSkills, type SkillRequirement, type UnmetSkill } from './quests';
+
+// ============================================
+// Types
+// ============================================
+
+export const CLUE_TYPES = ['anagram', 'cipher', 'cryptic', 'coordinate', 'emote', 'hot_cold'] as const;
+
+export type ClueType = (typeof CLUE_TYPES)[number];
+
+export interface ClueEntry {
+  type: ClueType;
+  /** Clue text as written on the scroll (for hot/cold, the dig spot description) */
+  clue: string;
+  /** NPC to talk to, object to search, or action to take */
+  solution: string;
+  location: string | null;
+  tier: string | null;
+  /** Answer to the NPC's challenge scroll or puzzle */
+  challengeAnswer: string | null;
+  /** Items to wear or bring */
+  items: string[];
+  emotes: string[];
+  skills: SkillRequirement[];
+  quests: string[];
+}
+
+export interface ClueMatch {
+  entry: ClueEntry;
+  /** 0-1 match confidence */
+  score: number;
+}
+
+export interface ClueSolution {
+  query: string;
+  type: ClueType;
+  match: ClueEntry;
+  score: number;
+  /** Other plausible entries, best first */
+  alternatives: ClueMatch[];
+  unmetSkills: UnmetSkill[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const CLUE_PAGES: Record<ClueType, string> = {
+  anagram: 'Treasure Trails/Guide/Anagrams',
+  cipher: 'Treasure Trails/Guide/Ciphers',
+  cryptic: 'Treasure Trails/Guide/Cryptic clues',
+  coordinate: 'Treasure Trails/Guide/Coordinates',
+  emote: 'Treasure Trails/Guide/Emotes',
+  hot_cold: 'Treasure Trails/Guide/Hot Cold',
+};
+
+const CLUE_TIERS = ['beginner', 'easy', 'medium', 'hard', 'elite', 'master'];
+
+// Header keyword -> field, checked in order so "challenge answer" isn't taken as the solution
+const COLUMN_PATTERNS: [keyof ColumnMap, RegExp][] = [
+  ['challengeAnswer', /challenge|puzzle|answer/],
+  ['location', /location|where|dig spot/],
+  ['items', /items?|equipment|wear/],
+  ['emotes', /emotes?$/],
+  ['requirements', /requirement|skill/],
+  ['tier', /tier|difficulty|level/],
+  ['solution', /solution|npc|speak|talk|search/],
+  ['clue', /anagram|cipher|clue|coordinate|text|hint/],
+];
+
+interface ColumnMap {
+  clue: number;
+  solution: number;
+  location: number;
+  challengeAnswer: number;
+  items: number;
+  emotes: number;
+  requirements: number;
+  tier: number;
+}
+
+const COORDINATE_PATTERN =
+  /(\d{1,2})\s*(?:°|degrees?|deg)?\s*(\d{1,2})\s*(?:'|’|′|minutes?|mins?)?\s*([NS])[a-z]*[\s,]+(\d{1,2})\s*(?:°|degrees?|deg)?\s*(\d{1,2})\s*(?:'|’|′|minutes?|mins?)?\s*([EW])/i;
+
+const EMOTE_WORDS =
+  /\b(angry|beckon|blow raspberry|bow|cheer|clap|cry|dance|flap|goblin (?:bow|salute)|headbang|jig|jump for joy|laugh|panic|push up|salute|shrug|slap head|spin|stamp|think|wave|yawn|yes|no)\b/i;
+
+// Scroll wording and question phrasing around the clue text; only stripped at the ends so
+// words inside the clue itself ("mean", "cold", "solve") still count
+const CLUE_LEAD_IN =
+  /^\s*(?:this anagram reveals who to speak to next|(?:(?:how (?:do i|to)\s+)?solve|help (?:me )?with|solution (?:to|for))\s+(?:(?:this|the|my|a|an)\s+)?(?:(?:hot\s*(?:and\s*)?cold|beginner|easy|medium|hard|elite|master|cryptic|anagram|cipher|emote|coordinate|map)\s+)*(?:clue|anagram|cipher|riddle)?)\s*:?\s*/i;
+const CLUE_QUESTION = /^\s*what (?:does|do)\s+(.+?)\s+mean\s*\??\s*$/i;
+
+const MIN_MATCH_SCORE = 0.5;
+const MAX_ALTERNATIVES = 3;
+
+const DATASET_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const datasetCache = new Map<ClueType, { entries: ClueEntry[]; fetchedAt: number }>();
+
+// ============================================
+// Parsing
+// ============================================
+
+function mapColumns(headers: string[]): Partial<ColumnMap> {
+  const columns: Partial<ColumnMap> = {};
+  headers.forEach((header, i) => {
+    const field = COLUMN_PATTERNS.find(([key, pattern]) => columns[key] === undefined && pattern.test(header));
+    if (field) columns[field[0]] = i;
+  });
+  // Headerless or unrecognised tables: clue first, solution second
+  if (columns.clue === undefined) columns.clue = 0;
+  if (columns.solution === undefined && columns.location === undefined && headers.length !== 1) columns.solution = 1;
+  return columns;
+}
+
+function listCell(cell: string | undefined): string[] {
+  if (!cell) return [];
+  return cell
+    .split(/\n|<br\s*\/?>|,(?![^[]*\]\])/i)
+    .map((part) => stripMarkup(part.replace(/^\s*\*+/, '')))
+    .filter(Boolean);
+}
+
+function tierFromText(text: string): string | null {
+  const lower = text.toLowerCase();
+  return CLUE_TIERS.find((tier) => lower.includes(tier)) ?? null;
+}
+
+function parseRequirements(cells: string[]): Pick<ClueEntry, 'skills' | 'quests'> {
+  const text = cells.join('\n');
+  const skills = parseScpTemplates(text)
+    .filter(({ name }) => name === 'combat' || isSkillName(name))
+    .map(({ name, level, boostable }) => ({ skill: capitalize(name), level, boostable }));
+  const quests = text
+    .split('\n')
+    .filter((line) => /quest|complet|started/i.test(line))
+    .flatMap((line) => [...line.matchAll(/\[\[([^\]|#]+)/g)].map((m) => m[1].trim()))
+    .filter((name) => !/quest$/i.test(name));
+  return { skills, quests };
+}
+
+function parseTable(type: ClueType, table: WikiTable, headingTier: string | null): ClueEntry[] {
+  const columns = mapColumns(table.headers);
+  const cell = (row: string[], key: keyof ColumnMap) => (columns[key] !== undefined ? row[columns[key]!] : undefined);
+
+  return table.rows.flatMap((row) => {
+    const clue = stripMarkup(cell(row, 'clue'));
+    if (!clue) return [];
+    const location = stripMarkup(cell(row, 'location')) || null;
+    const tierCell = stripMarkup(cell(row, 'tier'));
+    const answer = stripMarkup(cell(row, 'challengeAnswer'));
+
+    return [{
+      type,
+      clue,
+      solution: stripMarkup(cell(row, 'solution')) || location || clue,
+      location,
+      tier: (tierCell && tierFromText(tierCell)) || headingTier,
+      challengeAnswer: answer && !/^(n\/?a|none|-)$/i.test(answer) ? answer : null,
+      items: listCell(cell(row, 'items')),
+      emotes: type === 'emote' ? listCell(cell(row, 'emotes')) : [],
+      ...parseRequirements(row),
+    }];
+  });
+}
+
+/**
+ * Parse a Treasure Trails guide page. Tables inherit the tier of the last heading that names one.
+ */
+export function parseCluePage(type: ClueType, wikitext: string): ClueEntry[] {
+  const entries: ClueEntry[] = [];
+  let tier: string | null = null;
+
+  for (const chunk of wikitext.split(/^(?==+[^=\n]+=+\s*$)/m)) {
+    const heading = chunk.match(/^=+([^=\n]+)=+/);
+    if (heading) tier = tierFromText(heading[1]) ?? tier;
+    for (const table of parseWikitables(chunk)) {
+      entries.push(...parseTable(type, table, tier));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Normalise a coordinate clue ("03°45'N 12°30'E", "3 degrees 45 minutes north ...") to "03.45N 12.30E"
+ */
+export function parseCoordinate(text: string): string | null {
+  const m = text.match(COORDINATE_PATTERN);
+  if (!m) return null;
+  const pad = (n: string) => n.padStart(2, '0');
+  return `${pad(m[1])}.${pad(m[2])}${m[3].toUpperCase()} ${pad(m[4])}.${pad(m[5])}${m[6].toUpperCase()}`;
+}
+
+/**
+ * Guess a clue's type from its text; null when it could be an anagram, cipher or cryptic
+ */
+export function detectClueType(text: string): ClueType | null {
+  if (parseCoordinate(text)) return 'coordinate';
+  if (/\bhot\b[\s\S]*\bcold\b|\bcold\b[\s\S]*\bhot\b|strange device/i.test(text)) return 'hot_cold';
+  if (/anagram/i.test(text)) return 'anagram';
+  if (EMOTE_WORDS.test(text) && /\b(equip|wear|wearing|bring)\b/i.test(text)) return 'emote';
+  return null;
+}
+
+// ============================================
+// Dataset
+// ============================================
+
+function datasetKey(type: ClueType): string {
+  return `clues:${type}`;
+}
+
+function pageUrl(title: string): string {
+  return `https://oldschool.runescape.wiki/w/${encodeURI(title.replace(/ /g, '_'))}`;
+}
+
+/**
+ * Clue dataset for one type: memory cache, then the dataset store, then the Wiki
+ */
+export async function getClueDataset(type: ClueType): Promise<ClueEntry[] | null> {
+  const cached = datasetCache.get(type);
+  if (cached && Date.now() - cached.fetchedAt < DATASET_CACHE_TTL) return cached.entries;
+
+  const stored = await loadDataset<ClueEntry>(datasetKey(type));
+  let entries = stored && Date.now() - stored.cachedAt < DATASET_CACHE_TTL ? stored.entries : null;
+  if (!entries) {
+    const wikitext = await getWikiWikitext(CLUE_PAGES[type]);
+    if (!wikitext) return stored?.entries ?? null;
+    entries = parseCluePage(type, wikitext);
+    if (entries.length === 0) return stored?.entries ?? null;
+    await storeDataset(datasetKey(type), { entries, pending: [], complete: true }, pageUrl(CLUE_PAGES[type]));
+  }
+
+  datasetCache.set(type, { entries, fetchedAt: Date.now() });
+  return entries;
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/['’"]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function sortedLetters(text: string): string {
+  return text.toLowerCase().replace(/[^a-z]/g, '').split('').sort().join('');
+}
+
+function scoreClue(query: string, entry: ClueEntry): number {
+  if (entry.type === 'coordinate') {
+    const key = parseCoordinate(query);
+    return key && key === parseCoordinate(entry.clue) ? 1 : 0;
+  }
+
+  const q = normalize(query.replace(CLUE_LEAD_IN, '').replace(CLUE_QUESTION, '$1'));
+  const clue = normalize(entry.clue);
+  if (!q || !clue) return 0;
+  if (q === clue) return 1;
+  if (entry.type === 'anagram' && sortedLetters(q) === sortedLetters(clue)) return 0.98;
+  const fuzzy = scoreNameMatch(q, clue);
+  if (clue.includes(q) || q.includes(clue)) {
+    // Partial text typed from the scroll still counts, weighted by how much of it was typed
+    return Math.max(fuzzy, 0.6 + 0.35 * (Math.min(q.length, clue.length) / Math.max(q.length, clue.length)));
+  }
+  return fuzzy;
+}
+
+/**
+ * Rank dataset entries against clue text
+ */
+export function findClueMatches(query: string, entries: ClueEntry[], limit = MAX_ALTERNATIVES + 1): ClueMatch[] {
+  return entries
+    .map((entry) => ({ entry, score: scoreClue(query, entry) }))
+    .filter((m) => m.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Solve a clue: detect (or use) its type, match it against the dataset, and check the
+ * step's skill requirements against the player's levels
+ */
+export async function solveClue(
+  query: string,
+  levels: Record<string, number>,
+  type?: ClueType
+): Promise<ClueSolution | null> {
+  const detected = type ?? detectClueType(query);
+  const types: ClueType[] = detected ? [detected] : ['anagram', 'cipher', 'cryptic', 'emote'];
+
+  const matches: ClueMatch[] = [];
+  for (const t of types) {
+    const entries = await getClueDataset(t);
+    if (entries) matches.push(...findClueMatches(query, entries));
+  }
+  matches.sort((a, b) => b.score - a.score);
+
+  const best = matches[0];
+  if (!best) return null;
+  return {
+    query,
+    type: best.entry.type,
+    match: best.entry,
+    score: best.score,
+    alternatives: matches.slice(1, MAX_ALTERNATIVES + 1),
+    unmetSkills: findUnmetSkills(best.entry.skills, levels),
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format a clue solution for the AI
+ */
+export function formatClueSolution(solution: ClueSolution): string {
+  const e = solution.match;
+  const lines = [
+    `## ${capitalize(e.type.replace('_', '/'))} clue${e.tier ? ` (${e.tier})` : ''}`,
+    `**Clue:** ${e.clue}`,
+    `**Solution:** ${e.solution}`,
+  ];
+  if (e.location && e.location !== e.solution) lines.push(`**Location:** ${e.location}`);
+  if (e.challengeAnswer) lines.push(`**Challenge answer:** ${e.challengeAnswer}`);
+  if (e.emotes.length > 0) lines.push(`**Emotes:** ${e.emotes.join(' → ')}`);
+  if (e.items.length > 0) lines.push(`**Items:** ${e.items.join(', ')}`);
+  if (e.skills.length > 0) {
+    lines.push(`**Skill requirements:** ${e.skills.map((s) => `${s.level} ${s.skill}`).join(', ')}`);
+  }
+  if (solution.unmetSkills.length > 0) {
+    lines.push(`**Missing:** ${solution.unmetSkills.map((s) => `${s.required} ${s.skill} (have ${s.current}${s.boost ? `, boost with ${s.boost}` : ''})`).join(', ')}`);
+  }
+  if (e.quests.length > 0) lines.push(`**Quests:** ${e.quests.join(', ')}`);
+
+  if (solution.score < 0.9) {
+    lines.push('', `_Closest match (${Math.round(solution.score * 100)}%) — confirm the clue text with the user._`);
+  }
+  if (solution.alternatives.length > 0) {
+    lines.push('', `Other possible matches: ${solution.alternatives.map((a) => `"${a.entry.clue}" → ${a.entry.solution}`).join('; ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,304 @@
+/**
+ * Player Comparison Module
+ * Fetches two to five players from Wise Old Man, aligns their skills, bosses and
+ * activities, and builds a side-by-side diff for rendering as comparison tables.
+ */
+
+import { getPlayerStats, getPlayerGains } from './osrs';
+import { SKILL_NAMES } from './xp';
+import type { WOMPlayerDetails, WOMGains, WOMSnapshot } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ComparedPlayer {
+  username: string;
+  displayName: string;
+  type: WOMPlayerDetails['type'];
+  build: WOMPlayerDetails['build'];
+  combatLevel: number;
+  totalLevel: number;
+  totalXp: number;
+  ehp: number;
+  ehb: number;
+  ttm: number;
+  /** Total XP gained over the last week; null when gains are unavailable */
+  weeklyXp: number | null;
+}
+
+export interface ComparisonRow {
+  metric: string;
+  /** One value per player, in player order; null when unranked or missing */
+  values: (number | null)[];
+  /** Levels alongside XP for skill rows */
+  levels?: (number | null)[];
+  /** Index of the player with the highest value; null on a tie or no data */
+  leader: number | null;
+  /** First player minus second, only when comparing exactly two */
+  diff: number | null;
+}
+
+export interface PlayerComparison {
+  players: ComparedPlayer[];
+  /** Usernames that could not be found */
+  notFound: string[];
+  /** XP per skill */
+  skills: ComparisonRow[];
+  /** KC per boss any player has killed */
+  bosses: ComparisonRow[];
+  /** Score per activity any player has a score in */
+  activities: ComparisonRow[];
+  /** Weekly XP gained per skill, for skills anyone trained */
+  weeklyGains: ComparisonRow[];
+}
+
+export const MIN_COMPARE_PLAYERS = 2;
+export const MAX_COMPARE_PLAYERS = 5;
+
+// ============================================
+// Alignment
+// ============================================
+
+/**
+ * Index of the single best value; null on a tie, when nothing is known, or when the best is 0
+ */
+function leaderIndex(values: (number | null)[], lowerIsBetter = false): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  if (known.length === 0) return null;
+  const best = lowerIsBetter ? Math.min(...known) : Math.max(...known);
+  if (!lowerIsBetter && best <= 0) return null;
+  return values.filter((v) => v === best).length === 1 ? values.indexOf(best) : null;
+}
+
+function pairDiff(values: (number | null)[]): number | null {
+  return values.length === 2 && values[0] !== null && values[1] !== null ? values[0] - values[1] : null;
+}
+
+function toRow(metric: string, values: (number | null)[], levels?: (number | null)[]): ComparisonRow {
+  return {
+    metric,
+    values,
+    ...(levels ? { levels } : {}),
+    leader: leaderIndex(values),
+    diff: pairDiff(values),
+  };
+}
+
+// WOM uses -1 for unranked values
+function known(value: number | undefined): number | null {
+  return value === undefined || value < 0 ? null : value;
+}
+
+/**
+ * Align skills, bosses and activities across snapshots (null snapshots yield null values)
+ */
+export function alignSnapshots(snapshots: (WOMSnapshot | null)[]): Pick<PlayerComparison, 'skills' | 'bosses' | 'activities'> {
+  const data = snapshots.map((snapshot) => snapshot?.data ?? null);
+  const keys = (pick: (d: WOMSnapshot['data']) => Record<string, unknown>) =>
+    [...new Set(data.flatMap((d) => (d ? Object.keys(pick(d)) : [])))];
+
+  const skills = ['overall', ...SKILL_NAMES].map((skill) =>
+    toRow(
+      skill,
+      data.map((d) => known(d?.skills[skill]?.experience)),
+      data.map((d) => known(d?.skills[skill]?.level))
+    )
+  );
+
+  const bosses = keys((d) => d.bosses)
+    .map((boss) => toRow(boss, data.map((d) => known(d?.bosses[boss]?.kills))))
+    .filter((row) => row.values.some((v) => v !== null && v > 0));
+
+  const activities = keys((d) => d.activities)
+    .map((activity) => toRow(activity, data.map((d) => known(d?.activities[activity]?.score))))
+    .filter((row) => row.values.some((v) => v !== null && v > 0));
+
+  return { skills, bosses, activities };
+}
+
+/**
+ * Align weekly XP gains per skill, keeping skills at least one player trained
+ */
+export function alignGains(gains: (WOMGains | null)[]): ComparisonRow[] {
+  return ['overall', ...SKILL_NAMES]
+    .map((skill) => toRow(skill, gains.map((g) => (g?.data?.skills ? g.data.skills[skill]?.experience.gained ?? 0 : null))))
+    .filter((row) => row.values.some((v) => v !== null && v > 0));
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+/**
+ * Fetch and compare players. Returns null if fewer than two of them are found.
+ */
+export async function comparePlayers(usernames: string[]): Promise<PlayerComparison | null> {
+  const unique = [...new Map(usernames.map((u) => [u.trim().toLowerCase(), u.trim()])).values()]
+    .filter(Boolean)
+    .slice(0, MAX_COMPARE_PLAYERS);
+
+  const fetched = await Promise.all(
+    unique.map(async (username) => {
+      const [stats, gains] = await Promise.all([getPlayerStats(username), getPlayerGains(username, 'week')]);
+      return { username, stats, gains };
+    })
+  );
+
+  const found = fetched.filter((f): f is typeof f & { stats: WOMPlayerDetails } => f.stats !== null);
+  if (found.length < MIN_COMPARE_PLAYERS) return null;
+
+  const aligned = alignSnapshots(found.map((f) => f.stats.latestSnapshot));
+  const weeklyGains = alignGains(found.map((f) => f.gains));
+  const overall = aligned.skills[0];
+  const weeklyOverall = found.map((f) => (f.gains?.data?.skills ? f.gains.data.skills.overall?.experience.gained ?? 0 : null));
+
+  return {
+    players: found.map((f, i) => ({
+      username: f.stats.username,
+      displayName: f.stats.displayName,
+      type: f.stats.type,
+      build: f.stats.build,
+      combatLevel: f.stats.combatLevel,
+      totalLevel: overall.levels?.[i] ?? 0,
+      totalXp: overall.values[i] ?? 0,
+      ehp: f.stats.ehp,
+      ehb: f.stats.ehb,
+      ttm: f.stats.ttm,
+      weeklyXp: weeklyOverall[i],
+    })),
+    notFound: fetched.filter((f) => f.stats === null).map((f) => f.username),
+    ...aligned,
+    weeklyGains,
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function formatNumber(value: number | null): string {
+  if (value === null) return '–';
+  if (Math.abs(value) >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 10_000) return `${(value / 1000).toFixed(0)}K`;
+  return Math.round(value).toLocaleString();
+}
+
+function formatDiff(diff: number | null): string {
+  if (diff === null) return '–';
+  return diff > 0 ? `+${formatNumber(diff)}` : formatNumber(diff);
+}
+
+function label(metric: string): string {
+  const text = metric.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Render rows as a markdown table, bolding each row's leader
+ */
+function table(
+  names: string[],
+  rows: { label: string; cells: string[]; leader: number | null; diff?: string }[]
+): string[] {
+  const withDiff = names.length === 2;
+  const header = ['', ...names, ...(withDiff ? ['Diff'] : [])];
+  const lines = [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map((_, i) => (i === 0 ? '---' : '---:')).join(' | ')} |`,
+  ];
+  for (const row of rows) {
+    const cells = row.cells.map((cell, i) => (i === row.leader ? `**${cell}**` : cell));
+    lines.push(`| ${[row.label, ...cells, ...(withDiff ? [row.diff ?? '–'] : [])].join(' | ')} |`);
+  }
+  return lines;
+}
+
+/**
+ * Format a comparison as markdown tables for the AI to show as-is
+ */
+export function formatComparison(comparison: PlayerComparison, maxRows = 15): string {
+  const names = comparison.players.map((p) => p.displayName);
+  const players = comparison.players;
+  const overviewRow = (rowLabel: string, values: (number | null)[], lowerIsBetter = false) => ({
+    label: rowLabel,
+    cells: values.map(formatNumber),
+    leader: leaderIndex(values, lowerIsBetter),
+    diff: formatDiff(pairDiff(values)),
+  });
+
+  const lines = [
+    `## Comparison: ${names.join(' vs ')}`,
+    '',
+    '### Overview',
+    ...table(names, [
+      { label: 'Account', cells: players.map((p) => `${p.type}${p.build !== 'main' ? ` (${p.build})` : ''}`), leader: null },
+      overviewRow('Total level', players.map((p) => p.totalLevel)),
+      overviewRow('Total XP', players.map((p) => p.totalXp)),
+      overviewRow('Combat', players.map((p) => p.combatLevel)),
+      overviewRow('EHP', players.map((p) => p.ehp)),
+      overviewRow('EHB', players.map((p) => p.ehb)),
+      overviewRow('Time to max (h)', players.map((p) => p.ttm), true),
+      overviewRow('XP this week', players.map((p) => p.weeklyXp)),
+    ]),
+    '',
+    '### Skills (level)',
+    ...table(
+      names,
+      comparison.skills.filter((s) => s.metric !== 'overall').map((s) => ({
+        label: label(s.metric),
+        cells: (s.levels ?? s.values).map((v) => (v === null ? '–' : String(v))),
+        leader: s.leader,
+        diff: formatDiff(pairDiff(s.levels ?? [])),
+      }))
+    ),
+  ];
+
+  if (comparison.bosses.length > 0) {
+    const bosses = [...comparison.bosses]
+      .sort((a, b) => Math.max(...b.values.map((v) => v ?? 0)) - Math.max(...a.values.map((v) => v ?? 0)))
+      .slice(0, maxRows);
+    lines.push(
+      '',
+      '### Boss KC',
+      ...table(names, bosses.map((b) => ({
+        label: label(b.metric),
+        cells: b.values.map(formatNumber),
+        leader: b.leader,
+        diff: formatDiff(b.diff),
+      })))
+    );
+  }
+
+  if (comparison.activities.length > 0) {
+    lines.push(
+      '',
+      '### Activities',
+      ...table(names, comparison.activities.slice(0, maxRows).map((a) => ({
+        label: label(a.metric),
+        cells: a.values.map(formatNumber),
+        leader: a.leader,
+        diff: formatDiff(a.diff),
+      })))
+    );
+  }
+
+  if (comparison.weeklyGains.length > 0) {
+    lines.push(
+      '',
+      '### XP gained this week',
+      ...table(names, comparison.weeklyGains.slice(0, maxRows).map((g) => ({
+        label: label(g.metric),
+        cells: g.values.map(formatNumber),
+        leader: g.leader,
+        diff: formatDiff(g.diff),
+      })))
+    );
+  }
+
+  if (comparison.notFound.length > 0) {
+    lines.push('', `_Not found on Wise Old Man: ${comparison.notFound.join(', ')}_`);
+  }
+
+  return lines.join('\n');
+}
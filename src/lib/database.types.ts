@@ -163,6 +163,32 @@ export interface Database {
           updated_at?: string;
         };
       };
+      wiki_datasets: {
+        Row: {
+          key: string;
+          entries: Json;
+          pending: Json;
+          complete: boolean;
+          source_url: string | null;
+          cached_at: string;
+        };
+        Insert: {
+          key: string;
+          entries?: Json;
+          pending?: Json;
+          complete?: boolean;
+          source_url?: string | null;
+          cached_at?: string;
+        };
+        Update: {
+          key?: string;
+          entries?: Json;
+          pending?: Json;
+          complete?: boolean;
+          source_url?: string | null;
+          cached_at?: string;
+        };
+      };
       feedback: {
         Row: {
           id: string;
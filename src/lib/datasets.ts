@@ -0,0 +1,91 @@
+/**
+ * Wiki Dataset Store
+ * Persists structured datasets parsed from Wiki pages (clue guides, money making guides,
+ * quest requirements) in the wiki_datasets table. They are kept out of the documents
+ * table so that RAG searches never return a whole dataset as context.
+ */
+
+import { getSupabaseClient } from './supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface StoredDataset<T> {
+  entries: T[];
+  /** Source pages still to be parsed, for datasets built over several ingestion runs */
+  pending: string[];
+  complete: boolean;
+  cachedAt: number;
+}
+
+interface DatasetRow {
+  entries: unknown;
+  pending: unknown;
+  complete: boolean;
+  cached_at: string;
+}
+
+// ============================================
+// Storage
+// ============================================
+
+// The generated Database types resolve table writes to `never`, so use an untyped client
+function getDatasetsClient(): SupabaseClient | null {
+  return getSupabaseClient() as unknown as SupabaseClient | null;
+}
+
+/**
+ * Load a stored dataset by key; null when missing or Supabase isn't configured
+ */
+export async function loadDataset<T>(key: string): Promise<StoredDataset<T> | null> {
+  const supabase = getDatasetsClient();
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('wiki_datasets')
+      .select('entries, pending, complete, cached_at')
+      .eq('key', key)
+      .maybeSingle();
+    if (error || !data) return null;
+
+    const row = data as DatasetRow;
+    if (!Array.isArray(row.entries)) return null;
+    return {
+      entries: row.entries as T[],
+      pending: Array.isArray(row.pending) ? (row.pending as string[]) : [],
+      complete: row.complete,
+      cachedAt: new Date(row.cached_at).getTime(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Insert or replace a stored dataset
+ */
+export async function storeDataset<T>(
+  key: string,
+  dataset: Omit<StoredDataset<T>, 'cachedAt'>,
+  sourceUrl: string
+): Promise<void> {
+  const supabase = getDatasetsClient();
+  if (!supabase) return;
+
+  try {
+    const { error } = await supabase.from('wiki_datasets').upsert({
+      key,
+      entries: dataset.entries,
+      pending: dataset.pending,
+      complete: dataset.complete,
+      source_url: sourceUrl,
+      cached_at: new Date().toISOString(),
+    });
+    if (error) console.error(`Failed to store dataset ${key}:`, error);
+  } catch (error) {
+    console.error(`Failed to store dataset ${key}:`, error);
+  }
+}
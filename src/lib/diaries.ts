@@ -0,0 +1,264 @@
+/**
+ * Achievement Diary Module
+ * Parses a region's Easy/Medium/Hard/Elite task tables into structured requirements
+ * and checks them against a player's levels and completed quests.
+ */
+
+import { getWikiWikitext } from './osrs';
+import { stripMarkup, parseScpTemplates } from './wikitext';
+import { isSkillName } from './xp';
+import { capitalize, findUnmetSkills, type SkillRequirement, type UnmetSkill } from './quests';
+import type { BoostOptions } from './boosts';
+
+// ============================================
+// Constants
+// ============================================
+
+export const DIARY_TIERS = ['easy', 'medium', 'hard', 'elite'] as const;
+
+export type DiaryTier = (typeof DIARY_TIERS)[number];
+
+// Lowercase region name or alias -> Wiki page title
+export const DIARY_REGIONS: Record<string, string> = {
+  ardougne: 'Ardougne Diary',
+  desert: 'Desert Diary',
+  falador: 'Falador Diary',
+  fremennik: 'Fremennik Diary',
+  kandarin: 'Kandarin Diary',
+  karamja: 'Karamja Diary',
+  'kourend & kebos': 'Kourend & Kebos Diary',
+  kourend: 'Kourend & Kebos Diary',
+  'lumbridge & draynor': 'Lumbridge & Draynor Diary',
+  lumbridge: 'Lumbridge & Draynor Diary',
+  morytania: 'Morytania Diary',
+  varrock: 'Varrock Diary',
+  'western provinces': 'Western Provinces Diary',
+  western: 'Western Provinces Diary',
+  wilderness: 'Wilderness Diary',
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface DiaryTask {
+  tier: DiaryTier;
+  description: string;
+  skills: SkillRequirement[];
+  quests: string[];
+  items: string[];
+}
+
+export interface BlockedDiaryTask {
+  description: string;
+  missingSkills: UnmetSkill[];
+  missingQuests: string[];
+}
+
+export interface DiaryTierResult {
+  tier: DiaryTier;
+  taskCount: number;
+  /** Tasks whose skill and known quest requirements are met, counting boosts */
+  feasibleTasks: number;
+  /** Highest level needed per skill across the tier, only where the player is short (with any boost that covers it) */
+  missingSkills: UnmetSkill[];
+  /** Every quest the tier's tasks need */
+  requiredQuests: string[];
+  /** Quests needed by the tier that the player has not completed */
+  missingQuests: string[];
+  /** Items mentioned in task requirements */
+  items: string[];
+  /** null when quest completion is unknown and no skill is missing */
+  canComplete: boolean | null;
+  blockedTasks: BlockedDiaryTask[];
+}
+
+export interface DiaryCheck {
+  region: string;
+  tiers: DiaryTierResult[];
+  /** False when no completed quest list was supplied, so quest requirements are unverified */
+  questsVerified: boolean;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Resolve a region name ("Ardougne", "lumbridge", "Kourend & Kebos Diary") to its Wiki page title
+ */
+export function resolveDiaryRegion(region: string): string | null {
+  const key = region.toLowerCase().replace(/\s*(achievement\s*)?diary$/, '').replace(/\band\b/g, '&').trim();
+  return DIARY_REGIONS[key] ?? null;
+}
+
+function tierFromHeading(heading: string): DiaryTier | null {
+  const text = heading.toLowerCase();
+  return DIARY_TIERS.find((tier) => text.includes(tier)) ?? null;
+}
+
+/**
+ * Parse the requirements cell of a diary task row
+ */
+export function parseTaskRequirements(cell: string): Pick<DiaryTask, 'skills' | 'quests' | 'items'> {
+  const skills: SkillRequirement[] = [];
+  const quests: string[] = [];
+  const items: string[] = [];
+
+  for (const line of cell.split('\n')) {
+    const scp = parseScpTemplates(line).filter(({ name }) => name === 'combat' || isSkillName(name));
+    if (scp.length > 0) {
+      skills.push(...scp.map(({ name, level, boostable }) => ({ skill: capitalize(name), level, boostable })));
+      continue;
+    }
+
+    const links = [...line.matchAll(/\[\[([^\]|#]+)/g)].map((m) => m[1].trim());
+    if (/complet|started|partial/i.test(line)) {
+      quests.push(...links);
+    } else if (links.length > 0 || /\bitems?\b/i.test(line)) {
+      const text = stripMarkup(line.replace(/^\s*\*+/, ''));
+      if (text) items.push(text);
+    }
+  }
+
+  return { skills, quests, items };
+}
+
+/**
+ * Parse every task table on a diary page, one table per tier heading
+ */
+export function parseDiaryTasks(wikitext: string): DiaryTask[] {
+  const tasks: DiaryTask[] = [];
+  let tier: DiaryTier | null = null;
+
+  // Split on headings but keep them so tables inherit the last tier seen
+  for (const chunk of wikitext.split(/^(?==+[^=\n]+=+\s*$)/m)) {
+    const heading = chunk.match(/^=+([^=\n]+)=+/);
+    if (heading) tier = tierFromHeading(heading[1]) ?? tier;
+    if (!tier) continue;
+
+    for (const table of chunk.match(/\{\|[\s\S]*?\n\|\}/g) ?? []) {
+      for (const row of table.split(/\n\|-[^\n]*/).slice(1)) {
+        // Cells start with "|" at the beginning of a line; "||" separates inline cells
+        const cells = row
+          .replace(/\n\|\}$/, '')
+          .split(/\n\||\|\|/)
+          .map((cell) => cell.trim())
+          .filter((cell) => cell && !cell.startsWith('!'));
+        if (cells.length < 2) continue;
+
+        const description = stripMarkup(cells[0]);
+        if (!description) continue;
+        tasks.push({ tier, description, ...parseTaskRequirements(cells.slice(1).join('\n')) });
+      }
+    }
+  }
+
+  return tasks;
+}
+
+// ============================================
+// Checking
+// ============================================
+
+function checkTier(
+  tier: DiaryTier,
+  tasks: DiaryTask[],
+  levels: Record<string, number>,
+  completedQuests: Set<string> | null,
+  options: BoostOptions
+): DiaryTierResult {
+  const blockedTasks: BlockedDiaryTask[] = [];
+  const missingSkills = new Map<string, UnmetSkill>();
+  const requiredQuests = new Set<string>();
+  const missingQuests = new Set<string>();
+  const items = new Set<string>();
+
+  for (const task of tasks) {
+    task.items.forEach((item) => items.add(item));
+    task.quests.forEach((quest) => requiredQuests.add(quest));
+
+    const taskSkills = findUnmetSkills(task.skills, levels, options);
+    const taskQuests = completedQuests
+      ? task.quests.filter((quest) => !completedQuests.has(quest.toLowerCase()))
+      : [];
+
+    for (const gap of taskSkills) {
+      const existing = missingSkills.get(gap.skill);
+      if (!existing || existing.required < gap.required) missingSkills.set(gap.skill, gap);
+    }
+    taskQuests.forEach((quest) => missingQuests.add(quest));
+
+    if (taskSkills.some((gap) => !gap.boost) || taskQuests.length > 0) {
+      blockedTasks.push({ description: task.description, missingSkills: taskSkills, missingQuests: taskQuests });
+    }
+  }
+
+  const blocked = blockedTasks.length > 0;
+
+  return {
+    tier,
+    taskCount: tasks.length,
+    feasibleTasks: tasks.length - blockedTasks.length,
+    missingSkills: [...missingSkills.values()],
+    requiredQuests: [...requiredQuests],
+    missingQuests: [...missingQuests],
+    items: [...items],
+    canComplete: blocked ? false : !completedQuests && requiredQuests.size > 0 ? null : true,
+    blockedTasks,
+  };
+}
+
+/**
+ * Fetch a region's diary and check each tier against the player's levels.
+ * Pass completedQuests as null when unknown; quest requirements are then reported but not judged.
+ */
+export async function checkDiary(
+  region: string,
+  levels: Record<string, number>,
+  completedQuests: Set<string> | null,
+  tiers: readonly DiaryTier[] = DIARY_TIERS,
+  options: BoostOptions = {}
+): Promise<DiaryCheck | null> {
+  const title = resolveDiaryRegion(region);
+  if (!title) return null;
+
+  const wikitext = await getWikiWikitext(title);
+  if (!wikitext) return null;
+
+  const tasks = parseDiaryTasks(wikitext);
+  if (tasks.length === 0) return null;
+
+  return {
+    region: title,
+    tiers: tiers.map((tier) => checkTier(tier, tasks.filter((task) => task.tier === tier), levels, completedQuests, options)),
+    questsVerified: completedQuests !== null,
+  };
+}
+
+/**
+ * Format a diary check for the AI
+ */
+export function formatDiaryCheck(check: DiaryCheck): string {
+  const lines = [`## ${check.region}`, ''];
+
+  for (const tier of check.tiers) {
+    const status = tier.canComplete === true ? '✅ can complete' : tier.canComplete === false ? '❌ blocked' : '❔ check quests';
+    lines.push(`### ${capitalize(tier.tier)} — ${status} (${tier.feasibleTasks}/${tier.taskCount} tasks doable)`);
+    if (tier.missingSkills.length > 0) {
+      lines.push(`- **Missing levels:** ${tier.missingSkills.map((s) => `${s.required} ${s.skill} (have ${s.current}${s.boost ? `, boost with ${s.boost}` : ''})`).join(', ')}`);
+    }
+    if (tier.missingQuests.length > 0) {
+      lines.push(`- **Missing quests:** ${tier.missingQuests.join(', ')}`);
+    } else if (!check.questsVerified && tier.requiredQuests.length > 0) {
+      lines.push(`- **Quests required:** ${tier.requiredQuests.join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  if (!check.questsVerified) {
+    lines.push('_Quest requirements were not checked — completed quests are unknown._');
+  }
+
+  return lines.join('\n').trim();
+}
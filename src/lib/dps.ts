@@ -0,0 +1,405 @@
+/**
+ * DPS Module
+ * Max hit, accuracy and DPS for melee, ranged and magic using the OSRS combat formulas.
+ * Equipment bonuses come from parsed Infobox Bonuses, target stats from Infobox Monster.
+ */
+
+import { getWikiPageFull } from './osrs';
+import type { InfoboxBonuses, InfoboxMonster } from './wikitext';
+import type { WOMSkill } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type CombatType = 'melee' | 'ranged' | 'magic';
+export type MeleeAttackType = 'stab' | 'slash' | 'crush';
+export type CombatStyle = 'accurate' | 'aggressive' | 'controlled' | 'defensive' | 'rapid' | 'longrange';
+
+export interface PlayerCombatLevels {
+  attack: number;
+  strength: number;
+  defence: number;
+  ranged: number;
+  magic: number;
+  hitpoints: number;
+  prayer: number;
+}
+
+export interface EquipmentBonuses {
+  attack: { stab: number; slash: number; crush: number; magic: number; ranged: number };
+  strength: number;
+  rangedStrength: number;
+  /** Magic damage bonus in percent */
+  magicDamage: number;
+  prayer: number;
+  /** Weapon attack speed in game ticks */
+  attackSpeed: number;
+}
+
+export interface TargetStats {
+  name: string;
+  hitpoints: number;
+  defenceLevel: number;
+  magicLevel: number;
+  defence: { stab: number; slash: number; crush: number; magic: number; ranged: number };
+}
+
+export interface DpsInput {
+  combatType: CombatType;
+  levels: PlayerCombatLevels;
+  equipment: EquipmentBonuses;
+  target: TargetStats;
+  attackType?: MeleeAttackType;
+  style?: CombatStyle;
+  prayer?: PrayerName;
+  potion?: PotionName;
+  /** Base max hit of the spell (or powered staff formula result) for magic */
+  spellMaxHit?: number;
+  /** The magic attack is a powered staff's built-in spell, cast at the weapon's speed */
+  poweredStaff?: boolean;
+}
+
+export interface DpsResult {
+  combatType: CombatType;
+  maxHit: number;
+  attackRoll: number;
+  defenceRoll: number;
+  /** Chance to hit, 0-1 */
+  accuracy: number;
+  /** Seconds between attacks */
+  attackInterval: number;
+  dps: number;
+  /** Expected seconds to kill, ignoring overkill and regen */
+  timeToKill: number | null;
+}
+
+// ============================================
+// Prayers & Potions
+// ============================================
+
+interface PrayerBoost {
+  combatType: CombatType;
+  /** Accuracy multiplier */
+  attack: number;
+  /** Damage multiplier (melee/ranged) */
+  strength: number;
+  /** Flat magic damage bonus in percent */
+  magicDamage?: number;
+}
+
+export const PRAYERS = {
+  'burst of strength': { combatType: 'melee', attack: 1, strength: 1.05 },
+  'clarity of thought': { combatType: 'melee', attack: 1.05, strength: 1 },
+  'superhuman strength': { combatType: 'melee', attack: 1, strength: 1.1 },
+  'improved reflexes': { combatType: 'melee', attack: 1.1, strength: 1 },
+  'ultimate strength': { combatType: 'melee', attack: 1, strength: 1.15 },
+  'incredible reflexes': { combatType: 'melee', attack: 1.15, strength: 1 },
+  chivalry: { combatType: 'melee', attack: 1.15, strength: 1.18 },
+  piety: { combatType: 'melee', attack: 1.2, strength: 1.23 },
+  'sharp eye': { combatType: 'ranged', attack: 1.05, strength: 1.05 },
+  'hawk eye': { combatType: 'ranged', attack: 1.1, strength: 1.1 },
+  'eagle eye': { combatType: 'ranged', attack: 1.15, strength: 1.15 },
+  deadeye: { combatType: 'ranged', attack: 1.18, strength: 1.18 },
+  rigour: { combatType: 'ranged', attack: 1.2, strength: 1.23 },
+  'mystic will': { combatType: 'magic', attack: 1.05, strength: 1 },
+  'mystic lore': { combatType: 'magic', attack: 1.1, strength: 1 },
+  'mystic might': { combatType: 'magic', attack: 1.15, strength: 1 },
+  'mystic vigour': { combatType: 'magic', attack: 1.18, strength: 1, magicDamage: 3 },
+  augury: { combatType: 'magic', attack: 1.25, strength: 1, magicDamage: 4 },
+} satisfies Record<string, PrayerBoost>;
+
+export type PrayerName = keyof typeof PRAYERS;
+
+interface SkillBoostAmount {
+  percent: number;
+  flat: number;
+}
+
+/** Boost per skill; skills a potion doesn't touch are left out */
+type PotionBoost = Partial<Record<keyof PlayerCombatLevels, SkillBoostAmount>>;
+
+const SUPER = { percent: 15, flat: 5 };
+const RANGING = { percent: 10, flat: 4 };
+const MAGIC = { percent: 0, flat: 4 };
+const OVERLOAD = { percent: 16, flat: 6 };
+const SMELLING_SALTS = { percent: 16, flat: 11 };
+
+export const POTIONS = {
+  'attack potion': { attack: { percent: 10, flat: 3 } },
+  'strength potion': { strength: { percent: 10, flat: 3 } },
+  'super attack': { attack: SUPER },
+  'super strength': { strength: SUPER },
+  'super combat potion': { attack: SUPER, strength: SUPER, defence: SUPER },
+  'divine super combat potion': { attack: SUPER, strength: SUPER, defence: SUPER },
+  'ranging potion': { ranged: RANGING },
+  'divine ranging potion': { ranged: RANGING },
+  'bastion potion': { ranged: RANGING, defence: SUPER },
+  'magic potion': { magic: MAGIC },
+  'divine magic potion': { magic: MAGIC },
+  'battlemage potion': { magic: MAGIC, defence: SUPER },
+  'imbued heart': { magic: { percent: 10, flat: 1 } },
+  'saturated heart': { magic: { percent: 10, flat: 4 } },
+  'overload (+)': { attack: OVERLOAD, strength: OVERLOAD, defence: OVERLOAD, ranged: OVERLOAD, magic: OVERLOAD },
+  'smelling salts': { attack: SMELLING_SALTS, strength: SMELLING_SALTS, defence: SMELLING_SALTS, ranged: SMELLING_SALTS, magic: SMELLING_SALTS },
+} satisfies Record<string, PotionBoost>;
+
+export type PotionName = keyof typeof POTIONS;
+
+/**
+ * Apply a potion to a set of levels, returning the boosted levels
+ */
+export function applyPotion(levels: PlayerCombatLevels, potion?: PotionName): PlayerCombatLevels {
+  if (!potion) return levels;
+  const boosts: PotionBoost = POTIONS[potion];
+  const boosted = { ...levels };
+  for (const [skill, boost] of Object.entries(boosts) as [keyof PlayerCombatLevels, SkillBoostAmount][]) {
+    boosted[skill] = levels[skill] + Math.floor((levels[skill] * boost.percent) / 100) + boost.flat;
+  }
+  return boosted;
+}
+
+// ============================================
+// Formulas
+// ============================================
+
+const TICK_SECONDS = 0.6;
+
+/** Standard spells cast every 5 ticks whatever the weapon's speed */
+const SPELL_CAST_TICKS = 5;
+
+/** Standard OSRS hit chance from attack and defence rolls */
+export function hitChance(attackRoll: number, defenceRoll: number): number {
+  if (attackRoll > defenceRoll) {
+    return 1 - (defenceRoll + 2) / (2 * (attackRoll + 1));
+  }
+  return attackRoll / (2 * (defenceRoll + 1));
+}
+
+function styleBonus(style: CombatStyle | undefined, forStat: 'attack' | 'strength'): number {
+  switch (style) {
+    case 'accurate':
+      return forStat === 'attack' ? 3 : 0;
+    case 'aggressive':
+      return forStat === 'strength' ? 3 : 0;
+    case 'controlled':
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+function getPrayer(prayer: PrayerName | undefined, combatType: CombatType): PrayerBoost | null {
+  if (!prayer) return null;
+  const boost: PrayerBoost = PRAYERS[prayer];
+  return boost.combatType === combatType ? boost : null;
+}
+
+/**
+ * Compute max hit, accuracy and DPS for a single setup against a target
+ */
+export function calculateDps(input: DpsInput): DpsResult {
+  const levels = applyPotion(input.levels, input.potion);
+  const prayer = getPrayer(input.prayer, input.combatType);
+  const { equipment, target } = input;
+
+  let maxHit: number;
+  let attackRoll: number;
+  let defenceRoll: number;
+  let speedTicks = equipment.attackSpeed;
+
+  switch (input.combatType) {
+    case 'melee': {
+      const attackType = input.attackType ?? 'slash';
+      const effectiveStrength = Math.floor(levels.strength * (prayer?.strength ?? 1)) + styleBonus(input.style, 'strength') + 8;
+      const effectiveAttack = Math.floor(levels.attack * (prayer?.attack ?? 1)) + styleBonus(input.style, 'attack') + 8;
+      maxHit = Math.floor((effectiveStrength * (equipment.strength + 64) + 320) / 640);
+      attackRoll = effectiveAttack * (equipment.attack[attackType] + 64);
+      defenceRoll = (target.defenceLevel + 9) * (target.defence[attackType] + 64);
+      break;
+    }
+    case 'ranged': {
+      const accurate = input.style === 'accurate' ? 3 : 0;
+      const effectiveStrength = Math.floor(levels.ranged * (prayer?.strength ?? 1)) + accurate + 8;
+      const effectiveAttack = Math.floor(levels.ranged * (prayer?.attack ?? 1)) + accurate + 8;
+      maxHit = Math.floor(0.5 + (effectiveStrength * (equipment.rangedStrength + 64)) / 640);
+      attackRoll = effectiveAttack * (equipment.attack.ranged + 64);
+      defenceRoll = (target.defenceLevel + 9) * (target.defence.ranged + 64);
+      if (input.style === 'rapid') speedTicks = Math.max(1, speedTicks - 1);
+      break;
+    }
+    case 'magic': {
+      const effectiveMagic = Math.floor(levels.magic * (prayer?.attack ?? 1)) + (input.style === 'accurate' ? 2 : 0) + 9;
+      const damageBonus = equipment.magicDamage + (prayer?.magicDamage ?? 0);
+      maxHit = Math.floor((input.spellMaxHit ?? 0) * (1 + damageBonus / 100));
+      attackRoll = effectiveMagic * (equipment.attack.magic + 64);
+      // NPC magic defence uses the magic level rather than defence level
+      defenceRoll = (target.magicLevel + 9) * (target.defence.magic + 64);
+      if (!input.poweredStaff) speedTicks = SPELL_CAST_TICKS;
+      break;
+    }
+  }
+
+  const accuracy = hitChance(attackRoll, defenceRoll);
+  const attackInterval = speedTicks * TICK_SECONDS;
+  const dps = attackInterval > 0 ? (accuracy * (maxHit / 2)) / attackInterval : 0;
+
+  return {
+    combatType: input.combatType,
+    maxHit,
+    attackRoll,
+    defenceRoll,
+    accuracy: Math.round(accuracy * 10000) / 10000,
+    attackInterval,
+    dps: Math.round(dps * 1000) / 1000,
+    timeToKill: dps > 0 && target.hitpoints > 0 ? Math.round((target.hitpoints / dps) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Base max hit for powered staves, which scale with visible Magic level
+ */
+export const POWERED_STAVES: Record<string, (magicLevel: number) => number> = {
+  'trident of the seas': (m) => Math.floor(m / 3) - 5,
+  'trident of the swamp': (m) => Math.floor(m / 3) - 2,
+  'sanguinesti staff': (m) => Math.floor(m / 3) - 1,
+  "tumeken's shadow": (m) => Math.floor(m / 3) + 1,
+  'warped sceptre': (m) => Math.floor((8 * m + 96) / 37),
+  'accursed sceptre': (m) => Math.floor(m / 3) - 6,
+};
+
+/** Base max hits of common combat spells */
+export const SPELL_MAX_HITS: Record<string, number> = {
+  'fire bolt': 12,
+  'fire blast': 16,
+  'fire wave': 20,
+  'fire surge': 24,
+  'iron dart': 20,
+  'smoke barrage': 27,
+  'shadow barrage': 28,
+  'blood barrage': 29,
+  'ice barrage': 30,
+  'ice blitz': 26,
+  'flames of zamorak': 20,
+  'saradomin strike': 20,
+  'claws of guthix': 20,
+};
+
+// ============================================
+// Input Builders
+// ============================================
+
+/**
+ * Build combat levels from Wise Old Man skill data
+ */
+export function levelsFromSkills(skills: Record<string, WOMSkill>): PlayerCombatLevels {
+  const level = (name: string, fallback = 1) => {
+    const value = skills[name]?.level;
+    return value && value > 0 ? value : fallback;
+  };
+  return {
+    attack: level('attack'),
+    strength: level('strength'),
+    defence: level('defence'),
+    ranged: level('ranged'),
+    magic: level('magic'),
+    hitpoints: level('hitpoints', 10),
+    prayer: level('prayer'),
+  };
+}
+
+/**
+ * Sum Infobox Bonuses across equipped items. The weapon slot provides attack speed.
+ */
+export function sumEquipmentBonuses(items: InfoboxBonuses[]): EquipmentBonuses {
+  const total: EquipmentBonuses = {
+    attack: { stab: 0, slash: 0, crush: 0, magic: 0, ranged: 0 },
+    strength: 0,
+    rangedStrength: 0,
+    magicDamage: 0,
+    prayer: 0,
+    attackSpeed: 4, // Unarmed
+  };
+
+  for (const item of items) {
+    total.attack.stab += item.attack.stab;
+    total.attack.slash += item.attack.slash;
+    total.attack.crush += item.attack.crush;
+    total.attack.magic += item.attack.magic;
+    total.attack.ranged += item.attack.ranged;
+    total.strength += item.strength;
+    total.rangedStrength += item.rangedStrength;
+    total.magicDamage += item.magicDamage;
+    total.prayer += item.prayer;
+    const slot = item.slot?.toLowerCase();
+    if ((slot === 'weapon' || slot === '2h') && item.attackSpeed) {
+      total.attackSpeed = item.attackSpeed;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Convert a parsed Infobox Monster into target stats
+ */
+export function targetFromInfobox(monster: InfoboxMonster): TargetStats {
+  return {
+    name: monster.version ? `${monster.name} (${monster.version})` : monster.name,
+    hitpoints: monster.hitpoints ?? 0,
+    defenceLevel: monster.levels.defence,
+    magicLevel: monster.levels.magic,
+    defence: {
+      stab: monster.defensive.stab,
+      slash: monster.defensive.slash,
+      crush: monster.defensive.crush,
+      magic: monster.defensive.magic,
+      ranged: monster.defensive.ranged,
+    },
+  };
+}
+
+/**
+ * Pick the infobox entry matching a version label, or the first one
+ */
+function pickVersion<T extends { version: string | null }>(entries: T[], version?: string): T | null {
+  if (entries.length === 0) return null;
+  if (version) {
+    const match = entries.find((e) => e.version?.toLowerCase().includes(version.toLowerCase()));
+    if (match) return match;
+  }
+  return entries[0];
+}
+
+/**
+ * Fetch Infobox Bonuses for each item from the Wiki.
+ * Returns the bonuses found plus the names that had no bonuses infobox.
+ */
+export async function fetchEquipmentBonuses(
+  itemNames: string[]
+): Promise<{ bonuses: InfoboxBonuses[]; missing: string[] }> {
+  const bonuses: InfoboxBonuses[] = [];
+  const missing: string[] = [];
+
+  // Sequential — getWikiPageFull is rate limited anyway
+  for (const name of itemNames) {
+    const page = await getWikiPageFull(name);
+    const entry = page ? pickVersion(page.infoboxes.bonuses) : null;
+    if (entry) {
+      bonuses.push(entry);
+    } else {
+      missing.push(name);
+    }
+  }
+
+  return { bonuses, missing };
+}
+
+/**
+ * Fetch a monster's combat stats from its Wiki infobox
+ */
+export async function fetchTargetStats(monsterName: string, version?: string): Promise<TargetStats | null> {
+  const page = await getWikiPageFull(monsterName);
+  const monster = page ? pickVersion(page.infoboxes.monsters, version) : null;
+  return monster ? targetFromInfobox(monster) : null;
+}
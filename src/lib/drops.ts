@@ -0,0 +1,181 @@
+/**
+ * Drop Table Module
+ * Parses {{DropsTableHead}} / {{DropsLine}} templates into structured rows
+ * and prices them against live GE data.
+ */
+
+import { getWikiWikitext, getMultipleItemPrices } from './osrs';
+import { findTemplates, stripMarkup } from './wikitext';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DropRow {
+  item: string;
+  /** Section heading the table sits under (e.g. "Weapons and armour") */
+  section: string | null;
+  quantityMin: number;
+  quantityMax: number;
+  /** Raw quantity text as shown on the Wiki (e.g. "5–10 (noted)") */
+  quantityText: string;
+  /** Drop chance as a fraction (1/128 -> 0.0078), null for "Common"/"Rare" style rarities */
+  rarity: number | null;
+  rarityText: string;
+  noted: boolean;
+  membersOnly: boolean;
+}
+
+export interface PricedDropRow extends DropRow {
+  unitPrice: number | null;
+  /** rarity × average quantity × unit price */
+  expectedValue: number | null;
+}
+
+export interface MonsterDrops {
+  monster: string;
+  rows: PricedDropRow[];
+  expectedGpPerKill: number;
+  /** Rows that could not be priced (untradeable or named rarity) */
+  unpricedCount: number;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/** Parse rarity text such as "1/128", "2/5,000", "Always", "~1/50" into a fraction */
+export function parseRarity(text: string): number | null {
+  const cleaned = text.replace(/,/g, '').replace(/~/g, '').trim().toLowerCase();
+  if (cleaned.startsWith('always')) return 1;
+
+  const fraction = cleaned.match(/(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/);
+  if (fraction) {
+    const numerator = parseFloat(fraction[1]);
+    const denominator = parseFloat(fraction[2]);
+    return denominator > 0 ? numerator / denominator : null;
+  }
+
+  const percent = cleaned.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (percent) return parseFloat(percent[1]) / 100;
+
+  return null;
+}
+
+/** Parse quantity text such as "1", "5–10", "3;5;8" or "100 (noted)" */
+export function parseQuantity(text: string): { min: number; max: number } {
+  const numbers = text
+    .replace(/,/g, '')
+    .replace(/\(.*?\)/g, '')
+    .match(/\d+/g)
+    ?.map(Number) ?? [];
+
+  if (numbers.length === 0) return { min: 1, max: 1 };
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+}
+
+/** Split wikitext into [heading, body] pairs so rows can be labelled by section */
+function splitSections(wikitext: string): { heading: string | null; body: string }[] {
+  const sections: { heading: string | null; body: string }[] = [];
+  const headingRegex = /^(={2,5})\s*(.+?)\s*\1\s*$/gm;
+  let lastIndex = 0;
+  let lastHeading: string | null = null;
+  let match;
+
+  while ((match = headingRegex.exec(wikitext)) !== null) {
+    sections.push({ heading: lastHeading, body: wikitext.slice(lastIndex, match.index) });
+    lastHeading = stripMarkup(match[2]);
+    lastIndex = match.index + match[0].length;
+  }
+  sections.push({ heading: lastHeading, body: wikitext.slice(lastIndex) });
+
+  return sections;
+}
+
+/**
+ * Parse every {{DropsLine}} row on a monster page
+ */
+export function parseDropTable(wikitext: string): DropRow[] {
+  const rows: DropRow[] = [];
+
+  for (const { heading, body } of splitSections(wikitext)) {
+    for (const line of findTemplates(body, 'DropsLine')) {
+      const p = line.params;
+      const item = stripMarkup(p.name || p['1']);
+      if (!item) continue;
+
+      const quantityText = stripMarkup(p.quantity || p['2']) || '1';
+      const rarityText = stripMarkup(p.rarity || p['3']);
+      const notes = `${p.namenotes ?? ''} ${p.quantitynotes ?? ''} ${p.raritynotes ?? ''}`;
+      const { min, max } = parseQuantity(quantityText);
+
+      rows.push({
+        item,
+        section: heading,
+        quantityMin: min,
+        quantityMax: max,
+        quantityText,
+        rarity: parseRarity(rarityText),
+        rarityText,
+        noted: /noted/i.test(quantityText) || /noted/i.test(notes),
+        membersOnly: /\{\{\s*\(m\)\s*\}\}/i.test(notes) || /members/i.test(stripMarkup(p.namenotes)),
+      });
+    }
+  }
+
+  return rows;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+/**
+ * Fetch a monster's drop table and compute per-kill expected GP from live prices
+ */
+export async function getMonsterDrops(
+  monster: string,
+  itemFilter?: string
+): Promise<MonsterDrops | null> {
+  const wikitext = await getWikiWikitext(monster);
+  if (!wikitext) return null;
+
+  const rows = parseDropTable(wikitext);
+  if (rows.length === 0) return { monster, rows: [], expectedGpPerKill: 0, unpricedCount: 0 };
+
+  // Unique item names so each item is priced once
+  const names = [...new Set(rows.filter((r) => r.item.toLowerCase() !== 'coins').map((r) => r.item))];
+  const prices = await getMultipleItemPrices(names, { exactOnly: true });
+
+  const priced: PricedDropRow[] = rows.map((row) => {
+    const unitPrice = row.item.toLowerCase() === 'coins' ? 1 : prices[row.item]?.avgPrice ?? null;
+    const avgQuantity = (row.quantityMin + row.quantityMax) / 2;
+    const expectedValue = unitPrice !== null && row.rarity !== null
+      ? row.rarity * avgQuantity * unitPrice
+      : null;
+    return { ...row, unitPrice, expectedValue };
+  });
+
+  // Expected GP is always for the full table, even when the caller filters rows
+  const expectedGpPerKill = Math.round(
+    priced.reduce((sum, row) => sum + (row.expectedValue ?? 0), 0)
+  );
+  const unpricedCount = priced.filter((row) => row.expectedValue === null).length;
+
+  const filter = itemFilter?.toLowerCase().trim();
+  return {
+    monster,
+    rows: filter ? priced.filter((row) => row.item.toLowerCase().includes(filter)) : priced,
+    expectedGpPerKill,
+    unpricedCount,
+  };
+}
+
+/**
+ * Format a rarity fraction back into "1/N" form for display
+ */
+export function formatRarity(rarity: number | null, fallback: string): string {
+  if (rarity === null) return fallback || 'Unknown';
+  if (rarity >= 1) return 'Always';
+  return `1/${Math.round(1 / rarity).toLocaleString()}`;
+}
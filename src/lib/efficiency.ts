@@ -0,0 +1,317 @@
+/**
+ * Efficiency Module
+ * EHP/EHB breakdowns and a per-skill time-to-max estimate using Wise Old Man's
+ * efficiency rates for the account's type and build.
+ */
+
+import { getPlayerStats, getPlayerGains, getEhpRates, getEhbRates } from './osrs';
+import { SKILL_NAMES, MAX_XP, xpForLevel, levelForXp } from './xp';
+import { buildSkillCaps, isF2pBuild } from './account-rules';
+import type { WOMPlayer, WOMGains, WOMEfficiencyAlgorithm, WOMSkillMeta } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type EfficiencyTarget = 'max' | '200m';
+
+export interface SkillTime {
+  skill: string;
+  level: number;
+  xp: number;
+  targetXp: number;
+  remainingXp: number;
+  /** XP still to come from training other skills (e.g. Fletching from Woodcutting) */
+  bonusXp: number;
+  /** Hours left at WOM's rates; null when the algorithm has no rate for the skill */
+  hours: number | null;
+  /** Fraction of the total estimated hours */
+  share: number;
+}
+
+export interface WeeklySkillMovement {
+  skill: string;
+  xpGained: number;
+  /** Hours of the target removed by last week's XP */
+  hoursReduced: number;
+}
+
+export interface BossEfficiency {
+  boss: string;
+  kills: number;
+  ehb: number;
+  /** Kills per hour at WOM's rates */
+  rate: number | null;
+}
+
+export interface EfficiencyReport {
+  username: string;
+  displayName: string;
+  type: WOMPlayer['type'];
+  build: WOMPlayer['build'];
+  algorithm: WOMEfficiencyAlgorithm;
+  target: EfficiencyTarget;
+  /** WOM's own totals */
+  ehp: number;
+  ehb: number;
+  ttm: number;
+  tt200m: number;
+  /** Sum of the per-skill breakdown */
+  estimatedHours: number;
+  /** Skills with time remaining, slowest first */
+  skills: SkillTime[];
+  /** Skills the build keeps low or that have no rates */
+  excludedSkills: string[];
+  weekly: {
+    hoursReduced: number;
+    skills: WeeklySkillMovement[];
+  } | null;
+  /** Bosses contributing the most EHB */
+  bosses: BossEfficiency[];
+}
+
+const MEMBERS_SKILLS = [
+  'agility', 'thieving', 'slayer', 'farming', 'fletching', 'herblore', 'hunter', 'construction', 'sailing',
+];
+
+// ============================================
+// Calculations
+// ============================================
+
+/**
+ * Skills the build keeps at a fixed level, or members skills on a free-to-play build
+ */
+function isExcluded(skill: string, build: WOMPlayer['build']): boolean {
+  return buildSkillCaps(build)[skill] !== undefined || (isF2pBuild(build) && MEMBERS_SKILLS.includes(skill));
+}
+
+/**
+ * Pick WOM's efficiency algorithm for an account type and build
+ */
+export function efficiencyAlgorithm(type: WOMPlayer['type'], build: WOMPlayer['build']): WOMEfficiencyAlgorithm {
+  const f2p = isF2pBuild(build);
+  const lvl3 = build === 'lvl3' || build === 'f2p_lvl3';
+
+  // Unknown types (e.g. stats from the main hiscores) get the main account rates
+  if (type !== 'regular' && type !== 'unknown') {
+    if (f2p) return lvl3 ? 'f2p_lvl3_ironman' : 'f2p_ironman';
+    return type === 'ultimate' ? 'ultimate' : 'ironman';
+  }
+  if (build === 'f2p_lvl3') return 'f2p_lvl3';
+  if (build === 'f2p' || build === 'lvl3' || build === 'def1') return build;
+  return 'main';
+}
+
+/**
+ * Hours to train from one XP amount to another using a skill's method brackets.
+ * Returns null if any bracket in the range has no rate.
+ */
+export function hoursBetween(meta: WOMSkillMeta, fromXp: number, toXp: number): number | null {
+  if (toXp <= fromXp) return 0;
+  const methods = [...meta.methods].sort((a, b) => a.startExp - b.startExp);
+  if (methods.length === 0) return null;
+
+  let hours = 0;
+  for (let i = 0; i < methods.length; i++) {
+    const start = Math.max(fromXp, methods[i].startExp);
+    const end = Math.min(toXp, methods[i + 1]?.startExp ?? Infinity);
+    if (end <= start) continue;
+    if (methods[i].rate <= 0) return null;
+    hours += (end - start) / methods[i].rate;
+  }
+  return hours;
+}
+
+function targetXpFor(skill: string, target: EfficiencyTarget, build: WOMPlayer['build']): number {
+  const full = target === 'max' ? xpForLevel(99) : MAX_XP;
+  const cap = buildSkillCaps(build)[skill];
+  return cap !== undefined ? Math.min(full, xpForLevel(cap)) : full;
+}
+
+/**
+ * Bonus XP each skill will still receive from training its origin skills to target
+ */
+function pendingBonusXp(
+  metas: WOMSkillMeta[],
+  xp: Record<string, number>,
+  targets: Record<string, number>
+): Record<string, number> {
+  const bonus: Record<string, number> = {};
+  for (const meta of metas) {
+    for (const b of meta.bonuses) {
+      const from = xp[b.originSkill] ?? 0;
+      const to = targets[b.originSkill] ?? from;
+      const overlap = Math.min(to, b.endExp) - Math.max(from, b.startExp);
+      if (overlap > 0) bonus[b.bonusSkill] = (bonus[b.bonusSkill] ?? 0) + overlap * b.ratio;
+    }
+  }
+  return bonus;
+}
+
+/**
+ * Per-skill time to a target from XP totals. Bonus XP is credited before a skill's own training.
+ */
+export function computeSkillTimes(
+  xp: Record<string, number>,
+  metas: WOMSkillMeta[],
+  target: EfficiencyTarget,
+  build: WOMPlayer['build']
+): SkillTime[] {
+  const skills = SKILL_NAMES.filter((skill) => !(isF2pBuild(build) && MEMBERS_SKILLS.includes(skill)));
+  const targets = Object.fromEntries(skills.map((skill) => [skill, Math.max(xp[skill] ?? 0, targetXpFor(skill, target, build))]));
+  const bonus = pendingBonusXp(metas, xp, targets);
+  const metaBySkill = new Map(metas.map((meta) => [meta.skill, meta]));
+
+  const times = skills.map((skill) => {
+    const current = xp[skill] ?? 0;
+    const remainingXp = Math.max(0, targets[skill] - current);
+    const bonusXp = Math.min(remainingXp, Math.round(bonus[skill] ?? 0));
+    const meta = metaBySkill.get(skill);
+    return {
+      skill,
+      level: levelForXp(current),
+      xp: current,
+      targetXp: targets[skill],
+      remainingXp,
+      bonusXp,
+      hours: remainingXp === 0 ? 0 : meta ? hoursBetween(meta, current + bonusXp, targets[skill]) : null,
+      share: 0,
+    };
+  });
+
+  const total = times.reduce((sum, t) => sum + (t.hours ?? 0), 0);
+  return times.map((t) => ({ ...t, share: total > 0 && t.hours ? t.hours / total : 0 }));
+}
+
+/**
+ * How much of the target each skill's XP over a gains period removed
+ */
+export function weeklyMovement(
+  xp: Record<string, number>,
+  gains: WOMGains,
+  metas: WOMSkillMeta[],
+  target: EfficiencyTarget,
+  build: WOMPlayer['build']
+): WeeklySkillMovement[] {
+  const before = Object.fromEntries(
+    Object.entries(xp).map(([skill, value]) => [skill, value - (gains.data.skills[skill]?.experience.gained ?? 0)])
+  );
+  const hoursBefore = new Map(computeSkillTimes(before, metas, target, build).map((t) => [t.skill, t.hours ?? 0]));
+
+  return computeSkillTimes(xp, metas, target, build)
+    .map((t) => ({
+      skill: t.skill,
+      xpGained: gains.data.skills[t.skill]?.experience.gained ?? 0,
+      hoursReduced: (hoursBefore.get(t.skill) ?? 0) - (t.hours ?? 0),
+    }))
+    .filter((m) => m.xpGained > 0 && m.hoursReduced > 0)
+    .sort((a, b) => b.hoursReduced - a.hoursReduced);
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Fetch a player's stats, last week's gains and WOM rates, and build the efficiency report
+ */
+export async function getEfficiencyReport(
+  username: string,
+  target: EfficiencyTarget = 'max'
+): Promise<EfficiencyReport | null> {
+  const player = await getPlayerStats(username);
+  const snapshot = player?.latestSnapshot?.data;
+  if (!player || !snapshot) return null;
+
+  const algorithm = efficiencyAlgorithm(player.type, player.build);
+  const [ehpRates, ehbRates, gains] = await Promise.all([
+    getEhpRates(algorithm),
+    getEhbRates(algorithm),
+    getPlayerGains(username, 'week'),
+  ]);
+  if (!ehpRates) return null;
+
+  const xp = Object.fromEntries(
+    SKILL_NAMES.map((skill) => [skill, Math.max(0, snapshot.skills[skill]?.experience ?? 0)])
+  );
+  const times = computeSkillTimes(xp, ehpRates, target, player.build);
+  const weeklySkills = gains?.data?.skills ? weeklyMovement(xp, gains, ehpRates, target, player.build) : null;
+  const bossRates = new Map((ehbRates ?? []).map((b) => [b.boss, b.rate]));
+
+  return {
+    username: player.username,
+    displayName: player.displayName,
+    type: player.type,
+    build: player.build,
+    algorithm,
+    target,
+    ehp: player.ehp,
+    ehb: player.ehb,
+    ttm: player.ttm,
+    tt200m: player.tt200m,
+    estimatedHours: times.reduce((sum, t) => sum + (t.hours ?? 0), 0),
+    skills: times.filter((t) => t.remainingXp > 0 && t.hours !== null).sort((a, b) => (b.hours ?? 0) - (a.hours ?? 0)),
+    excludedSkills: SKILL_NAMES.filter(
+      (skill) => isExcluded(skill, player.build) || times.find((t) => t.skill === skill)?.hours === null
+    ),
+    weekly: weeklySkills
+      ? { hoursReduced: weeklySkills.reduce((sum, m) => sum + m.hoursReduced, 0), skills: weeklySkills }
+      : null,
+    bosses: Object.values(snapshot.bosses)
+      .filter((b) => b.ehb > 0)
+      .sort((a, b) => b.ehb - a.ehb)
+      .slice(0, 5)
+      .map((b) => ({ boss: b.metric, kills: b.kills, ehb: b.ehb, rate: bossRates.get(b.metric) ?? null })),
+  };
+}
+
+function formatHours(hours: number): string {
+  return hours >= 100 ? Math.round(hours).toLocaleString() : hours.toFixed(1);
+}
+
+/**
+ * Format an efficiency report for the AI
+ */
+export function formatEfficiencyReport(report: EfficiencyReport, limit = 10): string {
+  const official = report.target === 'max' ? report.ttm : report.tt200m;
+  const lines = [
+    `## Efficiency for ${report.displayName} (${report.type}, ${report.build} build — WOM "${report.algorithm}" rates)`,
+    '',
+    `- **EHP:** ${formatHours(report.ehp)} | **EHB:** ${formatHours(report.ehb)}`,
+    `- **Time to ${report.target === 'max' ? 'max' : '200m all'}:** ${formatHours(official)} h (WOM), ~${formatHours(report.estimatedHours)} h from the skill breakdown`,
+  ];
+
+  if (report.weekly) {
+    lines.push(`- **Last week:** −${formatHours(report.weekly.hoursReduced)} h`);
+  }
+
+  if (report.skills.length > 0) {
+    lines.push('', '### Skills dominating the remaining time');
+    for (const s of report.skills.slice(0, limit)) {
+      const bonus = s.bonusXp > 0 ? `, ${s.bonusXp.toLocaleString()} XP from bonus` : '';
+      lines.push(
+        `- **${s.skill}** (lvl ${s.level}): ${formatHours(s.hours ?? 0)} h (${Math.round(s.share * 100)}%) — ${s.remainingXp.toLocaleString()} XP left${bonus}`
+      );
+    }
+  }
+
+  if (report.weekly && report.weekly.skills.length > 0) {
+    lines.push('', '### Last week\'s movement');
+    for (const m of report.weekly.skills.slice(0, 5)) {
+      lines.push(`- **${m.skill}:** +${m.xpGained.toLocaleString()} XP → −${formatHours(m.hoursReduced)} h`);
+    }
+  }
+
+  if (report.bosses.length > 0) {
+    lines.push('', '### Top EHB');
+    for (const b of report.bosses) {
+      lines.push(`- **${b.boss}:** ${b.kills.toLocaleString()} KC = ${formatHours(b.ehb)} EHB${b.rate ? ` (${b.rate}/hr)` : ''}`);
+    }
+  }
+
+  if (report.excludedSkills.length > 0) {
+    lines.push('', `_Not counted: ${report.excludedSkills.join(', ')} (kept low by the build or no WOM rates)._`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,430 @@
+/**
+ * Farming Module
+ * Herb, tree and fruit tree growth cycles, patch locations with their unlock requirements,
+ * and a run planner that picks a crop for the player's Farming level and quests and
+ * estimates the run's XP, yield and profit at live herb and seed prices.
+ */
+
+import { getMultipleItemPrices, formatPrice } from './osrs';
+import type { AccountRules } from './account-rules';
+
+// ============================================
+// Types
+// ============================================
+
+export const FARM_RUN_TYPES = ['herb', 'tree', 'fruit_tree'] as const;
+
+export type FarmRunType = (typeof FARM_RUN_TYPES)[number];
+
+export const COMPOST_TYPES = ['none', 'compost', 'supercompost', 'ultracompost'] as const;
+
+export type CompostType = (typeof COMPOST_TYPES)[number];
+
+export type FarmRunGoal = 'profit' | 'xp';
+
+export interface Crop {
+  name: string;
+  type: FarmRunType;
+  level: number;
+  /** Seed or sapling planted (saplings are grown from the seed) */
+  seed: string;
+  /** Harvested item, null for trees (checked for XP, then chopped or cleared) */
+  produce: string | null;
+  /** Minutes from planting to fully grown */
+  growthMinutes: number;
+  xpPlant: number;
+  /** XP per harvested item (herbs) or for the health check (trees) */
+  xpHarvest: number;
+  /** Gardener payment to protect the patch, if any */
+  protection: string | null;
+}
+
+export interface FarmingPatch {
+  location: string;
+  type: FarmRunType;
+  farmingLevel: number;
+  quests: string[];
+  /** Diary or other unlock needed besides quests */
+  other: string | null;
+  /** Crops here never get diseased */
+  diseaseFree: boolean;
+  /** Fastest usual way there */
+  travel: string;
+}
+
+export interface FarmingPlayerState {
+  /** Lowercase skill name (plus "combat") -> level */
+  levels: Record<string, number>;
+  /** Lowercase names of completed quests; null when unknown (quest-gated patches assumed unlocked) */
+  completedQuests: Set<string> | null;
+  rules: AccountRules | null;
+}
+
+export interface FarmRunStop {
+  location: string;
+  travel: string;
+  diseaseFree: boolean;
+  /** Chance the crop survives to harvest */
+  survival: number;
+  /** Unverified unlock the stop depends on (quest or diary), if any */
+  assumes: string[];
+}
+
+export interface LockedPatch {
+  location: string;
+  missing: string[];
+}
+
+export interface FarmRunPlan {
+  type: FarmRunType;
+  crop: Crop;
+  compost: CompostType;
+  stops: FarmRunStop[];
+  locked: LockedPatch[];
+  growthMinutes: number;
+  /** Rough time at the keyboard for one run */
+  runMinutes: number;
+  xpPerRun: number;
+  /** Produce per run after disease losses (herbs only) */
+  expectedYield: number;
+  seedPrice: number | null;
+  producePrice: number | null;
+  compostPrice: number | null;
+  /** Seeds and compost for every stop */
+  costPerRun: number;
+  /** Null when the crop has no produce or prices are missing */
+  profitPerRun: number | null;
+  /** Other crops the player can grow, best first for the goal */
+  alternatives: { crop: string; xpPerRun: number; profitPerRun: number | null }[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+function herb(name: string, level: number, xpPlant: number, xpHarvest: number, produce = `Grimy ${name.toLowerCase()}`): Crop {
+  return { name, type: 'herb', level, seed: `${name} seed`, produce, growthMinutes: 80, xpPlant, xpHarvest, protection: null };
+}
+
+function tree(
+  name: string,
+  type: 'tree' | 'fruit_tree',
+  level: number,
+  seed: string,
+  growthMinutes: number,
+  xpPlant: number,
+  xpCheck: number,
+  protection: string
+): Crop {
+  return { name, type, level, seed, produce: null, growthMinutes, xpPlant, xpHarvest: xpCheck, protection };
+}
+
+export const CROPS: Crop[] = [
+  herb('Guam', 9, 11, 12.5, 'Grimy guam leaf'),
+  herb('Marrentill', 14, 13.5, 15),
+  herb('Tarromin', 19, 16, 18),
+  herb('Harralander', 26, 21.5, 24),
+  herb('Ranarr', 32, 27, 30.5, 'Grimy ranarr weed'),
+  herb('Toadflax', 38, 34, 38.5),
+  herb('Irit', 44, 43, 48.5, 'Grimy irit leaf'),
+  herb('Avantoe', 50, 54.5, 61.5),
+  herb('Kwuarm', 56, 69, 78),
+  herb('Snapdragon', 62, 87.5, 98.5),
+  herb('Cadantine', 67, 106.5, 120),
+  herb('Lantadyme', 73, 134.5, 151.5),
+  herb('Dwarf weed', 79, 170.5, 192),
+  herb('Torstol', 85, 199.5, 224.5),
+
+  tree('Oak', 'tree', 15, 'Acorn', 200, 14, 467.3, '1 basket of tomatoes'),
+  tree('Willow', 'tree', 30, 'Willow seed', 280, 25, 1456.5, '1 basket of apples'),
+  tree('Maple', 'tree', 45, 'Maple seed', 320, 45, 3403.4, '1 basket of oranges'),
+  tree('Yew', 'tree', 60, 'Yew seed', 400, 81, 7069.9, '10 cactus spines'),
+  tree('Magic', 'tree', 75, 'Magic seed', 480, 145.5, 13768.3, '25 coconuts'),
+
+  tree('Apple', 'fruit_tree', 27, 'Apple tree seed', 960, 22, 1199.5, '9 sweetcorn'),
+  tree('Banana', 'fruit_tree', 33, 'Banana tree seed', 960, 28, 1750.5, '4 baskets of apples'),
+  tree('Orange', 'fruit_tree', 39, 'Orange tree seed', 960, 35.5, 2470.2, '3 baskets of strawberries'),
+  tree('Curry', 'fruit_tree', 42, 'Curry tree seed', 960, 40, 2906.9, '5 baskets of bananas'),
+  tree('Pineapple', 'fruit_tree', 51, 'Pineapple seed', 960, 57, 4605.7, '10 watermelons'),
+  tree('Papaya', 'fruit_tree', 57, 'Papaya tree seed', 960, 72, 6146.4, '10 pineapples'),
+  tree('Palm', 'fruit_tree', 68, 'Palm tree seed', 960, 110.5, 10150.1, '15 papaya fruit'),
+  tree('Dragonfruit', 'fruit_tree', 81, 'Dragonfruit tree seed', 960, 140, 17335, '15 coconuts'),
+];
+
+function patch(
+  location: string,
+  type: FarmRunType,
+  travel: string,
+  options: Partial<Pick<FarmingPatch, 'farmingLevel' | 'quests' | 'other' | 'diseaseFree'>> = {}
+): FarmingPatch {
+  return {
+    location,
+    type,
+    travel,
+    farmingLevel: options.farmingLevel ?? 1,
+    quests: options.quests ?? [],
+    other: options.other ?? null,
+    diseaseFree: options.diseaseFree ?? false,
+  };
+}
+
+// In run order
+export const FARMING_PATCHES: FarmingPatch[] = [
+  patch('Farming Guild', 'herb', 'Skills necklace', { farmingLevel: 65 }),
+  patch('Ardougne', 'herb', 'Ardougne cloak'),
+  patch('Catherby', 'herb', 'Camelot teleport'),
+  patch('Falador', 'herb', 'Explorer\'s ring'),
+  patch('Port Phasmatys', 'herb', 'Ectophial', { quests: ['Priest in Peril'] }),
+  patch('Hosidius', 'herb', 'Xeric\'s talisman', { diseaseFree: true }),
+  patch('Civitas illa Fortis', 'herb', 'Civitas illa Fortis teleport', { quests: ['Children of the Sun'] }),
+  patch('Troll Stronghold', 'herb', 'Stony basalt', { quests: ['My Arm\'s Big Adventure'], diseaseFree: true }),
+  patch('Weiss', 'herb', 'Icy basalt', { quests: ['Making Friends with My Arm'], diseaseFree: true }),
+  patch('Harmony Island', 'herb', 'Harmony Island teleport', {
+    quests: ['The Great Brain Robbery'],
+    other: 'Morytania Elite Diary',
+  }),
+
+  patch('Farming Guild', 'tree', 'Skills necklace', { farmingLevel: 65 }),
+  patch('Lumbridge', 'tree', 'Lumbridge teleport'),
+  patch('Varrock', 'tree', 'Varrock teleport'),
+  patch('Falador', 'tree', 'Falador teleport'),
+  patch('Taverley', 'tree', 'Falador teleport or Taverley house portal'),
+  patch('Gnome Stronghold', 'tree', 'Spirit tree'),
+
+  patch('Farming Guild', 'fruit_tree', 'Skills necklace', { farmingLevel: 85 }),
+  patch('Tree Gnome Stronghold', 'fruit_tree', 'Spirit tree'),
+  patch('Tree Gnome Village', 'fruit_tree', 'Spirit tree'),
+  patch('Catherby', 'fruit_tree', 'Camelot teleport'),
+  patch('Brimhaven', 'fruit_tree', 'Ardougne teleport and boat, or Brimhaven house portal'),
+  patch('Lletya', 'fruit_tree', 'Teleport crystal', { quests: ['Mourning\'s End Part I'] }),
+];
+
+// Expected herbs per harvest with each compost (before magic secateurs or a Farming cape)
+const HERB_YIELD: Record<CompostType, number> = {
+  none: 5.5,
+  compost: 6.3,
+  supercompost: 7,
+  ultracompost: 7.6,
+};
+
+// Chance a herb survives its four growth stages without disease
+const HERB_SURVIVAL: Record<CompostType, number> = {
+  none: 0.73,
+  compost: 0.86,
+  supercompost: 0.93,
+  ultracompost: 0.96,
+};
+
+const COMPOST_ITEMS: Record<CompostType, string | null> = {
+  none: null,
+  compost: 'Compost',
+  supercompost: 'Supercompost',
+  ultracompost: 'Ultracompost',
+};
+
+const MINUTES_PER_STOP: Record<FarmRunType, number> = {
+  herb: 1.5,
+  tree: 2,
+  fruit_tree: 2,
+};
+
+// ============================================
+// Planning
+// ============================================
+
+export function findCrop(name: string, type?: FarmRunType): Crop | null {
+  const query = name.toLowerCase().trim().replace(/ (seed|sapling|tree)s?$/, '');
+  const crops = type ? CROPS.filter((c) => c.type === type) : CROPS;
+  return crops.find((c) => c.name.toLowerCase() === query)
+    ?? crops.find((c) => c.name.toLowerCase().includes(query) || query.includes(c.name.toLowerCase()))
+    ?? null;
+}
+
+/**
+ * Patches of a type split into those the player can use and those still locked
+ */
+export function availablePatches(
+  type: FarmRunType,
+  state: FarmingPlayerState
+): { stops: FarmRunStop[]; locked: LockedPatch[] } {
+  const farming = state.levels.farming ?? 1;
+  const stops: FarmRunStop[] = [];
+  const locked: LockedPatch[] = [];
+
+  for (const p of FARMING_PATCHES.filter((fp) => fp.type === type)) {
+    const missing: string[] = [];
+    if (farming < p.farmingLevel) missing.push(`${p.farmingLevel} Farming (have ${farming})`);
+    if (state.completedQuests) {
+      missing.push(...p.quests.filter((q) => !state.completedQuests!.has(q.toLowerCase())));
+    }
+
+    if (missing.length > 0) {
+      locked.push({ location: p.location, missing });
+      continue;
+    }
+    stops.push({
+      location: p.location,
+      travel: p.travel,
+      diseaseFree: p.diseaseFree,
+      survival: 1,
+      assumes: [...(state.completedQuests ? [] : p.quests), ...(p.other ? [p.other] : [])],
+    });
+  }
+
+  return { stops, locked };
+}
+
+/**
+ * XP, yield and cost of one run of a crop over the given stops
+ */
+export function evaluateRun(
+  crop: Crop,
+  stops: FarmRunStop[],
+  compost: CompostType,
+  prices: Record<string, number | null>
+): Pick<FarmRunPlan, 'stops' | 'xpPerRun' | 'expectedYield' | 'seedPrice' | 'producePrice' | 'compostPrice' | 'costPerRun' | 'profitPerRun'> {
+  // Only herbs are modelled as dying; tree protection payments keep them alive
+  const withSurvival = stops.map((s) => ({
+    ...s,
+    survival: crop.type !== 'herb' || s.diseaseFree ? 1 : HERB_SURVIVAL[compost],
+  }));
+  const survived = withSurvival.reduce((sum, s) => sum + s.survival, 0);
+
+  const harvestPerPatch = crop.type === 'herb' ? HERB_YIELD[compost] : 0;
+  const expectedYield = Math.round(survived * harvestPerPatch * 10) / 10;
+  const xpPerRun = Math.round(
+    stops.length * crop.xpPlant + (crop.type === 'herb' ? expectedYield * crop.xpHarvest : survived * crop.xpHarvest)
+  );
+
+  const seedPrice = prices[crop.seed] ?? null;
+  const producePrice = crop.produce ? prices[crop.produce] ?? null : null;
+  const compostItem = COMPOST_ITEMS[compost];
+  const compostPrice = compostItem ? prices[compostItem] ?? null : null;
+  const costPerRun = Math.round(stops.length * ((seedPrice ?? 0) + (compostPrice ?? 0)));
+  const profitPerRun = crop.produce && producePrice !== null && seedPrice !== null
+    ? Math.round(expectedYield * producePrice - costPerRun)
+    : null;
+
+  return { stops: withSurvival, xpPerRun, expectedYield, seedPrice, producePrice, compostPrice, costPerRun, profitPerRun };
+}
+
+/**
+ * Live prices for every seed, produce and compost item of a run type
+ */
+async function getFarmingPrices(type: FarmRunType): Promise<Record<string, number | null>> {
+  const names = [
+    ...CROPS.filter((c) => c.type === type).flatMap((c) => (c.produce ? [c.seed, c.produce] : [c.seed])),
+    ...Object.values(COMPOST_ITEMS).filter((n): n is string => n !== null),
+  ];
+  const prices = await getMultipleItemPrices(names, { exactOnly: true });
+  return Object.fromEntries(names.map((name) => [name, prices[name]?.avgPrice ?? null]));
+}
+
+/**
+ * Plan a herb, tree or fruit tree run: the best crop for the goal (or the one asked for)
+ * at every unlocked patch, with the patches still locked and what they need
+ */
+export async function planFarmRun(
+  type: FarmRunType,
+  state: FarmingPlayerState,
+  options: { goal?: FarmRunGoal; crop?: string; compost?: CompostType } = {}
+): Promise<FarmRunPlan | { error: string }> {
+  const { goal = type === 'herb' ? 'profit' : 'xp', compost = 'ultracompost' } = options;
+  const farming = state.levels.farming ?? 1;
+  if (state.rules && !state.rules.membersContent) {
+    return { error: 'Herb, tree and fruit tree patches are members only.' };
+  }
+
+  const growable = CROPS.filter((c) => c.type === type && c.level <= farming);
+  if (growable.length === 0) {
+    const first = CROPS.find((c) => c.type === type)!;
+    return { error: `${first.name} ${type === 'herb' ? 'seeds need' : 'trees need'} ${first.level} Farming (have ${farming}).` };
+  }
+
+  const { stops, locked } = availablePatches(type, state);
+  if (stops.length === 0) {
+    return { error: 'No patches of this type are unlocked yet.' };
+  }
+
+  const prices = await getFarmingPrices(type);
+  const evaluated = growable.map((crop) => ({ crop, run: evaluateRun(crop, stops, compost, prices) }));
+  evaluated.sort((a, b) => goal === 'profit'
+    ? (b.run.profitPerRun ?? -Infinity) - (a.run.profitPerRun ?? -Infinity)
+    : b.run.xpPerRun - a.run.xpPerRun);
+
+  let chosen = evaluated[0];
+  if (options.crop) {
+    const requested = findCrop(options.crop, type);
+    if (!requested) return { error: `Unknown ${type.replace('_', ' ')} crop "${options.crop}".` };
+    if (requested.level > farming) return { error: `${requested.name} needs ${requested.level} Farming (have ${farming}).` };
+    chosen = evaluated.find((e) => e.crop === requested)!;
+  }
+
+  return {
+    type,
+    crop: chosen.crop,
+    compost,
+    locked,
+    growthMinutes: chosen.crop.growthMinutes,
+    runMinutes: Math.round(stops.length * MINUTES_PER_STOP[type]),
+    ...chosen.run,
+    alternatives: evaluated
+      .filter((e) => e !== chosen)
+      .slice(0, 3)
+      .map((e) => ({ crop: e.crop.name, xpPerRun: e.run.xpPerRun, profitPerRun: e.run.profitPerRun })),
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function formatGrowth(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+}
+
+/**
+ * Format a farm run plan for the AI
+ */
+export function formatFarmRunPlan(plan: FarmRunPlan, ironman = false): string {
+  const label = plan.type === 'herb' ? 'Herb' : plan.type === 'tree' ? 'Tree' : 'Fruit tree';
+  const lines = [
+    `## ${label} run: ${plan.crop.name} (${plan.stops.length} patches)`,
+    `- **Grows in:** ${formatGrowth(plan.growthMinutes)} · run takes ~${plan.runMinutes} min`,
+    `- **XP per run:** ${plan.xpPerRun.toLocaleString()}`,
+  ];
+
+  if (plan.type === 'herb') {
+    lines.push(`- **Expected yield:** ${plan.expectedYield} ${plan.crop.produce} with ${plan.compost === 'none' ? 'no compost' : plan.compost}`);
+  }
+  lines.push(`- **Seeds${plan.compostPrice !== null ? ' + compost' : ''}:** ${formatPrice(plan.costPerRun)} per run (${plan.crop.seed} ${formatPrice(plan.seedPrice)} each)`);
+  if (plan.profitPerRun !== null) {
+    lines.push(`- **Profit per run:** ${formatPrice(plan.profitPerRun)} (${plan.crop.produce} ${formatPrice(plan.producePrice)} each)${ironman ? ' — GE value' : ''}`);
+  }
+  if (plan.crop.protection) {
+    lines.push(`- **Protection payment:** ${plan.crop.protection} per patch (not priced)`);
+  }
+
+  lines.push('', '### Route');
+  plan.stops.forEach((s, i) => {
+    const notes = [
+      s.diseaseFree ? 'disease-free' : null,
+      s.assumes.length > 0 ? `needs ${s.assumes.join(', ')}` : null,
+    ].filter(Boolean);
+    lines.push(`${i + 1}. **${s.location}** — ${s.travel}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`);
+  });
+
+  if (plan.locked.length > 0) {
+    lines.push('', `Locked patches: ${plan.locked.map((l) => `${l.location} (${l.missing.join(', ')})`).join(', ')}`);
+  }
+
+  if (plan.alternatives.length > 0) {
+    lines.push('', `Alternatives: ${plan.alternatives.map((a) =>
+      `${a.crop} (${a.xpPerRun.toLocaleString()} XP${a.profitPerRun !== null ? `, ${formatPrice(a.profitPerRun)}` : ''})`
+    ).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+/**
+ * Fuzzy Matching Helpers
+ * String similarity scoring used to resolve loosely typed item names.
+ */
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit-distance similarity normalised to 0-1
+ */
+export function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Split a name into lowercase word tokens, dropping punctuation
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Fraction of query tokens found in the candidate (prefix matches count, typos count half)
+ */
+export function tokenOverlap(queryTokens: string[], candidateTokens: string[]): number {
+  if (queryTokens.length === 0) return 0;
+  let matched = 0;
+  for (const q of queryTokens) {
+    if (candidateTokens.some((c) => c === q)) {
+      matched += 1;
+    } else if (candidateTokens.some((c) => c.startsWith(q) || q.startsWith(c))) {
+      matched += 0.8;
+    } else if (candidateTokens.some((c) => q.length > 3 && editSimilarity(q, c) >= 0.75)) {
+      matched += 0.5;
+    }
+  }
+  return matched / queryTokens.length;
+}
+
+/**
+ * Score how well a candidate name matches a query (0-1).
+ * Combines whole-string edit similarity with token overlap, and penalises extra words
+ * in the candidate so "whip" prefers "Abyssal whip" over "Abyssal whip (or)".
+ */
+export function scoreNameMatch(query: string, candidate: string): number {
+  const q = query.toLowerCase().trim();
+  const c = candidate.toLowerCase().trim();
+  if (q === c) return 1;
+
+  const queryTokens = tokenize(q);
+  const candidateTokens = tokenize(c);
+  const overlap = tokenOverlap(queryTokens, candidateTokens);
+  const similarity = editSimilarity(q, c);
+  // Reverse coverage: how much of the candidate the query accounts for
+  const coverage = candidateTokens.length > 0
+    ? tokenOverlap(candidateTokens, queryTokens)
+    : 0;
+
+  return Math.min(0.99, overlap * 0.55 + coverage * 0.25 + similarity * 0.2);
+}
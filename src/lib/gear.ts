@@ -0,0 +1,313 @@
+/**
+ * Gear Setup Module
+ * Prices a full equipment loadout, flags untradeable pieces with how to obtain them,
+ * and skips items the player already owns.
+ */
+
+import {
+  getItemPrice,
+  getWikiWikitext,
+  formatPrice,
+  LOW_CONFIDENCE_THRESHOLD,
+} from './osrs';
+import { parseInfoboxes, findTemplates, stripMarkup, parseWikiNumber } from './wikitext';
+import { SKILL_NAMES } from './xp';
+import { extractObtainedItems } from './parser';
+import type { CollectionLogData } from './types';
+
+// ============================================
+// Constants
+// ============================================
+
+export const GEAR_SLOTS = [
+  'head', 'cape', 'neck', 'ammo', 'weapon', 'body', 'shield', 'legs', 'hands', 'feet', 'ring',
+] as const;
+
+export type GearSlot = (typeof GEAR_SLOTS)[number];
+
+// Common slot names people type -> equipment slot
+const SLOT_ALIASES: Record<string, GearSlot> = {
+  helm: 'head', helmet: 'head', hat: 'head',
+  back: 'cape',
+  amulet: 'neck', necklace: 'neck', ammy: 'neck',
+  arrows: 'ammo', bolts: 'ammo', quiver: 'ammo',
+  mainhand: 'weapon', wep: 'weapon',
+  chest: 'body', top: 'body', torso: 'body',
+  offhand: 'shield', 'off-hand': 'shield', defender: 'shield',
+  bottom: 'legs', bottoms: 'legs',
+  gloves: 'hands', bracelet: 'hands',
+  boots: 'feet',
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface GearEntry {
+  slot: GearSlot | null;
+  item: string;
+}
+
+export interface AcquisitionInfo {
+  /** Skill levels needed to make or obtain the item */
+  skills: { skill: string; level: number }[];
+  /** Materials from Infobox Recipe (e.g. "Fire cape", "Tokkul") */
+  materials: string[];
+  /** Quest the item belongs to, if it is a quest item */
+  questItem: string | null;
+  /** Lead paragraph of the item's Wiki page */
+  summary: string | null;
+}
+
+/** 'uncertain': only a weak GE name match, priced but left out of the totals until confirmed */
+export type GearItemStatus = 'priced' | 'owned' | 'uncertain' | 'untradeable' | 'not_found';
+
+export interface PricedGearItem {
+  slot: GearSlot | null;
+  /** Name as the user entered it */
+  query: string;
+  itemName: string;
+  status: GearItemStatus;
+  /** Average GE price, also set for owned items so their value can be shown */
+  price: number | null;
+  matchConfidence: number | null;
+  alternatives: string[];
+  acquisition: AcquisitionInfo | null;
+  wikiUrl: string;
+}
+
+export interface GearSetupCost {
+  items: PricedGearItem[];
+  /** GE cost of every tradeable piece with a confident name match */
+  totalCost: number;
+  /** Value of pieces the player already owns */
+  ownedValue: number;
+  /** totalCost − ownedValue: what the player still needs to spend */
+  remainingCost: number;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Map a typed slot name ("helm", "Boots", "off-hand") to an equipment slot
+ */
+export function normalizeSlot(slot: string): GearSlot | null {
+  const key = slot.toLowerCase().trim();
+  if ((GEAR_SLOTS as readonly string[]).includes(key)) return key as GearSlot;
+  return SLOT_ALIASES[key] ?? null;
+}
+
+/**
+ * Parse a pasted gear list. Accepts one item per line or comma-separated items,
+ * optionally prefixed with a slot ("Head: Neitiznot faceguard", "- Weapon - Abyssal whip").
+ */
+export function parseGearList(text: string): GearEntry[] {
+  const entries: GearEntry[] = [];
+
+  for (const rawLine of text.split(/[\n,]/)) {
+    const line = rawLine.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim();
+    if (!line) continue;
+
+    const slotMatch = line.match(/^([a-z-]+)\s*[:=\-–]\s*(.+)$/i);
+    const slot = slotMatch ? normalizeSlot(slotMatch[1]) : null;
+    const item = slot && slotMatch ? slotMatch[2].trim() : line;
+    if (item) entries.push({ slot, item });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse how an untradeable item is obtained from its Wiki page
+ */
+export function parseAcquisition(wikitext: string): AcquisitionInfo {
+  const infobox = parseInfoboxes(wikitext).items[0];
+  const skills: AcquisitionInfo['skills'] = [];
+  const materials: string[] = [];
+
+  for (const recipe of findTemplates(wikitext, 'Infobox Recipe')) {
+    for (let i = 1; recipe.params[`skill${i}`]; i++) {
+      const skill = stripMarkup(recipe.params[`skill${i}`]);
+      const level = parseWikiNumber(recipe.params[`skill${i}lvl`]);
+      if (skill && level !== null) skills.push({ skill, level });
+    }
+    for (let i = 1; recipe.params[`mat${i}`]; i++) {
+      materials.push(stripMarkup(recipe.params[`mat${i}`]));
+    }
+  }
+
+  const summary = leadSummary(wikitext);
+  for (const req of leadRequirements(summary)) {
+    if (!skills.some((s) => s.skill.toLowerCase() === req.skill.toLowerCase())) skills.push(req);
+  }
+
+  return { skills, materials, questItem: infobox?.questItem ?? null, summary };
+}
+
+/**
+ * Lead section: everything before the first heading, minus templates
+ */
+function leadSummary(wikitext: string): string | null {
+  const lead = stripMarkup(wikitext.split(/\n==/)[0]);
+  return lead ? lead.slice(0, 500) : null;
+}
+
+/**
+ * Requirements mentioned in prose ("requires 75 Attack to wield")
+ */
+function leadRequirements(summary: string | null): { skill: string; level: number }[] {
+  if (!summary) return [];
+  return SKILL_NAMES.flatMap((skill) => {
+    const match = summary.match(new RegExp(`(\\d{1,2})\\s+${skill}\\b`, 'i'));
+    return match ? [{ skill: skill.charAt(0).toUpperCase() + skill.slice(1), level: parseInt(match[1], 10) }] : [];
+  });
+}
+
+/**
+ * Skill levels needed to equip each item, read from the lead of its Wiki page
+ */
+export async function fetchWieldRequirements(
+  itemNames: string[]
+): Promise<{ item: string; skill: string; level: number }[]> {
+  const requirements: { item: string; skill: string; level: number }[] = [];
+
+  // Sequential — getWikiWikitext is rate limited anyway
+  for (const item of new Set(itemNames)) {
+    const wikitext = await getWikiWikitext(item);
+    if (!wikitext) continue;
+    requirements.push(...leadRequirements(leadSummary(wikitext)).map((req) => ({ item, ...req })));
+  }
+
+  return requirements;
+}
+
+// ============================================
+// Ownership
+// ============================================
+
+/**
+ * Lowercase names of every item the player owns, from the collection log and profile notable items
+ */
+export function buildOwnedItemSet(
+  collectionLog: CollectionLogData | null,
+  notableItems: string[] = []
+): Set<string> {
+  const owned = new Set(notableItems.map((name) => name.toLowerCase().trim()));
+  if (collectionLog) {
+    for (const item of extractObtainedItems(collectionLog)) {
+      owned.add(item.name.toLowerCase());
+    }
+  }
+  return owned;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+function wikiUrl(name: string): string {
+  return `https://oldschool.runescape.wiki/w/${encodeURIComponent(name)}`;
+}
+
+async function priceGearItem(entry: GearEntry, owned: Set<string>): Promise<PricedGearItem> {
+  const priceData = await getItemPrice(entry.item);
+  const confident = !!priceData && priceData.matchConfidence >= LOW_CONFIDENCE_THRESHOLD;
+
+  const base = {
+    slot: entry.slot,
+    query: entry.item,
+    matchConfidence: priceData?.matchConfidence ?? null,
+    alternatives: priceData?.alternatives.map((a) => a.itemName) ?? [],
+  };
+
+  // Weak or missing GE matches may be untradeables (the price mapping only lists tradeable items)
+  if (!confident) {
+    const wikitext = await getWikiWikitext(entry.item);
+    const infobox = wikitext ? parseInfoboxes(wikitext).items[0] : undefined;
+    if (wikitext && infobox?.tradeable === false) {
+      const itemName = infobox.name || entry.item;
+      return {
+        ...base,
+        itemName,
+        status: owned.has(itemName.toLowerCase()) || owned.has(entry.item.toLowerCase()) ? 'owned' : 'untradeable',
+        price: null,
+        acquisition: parseAcquisition(wikitext),
+        wikiUrl: wikiUrl(itemName),
+      };
+    }
+  }
+
+  if (!priceData) {
+    return {
+      ...base,
+      itemName: entry.item,
+      status: 'not_found',
+      price: null,
+      acquisition: null,
+      wikiUrl: wikiUrl(entry.item),
+    };
+  }
+
+  const isOwned = owned.has(entry.item.toLowerCase()) || (confident && owned.has(priceData.itemName.toLowerCase()));
+  return {
+    ...base,
+    itemName: priceData.itemName,
+    status: isOwned ? 'owned' : confident ? 'priced' : 'uncertain',
+    price: priceData.avgPrice,
+    acquisition: null,
+    wikiUrl: priceData.wikiUrl,
+  };
+}
+
+/**
+ * Price every piece of a gear setup and total the cost, subtracting owned items
+ */
+export async function priceGearSetup(
+  entries: GearEntry[],
+  owned: Set<string> = new Set()
+): Promise<GearSetupCost> {
+  const items = await Promise.all(entries.map((entry) => priceGearItem(entry, owned)));
+
+  const totalCost = items
+    .filter((item) => item.status !== 'uncertain')
+    .reduce((sum, item) => sum + (item.price ?? 0), 0);
+  const ownedValue = items
+    .filter((item) => item.status === 'owned')
+    .reduce((sum, item) => sum + (item.price ?? 0), 0);
+
+  return { items, totalCost, ownedValue, remainingCost: totalCost - ownedValue };
+}
+
+/**
+ * Format a gear setup cost breakdown for the AI
+ */
+export function formatGearSetupCost(setup: GearSetupCost): string {
+  const lines = setup.items.map((item) => {
+    const slot = item.slot ? `${item.slot.charAt(0).toUpperCase()}${item.slot.slice(1)}: ` : '';
+    switch (item.status) {
+      case 'priced':
+        return `- ${slot}**${item.itemName}** — ${formatPrice(item.price)} gp`;
+      case 'owned':
+        return `- ${slot}**${item.itemName}** — already owned${item.price !== null ? ` (${formatPrice(item.price)} gp)` : ''}`;
+      case 'uncertain':
+        return `- ${slot}**${item.query}** — unsure, closest match **${item.itemName}** (${formatPrice(item.price)} gp), not in the total`;
+      case 'untradeable': {
+        const skills = item.acquisition?.skills.map((s) => `${s.level} ${s.skill}`).join(', ');
+        return `- ${slot}**${item.itemName}** — untradeable${skills ? ` (requires ${skills})` : ''}`;
+      }
+      default:
+        return `- ${slot}**${item.query}** — not found`;
+    }
+  });
+
+  lines.push('');
+  lines.push(`**Total GE cost:** ${formatPrice(setup.totalCost)} gp`);
+  if (setup.ownedValue > 0) {
+    lines.push(`**Already owned:** ${formatPrice(setup.ownedValue)} gp`);
+    lines.push(`**Still to buy:** ${formatPrice(setup.remainingCost)} gp`);
+  }
+
+  return lines.join('\n');
+}
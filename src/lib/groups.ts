@@ -0,0 +1,334 @@
+/**
+ * Groups Module
+ * Clan tracking on top of Wise Old Man groups and competitions: group hiscores,
+ * gains leaderboards and current competition standings.
+ */
+
+import {
+  searchGroups,
+  getGroup,
+  getPlayerGroups,
+  getGroupHiscores,
+  getGroupGains,
+  getGroupCompetitions,
+  getCompetition,
+  getPlayerCompetitionStandings,
+  type WOMDateRange,
+} from './osrs';
+import type { WOMGroup, WOMGroupHiscoresEntry, WOMCompetition, WOMCompetitionDetails } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type CompetitionStatus = 'ongoing' | 'upcoming' | 'finished';
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  displayName: string;
+  value: number;
+  /** Skill level for skill hiscores */
+  level?: number;
+}
+
+export interface GroupLeaderboard {
+  group: Pick<WOMGroup, 'id' | 'name' | 'memberCount'>;
+  metric: string;
+  /** "gains" ranks by XP/KC gained over the period, "hiscores" by current totals */
+  mode: 'gains' | 'hiscores';
+  period: WOMDateRange['period'] | null;
+  entries: LeaderboardEntry[];
+}
+
+export interface CompetitionStanding {
+  rank: number;
+  username: string;
+  displayName: string;
+  gained: number;
+  start: number;
+  end: number;
+  teamName: string | null;
+}
+
+export interface TeamStanding {
+  name: string;
+  gained: number;
+  members: number;
+}
+
+export interface CompetitionStandings {
+  competition: WOMCompetition;
+  status: CompetitionStatus;
+  /** Top participants, highest gain first */
+  standings: CompetitionStanding[];
+  /** The requested player's standing, even if outside the top */
+  player: CompetitionStanding | null;
+  /** The participant one rank above the requested player */
+  nextAbove: CompetitionStanding | null;
+  /** Team totals for team competitions */
+  teams: TeamStanding[];
+}
+
+// ============================================
+// Groups
+// ============================================
+
+/**
+ * Resolve a group by WOM id or name (exact name or clan chat match preferred)
+ */
+export async function resolveGroup(query: string): Promise<WOMGroup | null> {
+  const trimmed = query.trim();
+  if (/^\d+$/.test(trimmed)) return getGroup(Number(trimmed));
+
+  const results = await searchGroups(trimmed);
+  if (!results || results.length === 0) return null;
+  const key = trimmed.toLowerCase();
+  return (
+    results.find((g) => g.name.toLowerCase() === key || g.clanChat?.toLowerCase() === key) ??
+    results[0]
+  );
+}
+
+/**
+ * The first WOM group a player belongs to
+ */
+export async function findPlayerGroup(username: string): Promise<WOMGroup | null> {
+  const memberships = await getPlayerGroups(username);
+  return memberships?.[0]?.group ?? null;
+}
+
+function hiscoresValue(entry: WOMGroupHiscoresEntry): { value: number; level?: number } {
+  switch (entry.data.type) {
+    case 'skill':
+      return { value: entry.data.experience, level: entry.data.level };
+    case 'boss':
+      return { value: entry.data.kills };
+    case 'activity':
+      return { value: entry.data.score };
+    case 'computed':
+      return { value: entry.data.value };
+  }
+}
+
+/**
+ * Rank a group's members by gains over a period, or by current hiscores
+ */
+export async function getGroupLeaderboard(
+  group: WOMGroup,
+  metric: string,
+  options: { mode?: 'gains' | 'hiscores'; period?: WOMDateRange['period']; limit?: number } = {}
+): Promise<GroupLeaderboard | null> {
+  const { mode = 'gains', period = 'week', limit = 20 } = options;
+  const base = { group: { id: group.id, name: group.name, memberCount: group.memberCount }, metric, mode };
+
+  if (mode === 'hiscores') {
+    const hiscores = await getGroupHiscores(group.id, metric, limit);
+    if (!hiscores) return null;
+    return {
+      ...base,
+      period: null,
+      entries: hiscores.map((entry, i) => ({
+        rank: i + 1,
+        username: entry.player.username,
+        displayName: entry.player.displayName,
+        ...hiscoresValue(entry),
+      })),
+    };
+  }
+
+  const gains = await getGroupGains(group.id, metric, { period }, limit);
+  if (!gains) return null;
+  return {
+    ...base,
+    period,
+    entries: gains
+      .filter((entry) => entry.data.gained > 0)
+      .map((entry, i) => ({
+        rank: i + 1,
+        username: entry.player.username,
+        displayName: entry.player.displayName,
+        value: entry.data.gained,
+      })),
+  };
+}
+
+// ============================================
+// Competitions
+// ============================================
+
+export function competitionStatus(competition: WOMCompetition, now = Date.now()): CompetitionStatus {
+  if (new Date(competition.startsAt).getTime() > now) return 'upcoming';
+  if (new Date(competition.endsAt).getTime() <= now) return 'finished';
+  return 'ongoing';
+}
+
+/**
+ * The competition members care about right now: an ongoing one (ending soonest),
+ * else the next upcoming, else the most recently finished
+ */
+export function pickCurrentCompetition(competitions: WOMCompetition[], metric?: string): WOMCompetition | null {
+  const pool = metric ? competitions.filter((c) => c.metric === metric) : competitions;
+  const byStatus = (status: CompetitionStatus) => pool.filter((c) => competitionStatus(c) === status);
+  const time = (date: string) => new Date(date).getTime();
+
+  return (
+    byStatus('ongoing').sort((a, b) => time(a.endsAt) - time(b.endsAt))[0] ??
+    byStatus('upcoming').sort((a, b) => time(a.startsAt) - time(b.startsAt))[0] ??
+    byStatus('finished').sort((a, b) => time(b.endsAt) - time(a.endsAt))[0] ??
+    null
+  );
+}
+
+// Drop the participant list so results stay small
+function summarizeCompetition(c: WOMCompetition): WOMCompetition {
+  return {
+    id: c.id,
+    title: c.title,
+    metric: c.metric,
+    type: c.type,
+    startsAt: c.startsAt,
+    endsAt: c.endsAt,
+    groupId: c.groupId,
+    participantCount: c.participantCount,
+    createdAt: c.createdAt,
+    updatedAt: c.updatedAt,
+  };
+}
+
+/**
+ * Standings for a competition, with a player's own rank and team totals
+ */
+export function buildStandings(
+  details: WOMCompetitionDetails,
+  username?: string,
+  limit = 10
+): CompetitionStandings {
+  const all = [...details.participations]
+    .sort((a, b) => b.progress.gained - a.progress.gained)
+    .map((p, i) => ({
+      rank: i + 1,
+      username: p.player.username,
+      displayName: p.player.displayName,
+      gained: p.progress.gained,
+      start: p.progress.start,
+      end: p.progress.end,
+      teamName: p.teamName,
+    }));
+
+  const teams = new Map<string, TeamStanding>();
+  if (details.type === 'team') {
+    for (const p of all) {
+      if (!p.teamName) continue;
+      const team = teams.get(p.teamName) ?? { name: p.teamName, gained: 0, members: 0 };
+      team.gained += p.gained;
+      team.members++;
+      teams.set(p.teamName, team);
+    }
+  }
+
+  const key = username?.toLowerCase();
+  const player = key ? all.find((p) => p.username === key || p.displayName.toLowerCase() === key) ?? null : null;
+  return {
+    competition: summarizeCompetition(details),
+    status: competitionStatus(details),
+    standings: all.slice(0, limit),
+    player,
+    nextAbove: player && player.rank > 1 ? all[player.rank - 2] : null,
+    teams: [...teams.values()].sort((a, b) => b.gained - a.gained),
+  };
+}
+
+/**
+ * Current competition standings for a group, optionally filtered to one metric
+ */
+export async function getCurrentCompetitionStandings(
+  group: WOMGroup,
+  options: { username?: string; metric?: string; limit?: number } = {}
+): Promise<CompetitionStandings | null> {
+  const competitions = await getGroupCompetitions(group.id);
+  const current = competitions ? pickCurrentCompetition(competitions, options.metric) : null;
+  if (!current) return null;
+
+  const details = await getCompetition(current.id);
+  return details ? buildStandings(details, options.username, options.limit) : null;
+}
+
+/**
+ * Standings in the ongoing competition a player is taking part in (any group),
+ * optionally the one for a given metric
+ */
+export async function getPlayerCurrentCompetition(
+  username: string,
+  options: { metric?: string; limit?: number } = {}
+): Promise<CompetitionStandings | null> {
+  const entered = await getPlayerCompetitionStandings(username, 'ongoing');
+  const current = entered ? pickCurrentCompetition(entered.map((e) => e.competition), options.metric) : null;
+  if (!current) return null;
+
+  const details = await getCompetition(current.id);
+  return details ? buildStandings(details, username, options.limit) : null;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function label(metric: string): string {
+  return metric.replace(/_/g, ' ');
+}
+
+/**
+ * Format a group leaderboard for the AI
+ */
+export function formatGroupLeaderboard(board: GroupLeaderboard): string {
+  const heading = board.mode === 'gains'
+    ? `## ${board.group.name} — ${label(board.metric)} gained (${board.period})`
+    : `## ${board.group.name} — ${label(board.metric)} hiscores`;
+  const lines = [heading, ''];
+
+  if (board.entries.length === 0) {
+    lines.push(board.mode === 'gains' ? 'No members gained anything in this period.' : 'No ranked members.');
+    return lines.join('\n');
+  }
+
+  for (const e of board.entries) {
+    const level = e.level !== undefined ? ` (lvl ${e.level})` : '';
+    lines.push(`${e.rank}. **${e.displayName}** — ${board.mode === 'gains' ? '+' : ''}${e.value.toLocaleString()}${level}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format competition standings for the AI
+ */
+export function formatCompetitionStandings(result: CompetitionStandings): string {
+  const c = result.competition;
+  const lines = [
+    `## ${c.title} (${label(c.metric)}, ${result.status})`,
+    `${new Date(c.startsAt).toISOString().slice(0, 10)} → ${new Date(c.endsAt).toISOString().slice(0, 10)} · ${c.participantCount} participants`,
+    '',
+  ];
+
+  if (result.teams.length > 0) {
+    lines.push('### Teams');
+    result.teams.forEach((t, i) => lines.push(`${i + 1}. **${t.name}** — +${t.gained.toLocaleString()} (${t.members} members)`));
+    lines.push('');
+  }
+
+  lines.push('### Standings');
+  for (const s of result.standings) {
+    lines.push(`${s.rank}. **${s.displayName}** — +${s.gained.toLocaleString()}${s.teamName ? ` [${s.teamName}]` : ''}`);
+  }
+
+  if (result.player) {
+    const ahead = result.nextAbove;
+    lines.push(
+      '',
+      `**${result.player.displayName}** is rank ${result.player.rank} with +${result.player.gained.toLocaleString()}` +
+      (ahead ? ` (${(ahead.gained - result.player.gained).toLocaleString()} behind ${ahead.displayName})` : '')
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,303 @@
+/**
+ * Official Hiscores Module
+ * Client for the Jagex OSRS hiscores `index_lite` endpoints (per game mode), parsed into
+ * the Wise Old Man snapshot shape so player stats still load when WOM errors or is
+ * rate limited.
+ */
+
+import { lookupWomPlayer, trackPlayer, updatePlayerStats } from './osrs';
+import { levelsFromSkills } from './dps';
+import { toWomMetric } from './milestones';
+import { metricKind } from './timeline';
+import { SKILL_NAMES } from './xp';
+import type { GameMode, WOMPlayer, WOMPlayerDetails, WOMSnapshot } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type HiscoresMode = 'regular' | 'ironman' | 'hardcore' | 'ultimate';
+
+export type StatsSource = 'wom' | 'hiscores';
+
+export interface HiscoresJson {
+  skills: { id: number; name: string; rank: number; level: number; xp: number }[];
+  activities: { id: number; name: string; rank: number; score: number }[];
+}
+
+export interface PlayerStatsResult {
+  stats: WOMPlayerDetails;
+  source: StatsSource;
+  /** When the source last captured the data (WOM's last update, or the hiscores fetch time) */
+  updatedAt: string;
+  /** Data older than STALE_AFTER_MS */
+  stale: boolean;
+  /** Why WOM wasn't used, when the data came from the official hiscores */
+  fallbackReason: string | null;
+}
+
+/** What the player API reports alongside the stats */
+export type StatsFreshness = Omit<PlayerStatsResult, 'stats'>;
+
+// ============================================
+// Constants
+// ============================================
+
+const HISCORES_BASE_URL = 'https://secure.runescape.com';
+
+// Group ironmen are ranked on the main hiscores
+const HISCORES_PATHS: Record<HiscoresMode, string> = {
+  regular: 'm=hiscore_oldschool',
+  ironman: 'm=hiscore_oldschool_ironman',
+  hardcore: 'm=hiscore_oldschool_hardcore_ironman',
+  ultimate: 'm=hiscore_oldschool_ultimate',
+};
+
+// Hiscores names that don't slug to their WOM metric
+const METRIC_ALIASES: Record<string, string> = {
+  lms_rank: 'last_man_standing',
+  pvp_arena_rank: 'pvp_arena',
+  rifts_closed: 'guardians_of_the_rift',
+  tombs_of_amascut_expert_mode: 'tombs_of_amascut_expert',
+};
+
+// Hiscores entries WOM doesn't track
+const IGNORED_METRICS = new Set(['deadman_points', 'bounty_hunter_legacy_hunter', 'bounty_hunter_legacy_rogue']);
+
+export const STALE_AFTER_MS = 86400000; // 24 hours
+
+// ============================================
+// Parsing
+// ============================================
+
+export function hiscoresMode(mode: GameMode | null | undefined): HiscoresMode {
+  if (mode === 'ironman' || mode === 'hardcore' || mode === 'ultimate') return mode;
+  return 'regular';
+}
+
+function hiscoresMetric(name: string): string {
+  const slug = toWomMetric(name);
+  return METRIC_ALIASES[slug] ?? slug;
+}
+
+/**
+ * Official combat level formula
+ */
+export function combatLevel(skills: WOMSnapshot['data']['skills']): number {
+  const levels = levelsFromSkills(skills);
+  const base = 0.25 * (levels.defence + levels.hitpoints + Math.floor(levels.prayer / 2));
+  const melee = 0.325 * (levels.attack + levels.strength);
+  const ranged = 0.325 * Math.floor(levels.ranged * 1.5);
+  const magic = 0.325 * Math.floor(levels.magic * 1.5);
+  return Math.floor(base + Math.max(melee, ranged, magic));
+}
+
+/**
+ * Parse the `index_lite.json` response. Unranked entries keep the hiscores' -1, as WOM does.
+ */
+export function parseHiscoresJson(json: HiscoresJson): WOMSnapshot['data'] {
+  const data: WOMSnapshot['data'] = { skills: {}, bosses: {}, activities: {}, computed: {} };
+
+  for (const skill of json.skills) {
+    const metric = hiscoresMetric(skill.name);
+    data.skills[metric] = {
+      metric,
+      experience: skill.xp,
+      rank: skill.rank,
+      level: metric === 'hitpoints' ? Math.max(skill.level, 10) : skill.level,
+      ehp: 0,
+    };
+  }
+
+  for (const entry of json.activities) {
+    const metric = hiscoresMetric(entry.name);
+    if (IGNORED_METRICS.has(metric)) continue;
+    if (metricKind(metric) === 'activity') {
+      data.activities[metric] = { metric, score: entry.score, rank: entry.rank };
+    } else {
+      data.bosses[metric] = { metric, kills: entry.score, rank: entry.rank, ehb: 0 };
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Parse the `index_lite.ws` CSV response. Its lines carry no names, so only skills are
+ * read (their order is fixed: overall, then the in-game skill order); activity and boss
+ * lines are ignored because Jagex reorders them as content is added.
+ */
+export function parseHiscoresCsv(csv: string): WOMSnapshot['data'] {
+  const lines = csv.trim().split('\n');
+  const data: WOMSnapshot['data'] = { skills: {}, bosses: {}, activities: {}, computed: {} };
+
+  ['overall', ...SKILL_NAMES].forEach((metric, i) => {
+    const [rank, level, xp] = (lines[i] ?? '').split(',').map(Number);
+    if ([rank, level, xp].some((n) => n === undefined || Number.isNaN(n))) return;
+    data.skills[metric] = {
+      metric,
+      experience: xp,
+      rank,
+      level: metric === 'hitpoints' ? Math.max(level, 10) : level,
+      ehp: 0,
+    };
+  });
+
+  return data;
+}
+
+/**
+ * Account type to report for hiscores data. Every account is ranked on the main hiscores,
+ * so the table read says nothing about the mode unless the caller named it.
+ */
+export function hiscoresAccountType(mode: GameMode | null | undefined): WOMPlayer['type'] {
+  if (mode === 'regular' || mode === 'ironman' || mode === 'hardcore' || mode === 'ultimate') return mode;
+  return 'unknown';
+}
+
+/**
+ * Wrap parsed hiscores data as WOM player details. WOM-only values (EHP, EHB, TTM) are 0.
+ */
+export function toPlayerDetails(
+  username: string,
+  data: WOMSnapshot['data'],
+  type: WOMPlayer['type'],
+  fetchedAt: string
+): WOMPlayerDetails {
+  return {
+    id: 0,
+    username: username.toLowerCase(),
+    displayName: username,
+    type,
+    build: 'main',
+    country: null,
+    status: 'active',
+    exp: Math.max(data.skills.overall?.experience ?? 0, 0),
+    ehp: 0,
+    ehb: 0,
+    ttm: 0,
+    tt200m: 0,
+    registeredAt: fetchedAt,
+    updatedAt: fetchedAt,
+    lastChangedAt: null,
+    lastImportedAt: null,
+    combatLevel: combatLevel(data.skills),
+    latestSnapshot: { id: 0, playerId: 0, createdAt: fetchedAt, importedAt: null, data },
+  };
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+/**
+ * Fetch a player from the official hiscores, preferring the JSON endpoint and falling
+ * back to the CSV one for skills. Returns null if the player isn't ranked.
+ * Without a game mode the main hiscores are read and the account type is "unknown".
+ */
+export async function getHiscoresPlayer(username: string, mode: GameMode | null = null): Promise<WOMPlayerDetails | null> {
+  const base = `${HISCORES_BASE_URL}/${HISCORES_PATHS[hiscoresMode(mode)]}`;
+  const type = hiscoresAccountType(mode);
+  const player = encodeURIComponent(username);
+  const fetchedAt = new Date().toISOString();
+  const options = {
+    headers: {
+      'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+    },
+    next: { revalidate: 60 }, // Cache for 60 seconds
+  };
+
+  try {
+    const response = await fetch(`${base}/index_lite.json?player=${player}`, options);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Hiscores error: ${response.status}`);
+    }
+    return toPlayerDetails(username, parseHiscoresJson(await response.json()), type, fetchedAt);
+  } catch (error) {
+    console.error('Error fetching hiscores JSON, trying CSV:', error);
+  }
+
+  try {
+    const response = await fetch(`${base}/index_lite.ws?player=${player}`, options);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Hiscores error: ${response.status}`);
+    }
+    return toPlayerDetails(username, parseHiscoresCsv(await response.text()), type, fetchedAt);
+  } catch (error) {
+    console.error('Error fetching hiscores CSV:', error);
+    return null;
+  }
+}
+
+function withFreshness(
+  stats: WOMPlayerDetails,
+  source: StatsSource,
+  fallbackReason: string | null = null
+): PlayerStatsResult {
+  return {
+    stats,
+    source,
+    updatedAt: stats.updatedAt,
+    stale: Date.now() - new Date(stats.updatedAt).getTime() > STALE_AFTER_MS,
+    fallbackReason,
+  };
+}
+
+/**
+ * Player stats from Wise Old Man, tracking unknown players there first, and from the
+ * official hiscores when WOM is erroring or rate limited. The game mode picks which
+ * hiscores to read (defaults to the main hiscores, where every account is ranked).
+ */
+export async function getPlayerStatsWithSource(
+  username: string,
+  mode?: GameMode | null
+): Promise<PlayerStatsResult | null> {
+  const lookup = await lookupWomPlayer(username);
+  if (lookup.status === 'found') return withFreshness(lookup.player, 'wom');
+
+  let reason = lookup.status === 'unavailable' ? lookup.reason : null;
+  if (lookup.status === 'not_found') {
+    const tracked = await trackPlayer(username);
+    if (tracked) return withFreshness(tracked, 'wom');
+    reason = 'Player is not tracked on Wise Old Man and tracking failed';
+  }
+
+  const hiscores = await getHiscoresPlayer(username, mode);
+  return hiscores ? withFreshness(hiscores, 'hiscores', reason) : null;
+}
+
+/**
+ * Refresh a player on Wise Old Man. When the update fails, WOM's existing data is kept
+ * (it has EHP, EHB, build and type the hiscores lack); the official hiscores are only
+ * used when WOM has nothing for the player.
+ */
+export async function updatePlayerStatsWithSource(
+  username: string,
+  mode?: GameMode | null
+): Promise<PlayerStatsResult | null> {
+  const updated = await updatePlayerStats(username);
+  if (updated) return withFreshness(updated, 'wom');
+
+  const lookup = await lookupWomPlayer(username);
+  if (lookup.status === 'found') return withFreshness(lookup.player, 'wom');
+
+  const hiscores = await getHiscoresPlayer(username, mode);
+  return hiscores ? withFreshness(hiscores, 'hiscores', 'Wise Old Man update failed') : null;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Short "where this data came from" line for the AI
+ */
+export function formatStatsSource(result: PlayerStatsResult): string {
+  const when = new Date(result.updatedAt).toISOString().slice(0, 16).replace('T', ' ');
+  if (result.source === 'hiscores') {
+    return `_Source: official hiscores (fetched ${when} UTC) — Wise Old Man unavailable${result.fallbackReason ? ` (${result.fallbackReason})` : ''}, so EHP/EHB, build${result.stats.type === 'unknown' ? ', account type' : ''} and gains are missing._`;
+  }
+  return `_Source: Wise Old Man (last updated ${when} UTC)${result.stale ? ' — over a day old, suggest a stats refresh' : ''}._`;
+}
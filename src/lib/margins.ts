@@ -0,0 +1,160 @@
+/**
+ * Flipping Margins Module
+ * Post-tax margin, ROI and buy-limit profit calculations on top of the live price caches.
+ */
+
+import {
+  getLatestPrices,
+  getVolumeData,
+  getItemMetadataStore,
+  calculateGeTax,
+  formatPrice,
+} from './osrs';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FlipCandidate {
+  itemId: number;
+  itemName: string;
+  /** Price to place the buy offer at (latest instant-sell price) */
+  buyPrice: number;
+  /** Price to place the sell offer at (latest instant-buy price) */
+  sellPrice: number;
+  tax: number;
+  /** Profit per item after tax */
+  margin: number;
+  /** Margin as a percentage of the buy price */
+  roi: number;
+  buyLimit: number | null;
+  /** Items that fit the limit and capital constraints */
+  quantity: number;
+  capitalRequired: number;
+  /** margin × quantity, i.e. profit per 4-hour buy limit window */
+  profitPerLimit: number;
+  hourlyVolume: number;
+  /** Minutes since the older of the two latest trades */
+  priceAgeMinutes: number;
+}
+
+export interface FlipFilters {
+  minVolume?: number;
+  maxCapital?: number;
+  minMargin?: number;
+  minRoi?: number;
+  /** Ignore prices older than this many minutes (default 60) */
+  maxPriceAgeMinutes?: number;
+  sortBy?: 'profit' | 'margin' | 'roi';
+  limit?: number;
+}
+
+// ============================================
+// Margin Calculations
+// ============================================
+
+/**
+ * Compute a flip's post-tax margin, ROI and profit per buy limit
+ */
+export function computeFlip(
+  itemId: number,
+  itemName: string,
+  buyPrice: number,
+  sellPrice: number,
+  buyLimit: number | null,
+  hourlyVolume: number,
+  priceAgeMinutes: number,
+  maxCapital?: number
+): FlipCandidate {
+  const tax = calculateGeTax(sellPrice, itemName);
+  const margin = sellPrice - buyPrice - tax;
+  const roi = buyPrice > 0 ? Math.round((margin / buyPrice) * 10000) / 100 : 0;
+
+  // Unknown limits are treated as one item so profit is never overstated
+  let quantity = buyLimit ?? 1;
+  if (maxCapital !== undefined && buyPrice > 0) {
+    quantity = Math.min(quantity, Math.floor(maxCapital / buyPrice));
+  }
+
+  return {
+    itemId,
+    itemName,
+    buyPrice,
+    sellPrice,
+    tax,
+    margin,
+    roi,
+    buyLimit,
+    quantity,
+    capitalRequired: quantity * buyPrice,
+    profitPerLimit: quantity * margin,
+    hourlyVolume,
+    priceAgeMinutes,
+  };
+}
+
+/**
+ * Rank every tradeable item by flip profitability, using the cached /latest, /1h and /mapping data
+ */
+export async function findFlips(filters: FlipFilters = {}): Promise<FlipCandidate[]> {
+  const {
+    minVolume = 0,
+    maxCapital,
+    minMargin = 1,
+    minRoi = 0,
+    maxPriceAgeMinutes = 60,
+    sortBy = 'profit',
+    limit = 10,
+  } = filters;
+
+  const [prices, volumes, store] = await Promise.all([
+    getLatestPrices(),
+    getVolumeData(),
+    getItemMetadataStore(),
+  ]);
+
+  const nowSeconds = Date.now() / 1000;
+  const candidates: FlipCandidate[] = [];
+
+  for (const [id, price] of Object.entries(prices)) {
+    const itemId = Number(id);
+    const item = store.byId.get(itemId);
+    if (!item || !price.high || !price.low || !price.highTime || !price.lowTime) continue;
+
+    const priceAgeMinutes = Math.round((nowSeconds - Math.min(price.highTime, price.lowTime)) / 60);
+    if (priceAgeMinutes > maxPriceAgeMinutes) continue;
+
+    const volume = volumes[itemId];
+    const hourlyVolume = volume ? (volume.highPriceVolume || 0) + (volume.lowPriceVolume || 0) : 0;
+    if (hourlyVolume < minVolume) continue;
+
+    const flip = computeFlip(itemId, item.name, price.low, price.high, item.buyLimit, hourlyVolume, priceAgeMinutes, maxCapital);
+    if (flip.quantity < 1 || flip.margin < minMargin || flip.roi < minRoi) continue;
+
+    candidates.push(flip);
+  }
+
+  const sortKey: Record<NonNullable<FlipFilters['sortBy']>, (f: FlipCandidate) => number> = {
+    profit: (f) => f.profitPerLimit,
+    margin: (f) => f.margin,
+    roi: (f) => f.roi,
+  };
+  candidates.sort((a, b) => sortKey[sortBy](b) - sortKey[sortBy](a));
+
+  return candidates.slice(0, limit);
+}
+
+/**
+ * Format flip candidates for the AI
+ */
+export function formatFlipList(flips: FlipCandidate[]): string {
+  if (flips.length === 0) return 'No flips matched the filters.';
+
+  return flips
+    .map((f, i) =>
+      `${i + 1}. **${f.itemName}** — buy ${formatPrice(f.buyPrice)}, sell ${formatPrice(f.sellPrice)}, ` +
+      `margin ${formatPrice(f.margin)} after ${formatPrice(f.tax)} tax (${f.roi}% ROI), ` +
+      `${formatPrice(f.profitPerLimit)} per ${f.quantity.toLocaleString()}-item limit, ${f.hourlyVolume.toLocaleString()}/hr volume`
+    )
+    .join('\n');
+}
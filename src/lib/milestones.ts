@@ -0,0 +1,137 @@
+/**
+ * Player Milestones Module
+ * Combines Wise Old Man achievements, records and achievement progress to answer
+ * "when did I get X", "what's my best week" and "what am I closest to next".
+ */
+
+import {
+  getPlayerAchievements,
+  getPlayerAchievementProgress,
+  getPlayerRecords,
+} from './osrs';
+import type { WOMAchievement, WOMAchievementProgress, WOMRecord, WOMPeriod } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PlayerMilestones {
+  username: string;
+  metric: string | null;
+  /** Reached achievements, newest first (unknown dates last) */
+  achievements: WOMAchievement[];
+  /** Best gains per period, best first within each period */
+  records: WOMRecord[];
+  /** Unreached achievements closest to completion */
+  nextMilestones: WOMAchievementProgress[];
+}
+
+export interface MilestoneQuery {
+  /** Skill, boss or activity, e.g. "Slayer", "Vorkath", "overall" */
+  metric?: string;
+  period?: WOMPeriod;
+  limit?: number;
+}
+
+const PERIOD_ORDER: WOMPeriod[] = ['five_min', 'day', 'week', 'month', 'year'];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Convert a display name to a WOM metric key ("Chambers of Xeric" -> "chambers_of_xeric")
+ */
+export function toWomMetric(name: string): string {
+  return name.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * WOM stores achievements reached before tracking began with an epoch date
+ */
+export function hasKnownDate(achievement: Pick<WOMAchievement, 'createdAt'>): boolean {
+  return new Date(achievement.createdAt).getTime() > 0;
+}
+
+function formatValue(value: number, measure: string): string {
+  if (measure === 'experience') return `${value.toLocaleString()} XP`;
+  if (measure === 'kills') return `${value.toLocaleString()} KC`;
+  return value.toLocaleString();
+}
+
+// ============================================
+// Milestones
+// ============================================
+
+/**
+ * Fetch and filter a player's achievements, records and next milestones
+ */
+export async function getPlayerMilestones(
+  username: string,
+  query: MilestoneQuery = {}
+): Promise<PlayerMilestones | null> {
+  const { limit = 10 } = query;
+  const metric = query.metric ? toWomMetric(query.metric) : null;
+
+  const [achievements, progress, records] = await Promise.all([
+    getPlayerAchievements(username),
+    getPlayerAchievementProgress(username),
+    getPlayerRecords(username, { period: query.period, metric: metric ?? undefined }),
+  ]);
+  if (!achievements && !progress && !records) return null;
+
+  const reached = (achievements ?? [])
+    .filter((a) => !metric || a.metric === metric)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const next = (progress ?? [])
+    .filter((p) => p.createdAt === null && p.relativeProgress > 0 && (!metric || p.metric === metric))
+    .sort((a, b) => b.relativeProgress - a.relativeProgress);
+
+  const sortedRecords = (records ?? [])
+    .filter((r) => r.value > 0)
+    .sort((a, b) => PERIOD_ORDER.indexOf(a.period) - PERIOD_ORDER.indexOf(b.period) || b.value - a.value);
+
+  return {
+    username,
+    metric,
+    achievements: reached.slice(0, limit),
+    records: sortedRecords.slice(0, metric ? PERIOD_ORDER.length : limit * 2),
+    nextMilestones: next.slice(0, limit),
+  };
+}
+
+/**
+ * Format milestones for the AI
+ */
+export function formatMilestones(milestones: PlayerMilestones): string {
+  const lines: string[] = [`## Milestones for ${milestones.username}${milestones.metric ? ` (${milestones.metric})` : ''}`, ''];
+
+  if (milestones.achievements.length > 0) {
+    lines.push('### Achievements');
+    for (const a of milestones.achievements) {
+      const date = hasKnownDate(a) ? new Date(a.createdAt).toISOString().slice(0, 10) : 'before tracking';
+      lines.push(`- **${a.name}** — ${date}`);
+    }
+    lines.push('');
+  }
+
+  if (milestones.records.length > 0) {
+    lines.push('### Records (best gains)');
+    for (const r of milestones.records) {
+      lines.push(`- **${r.metric}** best ${r.period.replace('_', ' ')}: ${r.value.toLocaleString()} (${new Date(r.updatedAt).toISOString().slice(0, 10)})`);
+    }
+    lines.push('');
+  }
+
+  if (milestones.nextMilestones.length > 0) {
+    lines.push('### Closest next milestones');
+    for (const p of milestones.nextMilestones) {
+      lines.push(
+        `- **${p.name}** — ${Math.round(p.relativeProgress * 100)}% (${formatValue(p.currentValue, p.measure)} / ${formatValue(p.threshold, p.measure)})`
+      );
+    }
+  }
+
+  return lines.join('\n').trim();
+}
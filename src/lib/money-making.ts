@@ -0,0 +1,494 @@
+/**
+ * Money Making Module
+ * Parses the Wiki's Money making guide pages (inputs, outputs, actions per hour and
+ * requirements) into a dataset cached in the dataset store, reprices each method's
+ * profit per hour with live GE prices, and filters methods by a player's stats and
+ * account rules.
+ */
+
+import { getWikiWikitext, getCategoryMembers, getMultipleItemPrices, calculateGeTax, formatPrice } from './osrs';
+import { loadDataset, storeDataset, type StoredDataset } from './datasets';
+import { findTemplates, parseScpTemplates, parseWikiNumber, parseWikiBoolean, stripMarkup } from './wikitext';
+import { isSkillName } from './xp';
+import { capitalize, findUnmetSkills, type SkillRequirement } from './quests';
+import { findBuildConflicts, type AccountRules } from './account-rules';
+import { findAlchProfits } from './alching';
+
+// ============================================
+// Types
+// ============================================
+
+export const MONEY_MAKING_CATEGORIES = ['combat', 'skilling', 'processing', 'collecting', 'recurring'] as const;
+
+export type MoneyMakingCategory = (typeof MONEY_MAKING_CATEGORIES)[number];
+
+export interface MoneyMakingItem {
+  name: string;
+  quantity: number;
+  /** Quantity is already per hour rather than per action */
+  perHour: boolean;
+  /** Value the guide fixes for the item (e.g. untradeables), used instead of the GE price */
+  value: number | null;
+}
+
+export interface MoneyMakingMethod {
+  /** Guide page title, e.g. "Money making guide/Killing Vorkath" */
+  title: string;
+  activity: string;
+  category: MoneyMakingCategory | null;
+  intensity: string | null;
+  members: boolean;
+  skills: SkillRequirement[];
+  quests: string[];
+  /** Recommended equipment and other requirements, as written */
+  items: string | null;
+  other: string | null;
+  inputs: MoneyMakingItem[];
+  outputs: MoneyMakingItem[];
+  /** Kills or actions per hour that per-action quantities are multiplied by */
+  actionsPerHour: number | null;
+  location: string | null;
+}
+
+export interface PricedMoneyMakingItem {
+  name: string;
+  perHour: number;
+  /** Price per item (null when it has no GE price or guide value) */
+  price: number | null;
+  total: number;
+}
+
+export interface MoneyMakerResult {
+  method: MoneyMakingMethod;
+  profitPerHour: number;
+  inputCostPerHour: number;
+  outputValuePerHour: number;
+  inputs: PricedMoneyMakingItem[];
+  outputs: PricedMoneyMakingItem[];
+  /** Items left out of the profit because they have no price */
+  unpriced: string[];
+  /** Buys inputs on the Grand Exchange (not doable as an ironman) */
+  geDependent: boolean;
+  url: string;
+}
+
+export interface ExcludedMoneyMaker {
+  activity: string;
+  profitPerHour: number;
+  reasons: string[];
+}
+
+export interface MoneyMakerFilters {
+  category?: MoneyMakingCategory;
+  /** Lowercase intensity, e.g. "low" for AFK methods */
+  intensity?: string;
+  limit?: number;
+}
+
+export interface MoneyMakerPlayerState {
+  /** Lowercase skill name (plus "combat") -> level */
+  levels: Record<string, number>;
+  /** Lowercase names of completed quests; null when unknown (quest-gated methods assumed available) */
+  completedQuests: Set<string> | null;
+  rules: AccountRules | null;
+}
+
+export interface MoneyMakerRanking {
+  methods: MoneyMakerResult[];
+  /** Best-paying methods the player can't do yet, with why */
+  excluded: ExcludedMoneyMaker[];
+  totalMethods: number;
+  /** Guide pages not parsed yet; the ranking is partial while this is above zero */
+  pendingGuides: number;
+  questsVerified: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const GUIDE_CATEGORY = 'Money making guides';
+const GUIDE_PREFIX = 'Money making guide/';
+const GUIDE_TEMPLATE = 'Money making guide';
+
+const DATASET_KEY = 'money_making';
+const DATASET_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Same volume floor as the alchProfits tool, so the alch item can actually be bought
+const ALCH_MIN_VOLUME = 50;
+
+// Time a chat request may spend parsing guide pages before ranking what it has
+const INGEST_BUDGET_MS = 20_000;
+
+let datasetCache: StoredDataset<MoneyMakingMethod> | null = null;
+let ingestion: Promise<StoredDataset<MoneyMakingMethod> | null> | null = null;
+
+// ============================================
+// Parsing
+// ============================================
+
+function parseCategory(value: string | undefined): MoneyMakingCategory | null {
+  const text = stripMarkup(value).toLowerCase();
+  return MONEY_MAKING_CATEGORIES.find((c) => text.startsWith(c)) ?? null;
+}
+
+function parseItems(params: Record<string, string>, prefix: 'input' | 'output'): MoneyMakingItem[] {
+  const items: MoneyMakingItem[] = [];
+  for (let i = 1; params[`${prefix}${i}`] !== undefined; i++) {
+    const name = stripMarkup(params[`${prefix}${i}`]);
+    const quantity = parseWikiNumber(params[`${prefix}${i}num`]) ?? 1;
+    if (!name || quantity <= 0) continue;
+    items.push({
+      name,
+      quantity,
+      perHour: parseWikiBoolean(params[`${prefix}${i}isph`]) ?? false,
+      value: parseWikiNumber(params[`${prefix}${i}value`]),
+    });
+  }
+  return items;
+}
+
+function parseQuests(value: string | undefined): string[] {
+  if (!value) return [];
+  const linked = [...value.matchAll(/\[\[([^\]|#]+)/g)].map((m) => m[1].trim());
+  if (linked.length > 0) return linked;
+  const text = stripMarkup(value);
+  return text && !/^(none|n\/a|-)$/i.test(text) ? [text] : [];
+}
+
+function textOrNull(value: string | undefined): string | null {
+  const text = stripMarkup(value);
+  return text && !/^(none|n\/a|-)$/i.test(text) ? text : null;
+}
+
+/**
+ * Parse the {{Money making guide}} template on a guide page
+ */
+export function parseMoneyMakingGuide(title: string, wikitext: string): MoneyMakingMethod | null {
+  const template = findTemplates(wikitext, GUIDE_TEMPLATE)[0];
+  if (!template) return null;
+  const { params } = template;
+
+  const outputs = parseItems(params, 'output');
+  if (outputs.length === 0) return null;
+
+  const skills = parseScpTemplates(params.skill ?? '')
+    .filter(({ name }) => name === 'combat' || isSkillName(name))
+    .map(({ name, level, boostable }) => ({ skill: capitalize(name), level, boostable }));
+
+  return {
+    title,
+    activity: stripMarkup(params.activity) || title.replace(GUIDE_PREFIX, ''),
+    category: parseCategory(params.category),
+    intensity: textOrNull(params.intensity),
+    members: parseWikiBoolean(params.members) ?? true,
+    skills,
+    quests: parseQuests(params.quest),
+    items: textOrNull(params.item),
+    other: textOrNull(params.other),
+    inputs: parseItems(params, 'input'),
+    outputs,
+    actionsPerHour: parseWikiNumber(params.kph),
+    location: textOrNull(params.location),
+  };
+}
+
+// ============================================
+// Dataset
+// ============================================
+
+function isFresh(dataset: StoredDataset<MoneyMakingMethod>): boolean {
+  return dataset.complete && Date.now() - dataset.cachedAt < DATASET_CACHE_TTL;
+}
+
+/**
+ * Parse guide pages one at a time until every page is done or the time budget runs out.
+ * Progress is saved to the dataset store, so the next call resumes where this one stopped.
+ */
+export async function ingestMoneyMakingGuides(budgetMs = INGEST_BUDGET_MS): Promise<StoredDataset<MoneyMakingMethod> | null> {
+  const started = Date.now();
+  let dataset = (await loadDataset<MoneyMakingMethod>(DATASET_KEY)) ?? datasetCache;
+  if (dataset && isFresh(dataset)) {
+    datasetCache = dataset;
+    return dataset;
+  }
+
+  if (!dataset || dataset.complete) {
+    // Start a new pass; keep serving the previous methods until their pages are re-parsed
+    const titles = (await getCategoryMembers(GUIDE_CATEGORY)).filter((t) => t.startsWith(GUIDE_PREFIX));
+    if (titles.length === 0) return dataset;
+    const listed = new Set(titles);
+    dataset = {
+      entries: (dataset?.entries ?? []).filter((m) => listed.has(m.title)),
+      pending: titles,
+      complete: false,
+      cachedAt: Date.now(),
+    };
+  }
+
+  const methods = new Map(dataset.entries.map((m) => [m.title, m]));
+  let parsed = 0;
+  for (; parsed < dataset.pending.length && Date.now() - started < budgetMs; parsed++) {
+    const title = dataset.pending[parsed];
+    const wikitext = await getWikiWikitext(title);
+    if (!wikitext) continue;
+    const method = parseMoneyMakingGuide(title, wikitext);
+    if (method) methods.set(title, method);
+    else methods.delete(title);
+  }
+
+  const pending = dataset.pending.slice(parsed);
+  dataset = { entries: [...methods.values()], pending, complete: pending.length === 0, cachedAt: Date.now() };
+  await storeDataset(DATASET_KEY, dataset, guideUrl('Money making guide'));
+  datasetCache = dataset;
+  return dataset;
+}
+
+/**
+ * Parsed money making methods: memory cache, then the dataset store, then a time-boxed pass
+ * over the Wiki guides. The dataset may be partial while guide pages are still pending.
+ */
+export async function getMoneyMakingDataset(): Promise<StoredDataset<MoneyMakingMethod> | null> {
+  if (datasetCache && isFresh(datasetCache)) return datasetCache;
+
+  ingestion ??= ingestMoneyMakingGuides().finally(() => {
+    ingestion = null;
+  });
+  const dataset = await ingestion;
+  return dataset && dataset.entries.length > 0 ? dataset : null;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+export function guideUrl(title: string): string {
+  return `https://oldschool.runescape.wiki/w/${encodeURI(title.replace(/ /g, '_'))}`;
+}
+
+/**
+ * Whether a method buys any of its inputs: non-coin inputs without a guide value
+ * (guide values mark untradeables, which can't be bought)
+ */
+function buysInputs(method: MoneyMakingMethod): boolean {
+  return method.inputs.some((i) => i.name.toLowerCase() !== 'coins' && i.value === null);
+}
+
+/**
+ * Profit per hour for a method at the given prices. Inputs cost the instant-buy price and
+ * outputs sell at the instant-sell price less GE tax.
+ */
+export function priceMethod(
+  method: MoneyMakingMethod,
+  priceOf: (name: string, side: 'buy' | 'sell') => number | null
+): MoneyMakerResult {
+  const unpriced: string[] = [];
+
+  const price = (items: MoneyMakingItem[], side: 'buy' | 'sell'): PricedMoneyMakingItem[] =>
+    items.map((item) => {
+      const perHour = item.perHour ? item.quantity : item.quantity * (method.actionsPerHour ?? 1);
+      const each = item.value ?? priceOf(item.name, side);
+      if (each === null) unpriced.push(item.name);
+      return { name: item.name, perHour, price: each, total: Math.round(perHour * (each ?? 0)) };
+    });
+
+  const inputs = price(method.inputs, 'buy');
+  const outputs = price(method.outputs, 'sell');
+  const inputCostPerHour = inputs.reduce((sum, i) => sum + i.total, 0);
+  const outputValuePerHour = outputs.reduce((sum, o) => sum + o.total, 0);
+
+  return {
+    method,
+    profitPerHour: outputValuePerHour - inputCostPerHour,
+    inputCostPerHour,
+    outputValuePerHour,
+    inputs,
+    outputs,
+    unpriced: [...new Set(unpriced)],
+    geDependent: buysInputs(method),
+    url: guideUrl(method.title),
+  };
+}
+
+/**
+ * Look up live GE prices for every item the methods trade. Names are matched exactly, so a
+ * name shared by several items prices the one that traded most recently.
+ */
+async function livePriceLookup(
+  methods: MoneyMakingMethod[]
+): Promise<(name: string, side: 'buy' | 'sell') => number | null> {
+  const names = [...new Set(
+    methods
+      .flatMap((m) => [...m.inputs, ...m.outputs])
+      .filter((item) => item.value === null && item.name.toLowerCase() !== 'coins')
+      .map((item) => item.name)
+  )];
+  const prices = await getMultipleItemPrices(names, { exactOnly: true });
+
+  return (name, side) => {
+    if (name.toLowerCase() === 'coins') return 1;
+    const price = prices[name];
+    if (!price) return null;
+
+    if (side === 'buy') return price.highPrice ?? price.lowPrice;
+    const sell = price.lowPrice ?? price.highPrice;
+    return sell ? sell - calculateGeTax(sell, name) : null;
+  };
+}
+
+/**
+ * High Level Alchemy on the most profitable item to alch right now, as a method ranked with
+ * the guides; null when nothing alchs at a profit
+ */
+async function highAlchemyMethod(f2pOnly: boolean): Promise<MoneyMakerResult | null> {
+  const [best, ...others] = await findAlchProfits({ f2pOnly, minVolume: ALCH_MIN_VOLUME, sortBy: 'hour', limit: 3 });
+  if (!best) return null;
+
+  const casts = best.castsPerHour;
+  const method: MoneyMakingMethod = {
+    title: 'High Level Alchemy',
+    activity: `High Alchemy (${best.itemName})`,
+    category: 'processing',
+    intensity: 'Low',
+    members: best.members,
+    skills: [{ skill: 'Magic', level: 55, boostable: true }],
+    quests: [],
+    items: null,
+    other: others.length > 0 ? `Also profitable: ${others.map((o) => o.itemName).join(', ')}` : null,
+    inputs: [
+      { name: best.itemName, quantity: casts, perHour: true, value: null },
+      { name: 'Nature rune', quantity: casts, perHour: true, value: null },
+    ],
+    outputs: [{ name: 'Coins', quantity: casts * best.highAlch, perHour: true, value: 1 }],
+    actionsPerHour: casts,
+    location: null,
+  };
+
+  return priceMethod(method, (name) =>
+    name === best.itemName ? best.buyPrice : name === 'Nature rune' ? best.natureRunePrice : null
+  );
+}
+
+// ============================================
+// Ranking
+// ============================================
+
+function exclusionReasons(method: MoneyMakingMethod, geDependent: boolean, state: MoneyMakerPlayerState): string[] {
+  const reasons: string[] = [];
+  const rules = state.rules;
+  const ironman = !!rules && !rules.canUseGrandExchange;
+
+  if (ironman && geDependent) reasons.push('needs the Grand Exchange');
+  if (rules && method.members && !rules.membersContent) reasons.push('members only');
+
+  for (const s of findUnmetSkills(method.skills, state.levels, { ironman })) {
+    if (!s.boost) reasons.push(`${s.required} ${s.skill} (have ${s.current})`);
+  }
+  if (rules) {
+    for (const c of findBuildConflicts(method.skills, rules)) {
+      reasons.push(`${c.required} ${c.skill} breaks the build (cap ${c.cap})`);
+    }
+  }
+  if (state.completedQuests) {
+    for (const quest of method.quests) {
+      if (!state.completedQuests.has(quest.toLowerCase())) reasons.push(quest);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Rank money making methods the player can do by live profit per hour
+ */
+export async function rankMoneyMakers(
+  state: MoneyMakerPlayerState,
+  filters: MoneyMakerFilters = {}
+): Promise<MoneyMakerRanking | null> {
+  const { category, intensity, limit = 10 } = filters;
+
+  const dataset = await getMoneyMakingDataset();
+  if (!dataset) return null;
+  const matchesFilters = (m: MoneyMakingMethod) =>
+    (!category || m.category === category) &&
+    (!intensity || !!m.intensity?.toLowerCase().includes(intensity.toLowerCase()));
+
+  const matching = dataset.entries.filter(matchesFilters);
+  const [priceOf, alchemy] = await Promise.all([
+    livePriceLookup(matching),
+    highAlchemyMethod(!!state.rules && !state.rules.membersContent),
+  ]);
+
+  const candidates = [
+    ...matching.map((m) => priceMethod(m, priceOf)),
+    ...(alchemy && matchesFilters(alchemy.method) ? [alchemy] : []),
+  ].sort((a, b) => b.profitPerHour - a.profitPerHour);
+
+  const methods: MoneyMakerResult[] = [];
+  const excluded: ExcludedMoneyMaker[] = [];
+  for (const result of candidates) {
+    const reasons = exclusionReasons(result.method, result.geDependent, state);
+    if (reasons.length === 0) {
+      methods.push(result);
+    } else {
+      excluded.push({ activity: result.method.activity, profitPerHour: result.profitPerHour, reasons });
+    }
+  }
+
+  return {
+    methods: methods.slice(0, limit),
+    // Ironman and build exclusions are permanent; only show ones worth working towards
+    excluded: excluded
+      .filter((e) => !e.reasons.some((r) => r === 'needs the Grand Exchange' || r === 'members only' || r.includes('breaks the build')))
+      .slice(0, 5),
+    totalMethods: candidates.length,
+    pendingGuides: dataset.pending.length,
+    questsVerified: !!state.completedQuests,
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format ranked money makers for the AI
+ */
+export function formatMoneyMakers(ranking: MoneyMakerRanking, ironman = false): string {
+  if (ranking.methods.length === 0) {
+    return 'No money making methods from the Wiki guides match this account yet.';
+  }
+
+  const lines = [`## Money makers by live GP/hr (${ranking.methods.length} of ${ranking.totalMethods} guides)`];
+  ranking.methods.forEach((r, i) => {
+    const m = r.method;
+    lines.push(
+      `${i + 1}. **${m.activity}** — ~${formatPrice(r.profitPerHour)}/hr` +
+      `${m.category ? ` · ${m.category}` : ''}${m.intensity ? ` · ${m.intensity} intensity` : ''}`
+    );
+    if (r.inputCostPerHour > 0) {
+      lines.push(`   - Costs ${formatPrice(r.inputCostPerHour)}/hr, makes ${formatPrice(r.outputValuePerHour)}/hr`);
+    }
+    if (r.unpriced.length > 0) lines.push(`   - Not priced: ${r.unpriced.join(', ')}`);
+    lines.push(`   - Guide: ${r.url}`);
+  });
+
+  if (ranking.excluded.length > 0) {
+    lines.push('', '### Top methods not unlocked yet');
+    for (const e of ranking.excluded) {
+      lines.push(`- **${e.activity}** (~${formatPrice(e.profitPerHour)}/hr) — needs ${e.reasons.join(', ')}`);
+    }
+  }
+
+  if (ironman) {
+    lines.push('', '_GE-dependent methods are excluded; profits are GE values of the drops/resources, not coins an ironman receives._');
+  }
+  if (ranking.pendingGuides > 0) {
+    lines.push(`_The guide dataset is still loading (${ranking.pendingGuides} pages left), so some methods may be missing._`);
+  }
+  if (!ranking.questsVerified) {
+    lines.push('_Quest-gated methods are assumed available — completed quests weren\'t given._');
+  }
+
+  return lines.join('\n');
+}
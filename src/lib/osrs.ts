@@ -1,9 +1,28 @@
 import type {
   WOMPlayerDetails,
   WOMGains,
+  WOMSnapshot,
+  WOMAchievement,
+  WOMAchievementProgress,
+  WOMRecord,
+  WOMPeriod,
+  WOMTimelineDatapoint,
+  WOMEfficiencyAlgorithm,
+  WOMSkillMeta,
+  WOMBossMeta,
+  WOMGroup,
+  WOMGroupDetails,
+  WOMPlayerMembership,
+  WOMGroupHiscoresEntry,
+  WOMGroupGainsEntry,
+  WOMCompetition,
+  WOMCompetitionDetails,
+  WOMCompetitionStanding,
   WikiSearchResult,
   WikiPageContent,
 } from './types';
+import { parseInfoboxes, type ParsedInfoboxes } from './wikitext';
+import { scoreNameMatch } from './fuzzy';
 
 const WOM_BASE_URL = 'https://api.wiseoldman.net/v2';
 const WIKI_BASE_URL = 'https://oldschool.runescape.wiki/api.php';
@@ -13,16 +32,14 @@ const PRICES_BASE_URL = 'https://prices.runescape.wiki/api/v1/osrs';
 // Rate Limiter for Wiki API calls
 // ============================================
 
-// Simple rate limiter for Wiki API calls
+// Queue for Wiki API calls: each request waits for the previous one's slot, so concurrent
+// callers (e.g. Promise.all over several pages) are spaced out instead of sent in a burst
 const RATE_LIMIT_DELAY = 200; // ms between wiki requests (5/sec max)
-let lastWikiRequest = 0;
+let nextWikiSlot: Promise<void> = Promise.resolve();
 async function rateLimitedFetch(url: string, options?: RequestInit): Promise<Response> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastWikiRequest;
-  if (timeSinceLastRequest < RATE_LIMIT_DELAY) {
-    await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY - timeSinceLastRequest));
-  }
-  lastWikiRequest = Date.now();
+  const slot = nextWikiSlot;
+  nextWikiSlot = slot.then(() => new Promise<void>(resolve => setTimeout(resolve, RATE_LIMIT_DELAY)));
+  await slot;
   return fetch(url, options);
 }
 
@@ -39,32 +56,210 @@ export interface ItemPriceData {
   lowTime: number | null;
   avgPrice: number | null;
   volume: number | null;
+  /** GE buy limit per 4 hours */
+  buyLimit: number | null;
+  members: boolean | null;
+  examine: string | null;
+  highAlch: number | null;
+  /** The name as the user typed it */
+  query: string;
+  /** 0-1 confidence that itemName is the item the user meant */
+  matchConfidence: number;
+  /** Other plausible items, best first (empty for exact and alias matches) */
+  alternatives: ItemMatchCandidate[];
   wikiUrl: string;
 }
 
-interface WikiItemIdResponse {
+// ============================================
+// Types for Item Metadata
+// ============================================
+
+export interface ItemMetadata {
+  id: number;
+  name: string;
+  examine: string | null;
+  members: boolean;
+  /** GE buy limit per 4 hours */
+  buyLimit: number | null;
+  /** Store value */
+  value: number | null;
+  highAlch: number | null;
+  lowAlch: number | null;
+  /** Inventory icon file name on the Wiki */
+  icon: string | null;
+}
+
+export interface ItemMetadataStore {
+  byId: Map<number, ItemMetadata>;
+  /** Lowercase item name -> every item ID sharing that name */
+  byName: Map<string, number[]>;
+}
+
+/** Latest instant-buy (high) and instant-sell (low) trade for an item, from /latest */
+export interface LatestPrice {
+  high: number | null;
+  /** Unix seconds of the last high trade */
+  highTime: number | null;
+  low: number | null;
+  lowTime: number | null;
+}
+
+/** Average prices and traded volume over the last hour for an item, from /1h */
+export interface VolumePoint {
+  avgHighPrice: number | null;
+  highPriceVolume: number;
+  avgLowPrice: number | null;
+  lowPriceVolume: number;
+}
+
+export type PriceTimestep = '5m' | '1h' | '6h' | '24h';
+
+export interface PricePoint {
+  timestamp: number;
+  avgHighPrice: number | null;
+  avgLowPrice: number | null;
+  highPriceVolume: number;
+  lowPriceVolume: number;
+}
+
+export interface PriceChange {
+  absolute: number;
+  percent: number;
+}
+
+export interface PriceTrendSummary {
+  currentPrice: number | null;
+  change24h: PriceChange | null;
+  change7d: PriceChange | null;
+  change30d: PriceChange | null;
+  /** Standard deviation of daily returns over the last 30 days, in percent */
+  volatility30d: number | null;
+  volume24h: number;
+  /** Average daily volume, last 7 days vs the 7 days before */
+  volumeChange7d: PriceChange | null;
+  volumeTrend: 'rising' | 'falling' | 'stable' | 'unknown';
+  high30d: number | null;
+  low30d: number | null;
+}
+
+export interface PriceHistory {
+  itemId: number;
+  itemName: string;
+  timestep: PriceTimestep;
+  series: PricePoint[];
+  summary: PriceTrendSummary;
+  wikiUrl: string;
+}
+
+export interface WikiPageFull {
+  /** Cleaned, readable prose for the LLM */
+  content: string;
+  /** Structured infobox data extracted before cleaning */
+  infoboxes: ParsedInfoboxes;
+}
+
+export interface ItemMatchCandidate {
+  itemId: number;
+  itemName: string;
+  confidence: number;
+}
+
+export interface ItemResolution {
   itemId: number | null;
   itemName: string;
+  /** 0-1, 1 for exact names and known abbreviations */
+  confidence: number;
+  matchType: 'exact' | 'alias' | 'fuzzy' | 'none';
+  /** Next-best candidates, best first */
+  alternatives: ItemMatchCandidate[];
+}
+
+export interface ItemLookupOptions {
+  /** Only accept exact names and known abbreviations, for names taken from the Wiki rather than typed by a user */
+  exactOnly?: boolean;
 }
 
-// Cache for item mappings (Wiki name -> item ID)
-let itemMappingCache: Record<string, number> | null = null;
+// Matches below this confidence should be confirmed with the user
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+const MIN_MATCH_SCORE = 0.35;
+const MAX_ALTERNATIVES = 4;
+
+// Cache for item metadata from the /mapping endpoint
+let itemMetadataCache: ItemMetadataStore | null = null;
 let mappingCacheTime = 0;
 const MAPPING_CACHE_TTL = 3600000; // 1 hour
 
+// Community abbreviations -> canonical item names (lowercase keys)
+export const ITEM_ALIASES: Record<string, string> = {
+  tbow: 'Twisted bow',
+  bowfa: 'Bow of faerdhinen (inactive)',
+  bofa: 'Bow of faerdhinen (inactive)',
+  bgs: 'Bandos godsword',
+  ags: 'Armadyl godsword',
+  sgs: 'Saradomin godsword',
+  zgs: 'Zamorak godsword',
+  dwh: 'Dragon warhammer',
+  dds: 'Dragon dagger',
+  dclaws: 'Dragon claws',
+  claws: 'Dragon claws',
+  whip: 'Abyssal whip',
+  tent: 'Abyssal tentacle',
+  sang: 'Sanguinesti staff (uncharged)',
+  scythe: 'Scythe of vitur (uncharged)',
+  shadow: "Tumeken's shadow (uncharged)",
+  fang: "Osmumten's fang",
+  bp: 'Toxic blowpipe (empty)',
+  blowpipe: 'Toxic blowpipe (empty)',
+  acb: 'Armadyl crossbow',
+  zcb: 'Zaryte crossbow',
+  dhcb: 'Dragon hunter crossbow',
+  dhl: 'Dragon hunter lance',
+  rcb: 'Rune crossbow',
+  msb: 'Magic shortbow',
+  sotd: 'Staff of the dead',
+  ely: 'Elysian spirit shield',
+  dfs: 'Dragonfire shield',
+  bcp: 'Bandos chestplate',
+  tassets: 'Bandos tassets',
+  prims: 'Primordial boots',
+  pegs: 'Pegasian boots',
+  eternals: 'Eternal boots',
+  torture: 'Amulet of torture',
+  anguish: 'Necklace of anguish',
+  tormented: 'Tormented bracelet',
+  occult: 'Occult necklace',
+  fury: 'Amulet of fury',
+  nats: 'Nature rune',
+  ppots: 'Prayer potion(4)',
+  brews: 'Saradomin brew(4)',
+  restores: 'Super restore(4)',
+  scb: 'Super combat potion(4)',
+  sharks: 'Shark',
+  karams: 'Cooked karambwan',
+};
+
 // ============================================
 // Price data caches
 // ============================================
 
-let latestPriceCache: Record<string, any> | null = null;
+let latestPriceCache: Record<string, LatestPrice> | null = null;
 let latestPriceCacheTime = 0;
 const PRICE_CACHE_TTL = 60000; // 60 seconds
 
-let volumeCache: Record<string, any> | null = null;
+let volumeCache: Record<string, VolumePoint> | null = null;
 let volumeCacheTime = 0;
 const VOLUME_CACHE_TTL = 120000; // 2 minutes
 
-async function getLatestPrices(): Promise<Record<string, any>> {
+const timeseriesCache = new Map<string, { data: PricePoint[]; fetchedAt: number }>();
+// Coarser steps change less often, so they can be cached longer
+const TIMESERIES_CACHE_TTL: Record<PriceTimestep, number> = {
+  '5m': 60000, // 1 minute
+  '1h': 300000, // 5 minutes
+  '6h': 1800000, // 30 minutes
+  '24h': 3600000, // 1 hour
+};
+
+export async function getLatestPrices(): Promise<Record<string, LatestPrice>> {
   if (latestPriceCache && Date.now() - latestPriceCacheTime < PRICE_CACHE_TTL) {
     return latestPriceCache;
   }
@@ -73,17 +268,17 @@ async function getLatestPrices(): Promise<Record<string, any>> {
       headers: { 'User-Agent': 'OSRS-Agent-Dashboard/1.0' },
     });
     if (!response.ok) throw new Error(`Prices API error: ${response.status}`);
-    const data = await response.json();
-    latestPriceCache = data.data || {};
+    const data: { data?: Record<string, LatestPrice> } = await response.json();
+    latestPriceCache = data.data ?? {};
     latestPriceCacheTime = Date.now();
-    return latestPriceCache!;
+    return latestPriceCache;
   } catch (error) {
     console.error('Error fetching latest prices:', error);
     return latestPriceCache ?? {};
   }
 }
 
-async function getVolumeData(): Promise<Record<string, any>> {
+export async function getVolumeData(): Promise<Record<string, VolumePoint>> {
   if (volumeCache && Date.now() - volumeCacheTime < VOLUME_CACHE_TTL) {
     return volumeCache;
   }
@@ -92,10 +287,10 @@ async function getVolumeData(): Promise<Record<string, any>> {
       headers: { 'User-Agent': 'OSRS-Agent-Dashboard/1.0' },
     });
     if (!response.ok) throw new Error(`Volume API error: ${response.status}`);
-    const data = await response.json();
-    volumeCache = data.data || {};
+    const data: { data?: Record<string, VolumePoint> } = await response.json();
+    volumeCache = data.data ?? {};
     volumeCacheTime = Date.now();
-    return volumeCache!;
+    return volumeCache;
   } catch (error) {
     console.error('Error fetching volume data:', error);
     return volumeCache ?? {};
@@ -103,9 +298,18 @@ async function getVolumeData(): Promise<Record<string, any>> {
 }
 
 /**
- * Fetch player details from Wise Old Man API
+ * Result of looking a player up on Wise Old Man. "unavailable" covers API errors and
+ * rate limiting, where another source may still have the player.
  */
-export async function getPlayerStats(username: string): Promise<WOMPlayerDetails | null> {
+export type WOMPlayerLookup =
+  | { status: 'found'; player: WOMPlayerDetails }
+  | { status: 'not_found' }
+  | { status: 'unavailable'; reason: string };
+
+/**
+ * Look up player details on Wise Old Man without tracking unknown players
+ */
+export async function lookupWomPlayer(username: string): Promise<WOMPlayerLookup> {
   try {
     const encodedUsername = encodeURIComponent(username.toLowerCase());
     const response = await fetch(`${WOM_BASE_URL}/players/${encodedUsername}`, {
@@ -115,21 +319,29 @@ export async function getPlayerStats(username: string): Promise<WOMPlayerDetails
       next: { revalidate: 60 }, // Cache for 60 seconds
     });
 
+    if (response.status === 404) return { status: 'not_found' };
+    if (response.status === 429) return { status: 'unavailable', reason: 'Wise Old Man rate limit reached' };
     if (!response.ok) {
-      if (response.status === 404) {
-        // Player not found, try to track them
-        return await trackPlayer(username);
-      }
       throw new Error(`WOM API error: ${response.status}`);
     }
 
-    return await response.json();
+    return { status: 'found', player: await response.json() };
   } catch (error) {
     console.error('Error fetching player stats:', error);
-    return null;
+    return { status: 'unavailable', reason: error instanceof Error ? error.message : 'Wise Old Man request failed' };
   }
 }
 
+/**
+ * Fetch player details from Wise Old Man API, tracking the player if WOM doesn't know them yet
+ */
+export async function getPlayerStats(username: string): Promise<WOMPlayerDetails | null> {
+  const result = await lookupWomPlayer(username);
+  if (result.status === 'found') return result.player;
+  if (result.status === 'not_found') return trackPlayer(username);
+  return null;
+}
+
 /**
  * Track a new player on Wise Old Man
  */
@@ -209,6 +421,304 @@ export async function getPlayerGains(
   }
 }
 
+/**
+ * Get a player's reached achievements (99s, boss KC milestones, XP milestones) from Wise Old Man
+ */
+export async function getPlayerAchievements(username: string): Promise<WOMAchievement[] | null> {
+  try {
+    const encodedUsername = encodeURIComponent(username.toLowerCase());
+    const response = await fetch(`${WOM_BASE_URL}/players/${encodedUsername}/achievements`, {
+      headers: {
+        'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+      },
+      next: { revalidate: 300 }, // Cache for 5 minutes
+    });
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching player achievements:', error);
+    return null;
+  }
+}
+
+/**
+ * Get progress towards every achievement, reached or not
+ */
+export async function getPlayerAchievementProgress(username: string): Promise<WOMAchievementProgress[] | null> {
+  try {
+    const encodedUsername = encodeURIComponent(username.toLowerCase());
+    const response = await fetch(`${WOM_BASE_URL}/players/${encodedUsername}/achievements/progress`, {
+      headers: {
+        'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+      },
+      next: { revalidate: 300 }, // Cache for 5 minutes
+    });
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching achievement progress:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a player's best gains per period (records), optionally for one period or metric
+ */
+export async function getPlayerRecords(
+  username: string,
+  filters: { period?: WOMPeriod; metric?: string } = {}
+): Promise<WOMRecord[] | null> {
+  try {
+    const encodedUsername = encodeURIComponent(username.toLowerCase());
+    const params = new URLSearchParams();
+    if (filters.period) params.set('period', filters.period);
+    if (filters.metric) params.set('metric', filters.metric);
+    const query = params.toString();
+
+    const response = await fetch(
+      `${WOM_BASE_URL}/players/${encodedUsername}/records${query ? `?${query}` : ''}`,
+      {
+        headers: {
+          'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+        },
+        next: { revalidate: 300 }, // Cache for 5 minutes
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching player records:', error);
+    return null;
+  }
+}
+
+export interface WOMDateRange {
+  period?: 'day' | 'week' | 'month' | 'year';
+  startDate?: string;
+  endDate?: string;
+}
+
+function dateRangeParams(range: WOMDateRange): URLSearchParams {
+  const params = new URLSearchParams();
+  if (range.period) params.set('period', range.period);
+  if (range.startDate) params.set('startDate', range.startDate);
+  if (range.endDate) params.set('endDate', range.endDate);
+  return params;
+}
+
+/**
+ * Get a player's snapshot history, newest first, for a period or a date range (paginated)
+ */
+export async function getPlayerSnapshots(
+  username: string,
+  range: WOMDateRange & { limit?: number; offset?: number } = {}
+): Promise<WOMSnapshot[] | null> {
+  try {
+    const encodedUsername = encodeURIComponent(username.toLowerCase());
+    const params = dateRangeParams(range);
+    if (range.limit) params.set('limit', String(range.limit));
+    if (range.offset) params.set('offset', String(range.offset));
+    const query = params.toString();
+
+    const response = await fetch(
+      `${WOM_BASE_URL}/players/${encodedUsername}/snapshots${query ? `?${query}` : ''}`,
+      {
+        headers: {
+          'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+        },
+        next: { revalidate: 300 }, // Cache for 5 minutes
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching player snapshots:', error);
+    return null;
+  }
+}
+
+/**
+ * Get one metric's value over time (oldest first) for a period or a date range
+ */
+export async function getPlayerMetricTimeline(
+  username: string,
+  metric: string,
+  range: WOMDateRange = {}
+): Promise<WOMTimelineDatapoint[] | null> {
+  try {
+    const encodedUsername = encodeURIComponent(username.toLowerCase());
+    const params = dateRangeParams(range);
+    params.set('metric', metric);
+
+    const response = await fetch(`${WOM_BASE_URL}/players/${encodedUsername}/snapshots/timeline?${params}`, {
+      headers: {
+        'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+      },
+      next: { revalidate: 300 }, // Cache for 5 minutes
+    });
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    const data: WOMTimelineDatapoint[] = await response.json();
+    return [...data].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  } catch (error) {
+    console.error('Error fetching metric timeline:', error);
+    return null;
+  }
+}
+
+async function fetchEfficiencyRates<T>(metric: 'ehp' | 'ehb', type: WOMEfficiencyAlgorithm): Promise<T[] | null> {
+  try {
+    const response = await fetch(`${WOM_BASE_URL}/efficiency/rates?metric=${metric}&type=${type}`, {
+      headers: {
+        'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+      },
+      next: { revalidate: 86400 }, // Rates change rarely, cache for a day
+    });
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Error fetching ${metric} rates:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get WOM's EHP rates (training methods and bonus XP per skill) for an efficiency algorithm
+ */
+export function getEhpRates(type: WOMEfficiencyAlgorithm): Promise<WOMSkillMeta[] | null> {
+  return fetchEfficiencyRates<WOMSkillMeta>('ehp', type);
+}
+
+/**
+ * Get WOM's EHB rates (kills per hour per boss) for an efficiency algorithm
+ */
+export function getEhbRates(type: WOMEfficiencyAlgorithm): Promise<WOMBossMeta[] | null> {
+  return fetchEfficiencyRates<WOMBossMeta>('ehb', type);
+}
+
+// ============================================
+// WOM Groups & Competitions
+// ============================================
+
+async function fetchWom<T>(path: string, label: string): Promise<T | null> {
+  try {
+    const response = await fetch(`${WOM_BASE_URL}${path}`, {
+      headers: {
+        'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+      },
+      next: { revalidate: 300 }, // Cache for 5 minutes
+    });
+
+    if (!response.ok) {
+      throw new Error(`WOM API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Error fetching ${label}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Search WOM groups by name
+ */
+export function searchGroups(name: string, limit = 5): Promise<WOMGroup[] | null> {
+  const params = new URLSearchParams({ name, limit: String(limit) });
+  return fetchWom<WOMGroup[]>(`/groups?${params}`, 'groups');
+}
+
+/**
+ * Get a group with its members
+ */
+export function getGroup(groupId: number): Promise<WOMGroupDetails | null> {
+  return fetchWom<WOMGroupDetails>(`/groups/${groupId}`, 'group');
+}
+
+/**
+ * Get the groups a player belongs to
+ */
+export function getPlayerGroups(username: string): Promise<WOMPlayerMembership[] | null> {
+  return fetchWom<WOMPlayerMembership[]>(`/players/${encodeURIComponent(username.toLowerCase())}/groups`, 'player groups');
+}
+
+/**
+ * Get a group's members ranked by their current value in a metric
+ */
+export function getGroupHiscores(groupId: number, metric = 'overall', limit = 20): Promise<WOMGroupHiscoresEntry[] | null> {
+  const params = new URLSearchParams({ metric, limit: String(limit) });
+  return fetchWom<WOMGroupHiscoresEntry[]>(`/groups/${groupId}/hiscores?${params}`, 'group hiscores');
+}
+
+/**
+ * Get a group's members ranked by gains in a metric over a period or date range
+ */
+export function getGroupGains(
+  groupId: number,
+  metric = 'overall',
+  range: WOMDateRange = { period: 'week' },
+  limit = 20
+): Promise<WOMGroupGainsEntry[] | null> {
+  const params = dateRangeParams(range);
+  params.set('metric', metric);
+  params.set('limit', String(limit));
+  return fetchWom<WOMGroupGainsEntry[]>(`/groups/${groupId}/gained?${params}`, 'group gains');
+}
+
+/**
+ * Get a group's competitions, newest first
+ */
+export function getGroupCompetitions(groupId: number): Promise<WOMCompetition[] | null> {
+  return fetchWom<WOMCompetition[]>(`/groups/${groupId}/competitions`, 'group competitions');
+}
+
+/**
+ * Get a competition with every participant's progress
+ */
+export function getCompetition(competitionId: number): Promise<WOMCompetitionDetails | null> {
+  return fetchWom<WOMCompetitionDetails>(`/competitions/${competitionId}`, 'competition');
+}
+
+/**
+ * Get a player's rank in each competition they're in, optionally by status
+ */
+export function getPlayerCompetitionStandings(
+  username: string,
+  status: 'ongoing' | 'upcoming' | 'finished' = 'ongoing'
+): Promise<WOMCompetitionStanding[] | null> {
+  return fetchWom<WOMCompetitionStanding[]>(
+    `/players/${encodeURIComponent(username.toLowerCase())}/competitions/standings?status=${status}`,
+    'competition standings'
+  );
+}
+
+// ============================================
+// OSRS Wiki
+// ============================================
+
 /**
  * Search the OSRS Wiki
  */
@@ -241,6 +751,49 @@ export async function searchWiki(query: string): Promise<WikiSearchResult[]> {
   }
 }
 
+/**
+ * List the main-namespace pages in a Wiki category (follows continuation, up to 2000 pages)
+ */
+export async function getCategoryMembers(category: string): Promise<string[]> {
+  const titles: string[] = [];
+  let cmcontinue: string | undefined;
+
+  try {
+    do {
+      const params = new URLSearchParams({
+        action: 'query',
+        list: 'categorymembers',
+        cmtitle: category.startsWith('Category:') ? category : `Category:${category}`,
+        cmnamespace: '0',
+        cmlimit: '500',
+        format: 'json',
+        origin: '*',
+      });
+      if (cmcontinue) params.set('cmcontinue', cmcontinue);
+
+      const response = await rateLimitedFetch(`${WIKI_BASE_URL}?${params}`, {
+        headers: {
+          'User-Agent': 'OSRS-Agent-Dashboard/1.0',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Wiki API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      for (const member of data.query?.categorymembers ?? []) {
+        titles.push(member.title);
+      }
+      cmcontinue = data.continue?.cmcontinue;
+    } while (cmcontinue && titles.length < 2000);
+  } catch (error) {
+    console.error('Error fetching category members:', error);
+  }
+
+  return titles;
+}
+
 /**
  * Get page content from OSRS Wiki (with optional image)
  */
@@ -291,14 +844,15 @@ export async function getWikiPage(title: string): Promise<WikiPageContent | null
 }
 
 /**
- * Get full page content with sections (uses action=parse for complete wikitext)
+ * Get the raw wikitext for a page (uses action=parse)
  */
-export async function getWikiPageFull(title: string): Promise<string | null> {
+export async function getWikiWikitext(title: string): Promise<string | null> {
   try {
     const params = new URLSearchParams({
       action: 'parse',
       page: title,
       prop: 'wikitext',
+      redirects: 'true',
       format: 'json',
       origin: '*',
     });
@@ -312,17 +866,27 @@ export async function getWikiPageFull(title: string): Promise<string | null> {
     }
 
     const data = await response.json();
-    const wikitext = data.parse?.wikitext?.['*'];
-    if (!wikitext) return null;
-
-    // Clean wikitext: remove templates, keep readable content
-    return cleanWikitext(wikitext);
+    return data.parse?.wikitext?.['*'] || null;
   } catch (error) {
-    console.error('Error fetching full wiki page:', error);
+    console.error('Error fetching wiki wikitext:', error);
     return null;
   }
 }
 
+/**
+ * Get full page content with sections, plus structured infobox data
+ */
+export async function getWikiPageFull(title: string): Promise<WikiPageFull | null> {
+  const wikitext = await getWikiWikitext(title);
+  if (!wikitext) return null;
+
+  // Parse infoboxes first — cleanWikitext strips them from the prose
+  return {
+    content: cleanWikitext(wikitext),
+    infoboxes: parseInfoboxes(wikitext),
+  };
+}
+
 /**
  * Clean MediaWiki markup into readable plain text for the LLM
  */
@@ -425,7 +989,8 @@ export function formatStatsSummary(player: WOMPlayerDetails): string {
   const lines: string[] = [
     `Total Level: ${totalLevel}`,
     `Combat Level: ${player.combatLevel}`,
-    `Account Type: ${player.type}`,
+    `Account Type: ${player.type}${player.build && player.build !== 'main' ? ` (${player.build} build)` : ''}`,
+    `EHP: ${Math.round(player.ehp)} | EHB: ${Math.round(player.ehb)} | Time to max: ${Math.round(player.ttm)}h`,
     '',
     'Key Stats:',
   ];
@@ -470,13 +1035,13 @@ export function formatGainsSummary(gains: WOMGains): string {
 // ============================================
 
 /**
- * Fetch the item ID mapping from the Wiki Prices API
- * This maps item names to their in-game item IDs
+ * Fetch item metadata from the Wiki Prices API /mapping endpoint.
+ * Items are keyed by ID, with a lowercase name index that keeps duplicate names.
  */
-async function getItemMapping(): Promise<Record<string, number>> {
+export async function getItemMetadataStore(): Promise<ItemMetadataStore> {
   // Return cached data if still valid
-  if (itemMappingCache && Date.now() - mappingCacheTime < MAPPING_CACHE_TTL) {
-    return itemMappingCache;
+  if (itemMetadataCache && Date.now() - mappingCacheTime < MAPPING_CACHE_TTL) {
+    return itemMetadataCache;
   }
 
   try {
@@ -491,102 +1056,148 @@ async function getItemMapping(): Promise<Record<string, number>> {
     }
 
     const data = await response.json();
-    
-    // Build a name -> id lookup (lowercase for case-insensitive matching)
-    const mapping: Record<string, number> = {};
+
+    const store: ItemMetadataStore = { byId: new Map(), byName: new Map() };
     for (const item of data) {
-      if (item.name && item.id) {
-        mapping[item.name.toLowerCase()] = item.id;
-      }
+      if (!item.name || !item.id) continue;
+
+      store.byId.set(item.id, {
+        id: item.id,
+        name: item.name,
+        examine: item.examine ?? null,
+        members: !!item.members,
+        buyLimit: typeof item.limit === 'number' ? item.limit : null,
+        value: typeof item.value === 'number' ? item.value : null,
+        highAlch: typeof item.highalch === 'number' ? item.highalch : null,
+        lowAlch: typeof item.lowalch === 'number' ? item.lowalch : null,
+        icon: item.icon ?? null,
+      });
+
+      const key = item.name.toLowerCase();
+      store.byName.set(key, [...(store.byName.get(key) ?? []), item.id]);
     }
 
-    itemMappingCache = mapping;
+    itemMetadataCache = store;
     mappingCacheTime = Date.now();
-    return mapping;
+    return store;
   } catch (error) {
     console.error('Error fetching item mapping:', error);
-    return itemMappingCache || {};
+    return itemMetadataCache || { byId: new Map(), byName: new Map() };
   }
 }
 
 /**
- * Get item ID from item name using the Prices API mapping only (no Wiki fallback).
- * Uses progressively fuzzier matching strategies.
+ * Pick one ID among items sharing a name: prefer the one that traded most recently
  */
-async function getItemId(itemName: string): Promise<WikiItemIdResponse> {
-  const mapping = await getItemMapping();
-  const normalizedName = itemName.toLowerCase().trim();
-  
-  // 1. Direct exact lookup
-  if (mapping[normalizedName]) {
-    return {
-      itemId: mapping[normalizedName],
-      itemName: itemName,
-    };
+async function pickPreferredId(ids: number[]): Promise<number> {
+  if (ids.length === 1) return ids[0];
+  const prices = await getLatestPrices();
+  const lastTrade = (id: number) => Math.max(prices[id]?.highTime ?? 0, prices[id]?.lowTime ?? 0);
+  return [...ids].sort((a, b) => lastTrade(b) - lastTrade(a) || a - b)[0];
+}
+
+/**
+ * Get metadata for an item by ID or name (names go through alias and fuzzy resolution)
+ */
+export async function getItemMetadata(item: number | string): Promise<ItemMetadata | null> {
+  const store = await getItemMetadataStore();
+  if (typeof item === 'number') {
+    return store.byId.get(item) ?? null;
   }
+  const { itemId } = await resolveItem(item);
+  return itemId ? store.byId.get(itemId) ?? null : null;
+}
 
-  const allNames = Object.keys(mapping);
+/**
+ * Hourly traded volume for the most active of a set of IDs, used to break ties between similar names
+ */
+function popularityScore(
+  ids: number[],
+  volumes: Record<string, VolumePoint>
+): number {
+  const volume = Math.max(0, ...ids.map((id) => (volumes[id]?.highPriceVolume || 0) + (volumes[id]?.lowPriceVolume || 0)));
+  // 1M trades/hr or more scores 1
+  return Math.min(1, Math.log10(volume + 1) / 6);
+}
 
-  // 2. Exact match (redundant safety check)
-  let match = allNames.find(name => name === normalizedName);
-  if (match) {
-    return { itemId: mapping[match], itemName: match };
-  }
+/**
+ * Resolve a loosely typed item name against the Prices API mapping (no Wiki fallback).
+ * Exact names and community abbreviations resolve with full confidence; anything else is
+ * scored on edit distance and token overlap, with trade volume as a tie-breaker (or is no
+ * match at all with exactOnly).
+ */
+export async function resolveItem(itemName: string, options: ItemLookupOptions = {}): Promise<ItemResolution> {
+  const store = await getItemMetadataStore();
+  const queryName = itemName.toLowerCase().trim();
+
+  const resolve = async (
+    name: string,
+    confidence: number,
+    matchType: ItemResolution['matchType'],
+    alternatives: ItemMatchCandidate[] = []
+  ): Promise<ItemResolution> => {
+    const itemId = await pickPreferredId(store.byName.get(name)!);
+    return { itemId, itemName: store.byId.get(itemId)?.name ?? name, confidence, matchType, alternatives };
+  };
 
-  // 3. Query is a full substring of a mapping name (e.g. "whip" -> "abyssal whip")
-  match = allNames.find(name => name.includes(normalizedName));
-  if (match) {
-    return { itemId: mapping[match], itemName: match };
+  // 1. Direct exact lookup
+  if (store.byName.has(queryName)) {
+    return resolve(queryName, 1, 'exact');
   }
 
-  // 4. Mapping name is a full substring of the query (e.g. "abyssal whip osrs" -> "abyssal whip")
-  match = allNames.find(name => normalizedName.includes(name));
-  if (match) {
-    return { itemId: mapping[match], itemName: match };
+  // 2. Community abbreviations ("tbow", "bgs")
+  const aliasName = ITEM_ALIASES[queryName]?.toLowerCase();
+  if (aliasName && store.byName.has(aliasName)) {
+    return resolve(aliasName, 1, 'alias');
   }
 
-  // 5. Word-token matching: all words in the query appear in the mapping name
-  const queryWords = normalizedName.split(/\s+/).filter(w => w.length > 1);
-  if (queryWords.length > 0) {
-    match = allNames.find(name => queryWords.every(word => name.includes(word)));
-    if (match) {
-      return { itemId: mapping[match], itemName: match };
-    }
+  // A fuzzy match on a Wiki name is a different item, not a typo
+  if (options.exactOnly) {
+    return { itemId: null, itemName, confidence: 0, matchType: 'none', alternatives: [] };
   }
 
-  // 6. Partial word overlap scoring (best match with most overlapping words)
-  let bestMatch: string | null = null;
-  let bestScore = 0;
-  for (const name of allNames) {
-    const nameWords = name.split(/\s+/);
-    const overlap = queryWords.filter(w => nameWords.some(nw => nw.includes(w) || w.includes(nw))).length;
-    const score = overlap / Math.max(queryWords.length, nameWords.length);
-    if (score > bestScore && score >= 0.5) {
-      bestScore = score;
-      bestMatch = name;
-    }
+  // 3. Score every mapping name
+  const volumes = await getVolumeData();
+  const scored: { name: string; ids: number[]; score: number; rank: number }[] = [];
+  for (const [name, ids] of store.byName) {
+    const score = scoreNameMatch(queryName, name);
+    if (score < MIN_MATCH_SCORE) continue;
+    scored.push({ name, ids, score, rank: score * 0.9 + popularityScore(ids, volumes) * 0.1 });
   }
-  if (bestMatch) {
-    return { itemId: mapping[bestMatch], itemName: bestMatch };
+
+  if (scored.length === 0) {
+    return { itemId: null, itemName, confidence: 0, matchType: 'none', alternatives: [] };
   }
 
-  return {
-    itemId: null,
-    itemName: itemName,
-  };
+  scored.sort((a, b) => b.rank - a.rank);
+  const [best, ...rest] = scored;
+
+  // A near tie with the runner-up means we can't be sure which one was meant
+  const runnerUp = rest[0];
+  const ambiguous = runnerUp && best.rank - runnerUp.rank < 0.05;
+  const confidence = Math.round((ambiguous ? best.score * 0.85 : best.score) * 100) / 100;
+
+  const alternatives = rest.slice(0, MAX_ALTERNATIVES).map((c) => ({
+    itemId: c.ids[0],
+    itemName: store.byId.get(c.ids[0])?.name ?? c.name,
+    confidence: Math.round(c.score * 100) / 100,
+  }));
+
+  return resolve(best.name, confidence, 'fuzzy', alternatives);
 }
 
 /**
  * Get real-time price data for an item
  * Uses the OSRS Wiki Real-Time Prices API
  */
-export async function getItemPrice(itemName: string): Promise<ItemPriceData | null> {
+export async function getItemPrice(itemName: string, options: ItemLookupOptions = {}): Promise<ItemPriceData | null> {
   try {
-    // Get item ID from name
-    const { itemId, itemName: resolvedName } = await getItemId(itemName);
+    // Resolve the name to an item ID, keeping the match confidence for the caller
+    const { itemId, itemName: resolvedName, confidence, alternatives } = await resolveItem(itemName, options);
     
     if (!itemId) {
-      console.error(`Could not find item ID for: ${itemName}`);
+      // Untradeable Wiki names are expected to miss
+      if (!options.exactOnly) console.error(`Could not find item ID for: ${itemName}`);
       return null;
     }
 
@@ -612,6 +1223,8 @@ export async function getItemPrice(itemName: string): Promise<ItemPriceData | nu
       ? Math.round((priceData.high + priceData.low) / 2)
       : priceData.high || priceData.low || null;
 
+    const metadata = (await getItemMetadataStore()).byId.get(itemId);
+
     return {
       itemId,
       itemName: resolvedName,
@@ -621,6 +1234,13 @@ export async function getItemPrice(itemName: string): Promise<ItemPriceData | nu
       lowTime: priceData.lowTime || null,
       avgPrice,
       volume,
+      buyLimit: metadata?.buyLimit ?? null,
+      members: metadata?.members ?? null,
+      examine: metadata?.examine ?? null,
+      highAlch: metadata?.highAlch ?? null,
+      query: itemName,
+      matchConfidence: confidence,
+      alternatives,
       wikiUrl: `https://oldschool.runescape.wiki/w/${encodeURIComponent(resolvedName)}`,
     };
   } catch (error) {
@@ -632,19 +1252,220 @@ export async function getItemPrice(itemName: string): Promise<ItemPriceData | nu
 /**
  * Get prices for multiple items at once
  */
-export async function getMultipleItemPrices(itemNames: string[]): Promise<Record<string, ItemPriceData | null>> {
+export async function getMultipleItemPrices(
+  itemNames: string[],
+  options: ItemLookupOptions = {}
+): Promise<Record<string, ItemPriceData | null>> {
   // Pre-fetch shared data once
   await getLatestPrices();
   await getVolumeData();
   
   // Now resolve all items in parallel (only mapping lookups)
   const entries = await Promise.all(
-    itemNames.map(async (name) => [name, await getItemPrice(name)] as const)
+    itemNames.map(async (name) => [name, await getItemPrice(name, options)] as const)
   );
   
   return Object.fromEntries(entries);
 }
 
+/**
+ * Fetch a price timeseries for an item (up to 365 points at the given step)
+ */
+export async function getPriceTimeseries(itemId: number, timestep: PriceTimestep): Promise<PricePoint[]> {
+  const cacheKey = `${itemId}:${timestep}`;
+  const cached = timeseriesCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < TIMESERIES_CACHE_TTL[timestep]) {
+    return cached.data;
+  }
+
+  try {
+    const response = await fetch(`${PRICES_BASE_URL}/timeseries?timestep=${timestep}&id=${itemId}`, {
+      headers: { 'User-Agent': 'OSRS-Agent-Dashboard/1.0' },
+    });
+    if (!response.ok) throw new Error(`Timeseries API error: ${response.status}`);
+    const data = await response.json();
+    const series: PricePoint[] = (data.data || []).map((point: Partial<PricePoint>) => ({
+      timestamp: point.timestamp ?? 0,
+      avgHighPrice: point.avgHighPrice ?? null,
+      avgLowPrice: point.avgLowPrice ?? null,
+      highPriceVolume: point.highPriceVolume ?? 0,
+      lowPriceVolume: point.lowPriceVolume ?? 0,
+    }));
+    timeseriesCache.set(cacheKey, { data: series, fetchedAt: Date.now() });
+    return series;
+  } catch (error) {
+    console.error('Error fetching price timeseries:', error);
+    return cached?.data ?? [];
+  }
+}
+
+/** Mid price of a timeseries point, falling back to whichever side traded */
+function midPrice(point: PricePoint): number | null {
+  if (point.avgHighPrice && point.avgLowPrice) return (point.avgHighPrice + point.avgLowPrice) / 2;
+  return point.avgHighPrice || point.avgLowPrice || null;
+}
+
+function pointVolume(point: PricePoint): number {
+  return point.highPriceVolume + point.lowPriceVolume;
+}
+
+function toChange(from: number, to: number): PriceChange | null {
+  if (!from) return null;
+  return {
+    absolute: Math.round(to - from),
+    percent: Math.round(((to - from) / from) * 10000) / 100,
+  };
+}
+
+/** Price change between the latest priced point and the first priced point within the window */
+function changeOverWindow(series: PricePoint[], seconds: number): PriceChange | null {
+  const priced = series.filter((p) => midPrice(p) !== null);
+  if (priced.length < 2) return null;
+  const latest = priced[priced.length - 1];
+  // Require the series to actually reach back far enough
+  if (latest.timestamp - priced[0].timestamp < seconds * 0.9) return null;
+  const start = priced.find((p) => p.timestamp >= latest.timestamp - seconds) ?? priced[0];
+  return toChange(midPrice(start)!, midPrice(latest)!);
+}
+
+/**
+ * Compute 24h/7d/30d change, volatility and volume trend from hourly and daily series
+ */
+export function analyzePriceTrend(hourly: PricePoint[], daily: PricePoint[]): PriceTrendSummary {
+  const DAY = 86400;
+  const latestHourly = [...hourly].reverse().find((p) => midPrice(p) !== null);
+  const latestDaily = [...daily].reverse().find((p) => midPrice(p) !== null);
+  const currentPrice = latestHourly ? midPrice(latestHourly) : latestDaily ? midPrice(latestDaily) : null;
+
+  const last30 = daily.slice(-30);
+  const prices30 = last30.map(midPrice).filter((p): p is number => p !== null);
+
+  // Volatility: standard deviation of day-over-day returns
+  let volatility30d: number | null = null;
+  if (prices30.length >= 5) {
+    const returns = prices30.slice(1).map((p, i) => (p - prices30[i]) / prices30[i]);
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / returns.length;
+    volatility30d = Math.round(Math.sqrt(variance) * 10000) / 100;
+  }
+
+  const volume24h = hourly.slice(-24).reduce((sum, p) => sum + pointVolume(p), 0);
+  const recentWeek = daily.slice(-7);
+  const previousWeek = daily.slice(-14, -7);
+  const avgVolume = (points: PricePoint[]) =>
+    points.length > 0 ? points.reduce((sum, p) => sum + pointVolume(p), 0) / points.length : 0;
+  const volumeChange7d = previousWeek.length === 7 ? toChange(avgVolume(previousWeek), avgVolume(recentWeek)) : null;
+
+  let volumeTrend: PriceTrendSummary['volumeTrend'] = 'unknown';
+  if (volumeChange7d) {
+    if (volumeChange7d.percent > 15) volumeTrend = 'rising';
+    else if (volumeChange7d.percent < -15) volumeTrend = 'falling';
+    else volumeTrend = 'stable';
+  }
+
+  return {
+    currentPrice: currentPrice !== null ? Math.round(currentPrice) : null,
+    change24h: changeOverWindow(hourly, DAY),
+    change7d: changeOverWindow(hourly, 7 * DAY) ?? changeOverWindow(daily, 7 * DAY),
+    change30d: changeOverWindow(daily, 30 * DAY),
+    volatility30d,
+    volume24h,
+    volumeChange7d,
+    volumeTrend,
+    high30d: prices30.length > 0 ? Math.round(Math.max(...prices30)) : null,
+    low30d: prices30.length > 0 ? Math.round(Math.min(...prices30)) : null,
+  };
+}
+
+/**
+ * Get price history and trend analysis for an item.
+ * The returned series uses the requested timestep; the summary always uses 1h and 24h data.
+ */
+export async function getPriceHistory(
+  itemName: string,
+  timestep: PriceTimestep = '24h'
+): Promise<PriceHistory | null> {
+  const { itemId, itemName: resolvedName } = await resolveItem(itemName);
+  if (!itemId) {
+    console.error(`Could not find item ID for: ${itemName}`);
+    return null;
+  }
+
+  const [hourly, daily] = await Promise.all([
+    getPriceTimeseries(itemId, '1h'),
+    getPriceTimeseries(itemId, '24h'),
+  ]);
+  if (hourly.length === 0 && daily.length === 0) return null;
+
+  const series = timestep === '1h' ? hourly : timestep === '24h' ? daily : await getPriceTimeseries(itemId, timestep);
+
+  return {
+    itemId,
+    itemName: resolvedName,
+    timestep,
+    series,
+    summary: analyzePriceTrend(hourly, daily),
+    wikiUrl: `https://oldschool.runescape.wiki/w/${encodeURIComponent(resolvedName)}`,
+  };
+}
+
+/**
+ * Format a price trend summary for the AI
+ */
+export function formatPriceHistorySummary(history: PriceHistory): string {
+  const { summary } = history;
+  const fmtChange = (label: string, change: PriceChange | null) =>
+    change
+      ? `- **${label}:** ${change.absolute >= 0 ? '+' : '-'}${formatPrice(Math.abs(change.absolute))} gp (${change.percent >= 0 ? '+' : ''}${change.percent}%)`
+      : `- **${label}:** N/A`;
+
+  const lines: string[] = [
+    `## ${history.itemName} - Price Trend`,
+    '',
+    `- **Current Price:** ${formatPrice(summary.currentPrice)} gp`,
+    fmtChange('24h Change', summary.change24h),
+    fmtChange('7d Change', summary.change7d),
+    fmtChange('30d Change', summary.change30d),
+    `- **30d Range:** ${formatPrice(summary.low30d)} – ${formatPrice(summary.high30d)} gp`,
+    `- **Volatility (30d daily):** ${summary.volatility30d !== null ? `${summary.volatility30d}%` : 'N/A'}`,
+    `- **24h Volume:** ${summary.volume24h.toLocaleString()} traded (${summary.volumeTrend} week-over-week)`,
+    '',
+    `_[View on Wiki](${history.wikiUrl})_`,
+  ];
+
+  return lines.join('\n');
+}
+
+// ============================================
+// Grand Exchange Tax
+// ============================================
+
+export const GE_TAX_RATE = 0.02;
+export const GE_TAX_CAP = 5_000_000;
+
+// Items the GE does not tax (lowercase names)
+export const GE_TAX_EXEMPT = new Set([
+  'old school bond',
+  // Tools
+  'chisel', 'gardening trowel', 'glassblowing pipe', 'hammer', 'needle',
+  'pestle and mortar', 'rake', 'saw', 'secateurs', 'seed dibber', 'shears',
+  'spade', 'watering can(0)',
+  // Teleport tablets
+  'ardougne teleport (tablet)', 'camelot teleport (tablet)', 'civitas illa fortis teleport (tablet)',
+  'falador teleport (tablet)', 'kourend castle teleport (tablet)', 'lumbridge teleport (tablet)',
+  'teleport to house (tablet)', 'varrock teleport (tablet)',
+  // Energy potions
+  'energy potion(1)', 'energy potion(2)', 'energy potion(3)', 'energy potion(4)',
+]);
+
+/**
+ * GE tax paid by the seller on a single item: 2% rounded down, capped at 5M
+ */
+export function calculateGeTax(sellPrice: number, itemName?: string): number {
+  if (itemName && GE_TAX_EXEMPT.has(itemName.toLowerCase())) return 0;
+  return Math.min(GE_TAX_CAP, Math.floor(sellPrice * GE_TAX_RATE));
+}
+
 /**
  * Format price for display (e.g., 1.5M, 500K, 1,234)
  */
@@ -669,15 +1490,35 @@ export function formatPriceSummary(data: ItemPriceData): string {
   const lines: string[] = [
     `## ${data.itemName} - Current Prices`,
     '',
+  ];
+
+  if (data.matchConfidence < LOW_CONFIDENCE_THRESHOLD) {
+    const others = data.alternatives.map((a) => a.itemName).join(', ');
+    lines.push(`> Uncertain match for "${data.query}"${others ? ` — did you mean: ${others}?` : ''}`);
+    lines.push('');
+  }
+
+  lines.push(
     `- **Instant Buy (High):** ${formatPrice(data.highPrice)} gp`,
     `- **Instant Sell (Low):** ${formatPrice(data.lowPrice)} gp`,
     `- **Average Price:** ${formatPrice(data.avgPrice)} gp`,
-  ];
+  );
+
+  if (data.highPrice !== null && data.lowPrice !== null) {
+    const tax = calculateGeTax(data.highPrice, data.itemName);
+    const margin = data.highPrice - data.lowPrice - tax;
+    lines.push(`- **GE Tax on Sale:** ${formatPrice(tax)} gp`);
+    lines.push(`- **Margin After Tax:** ${margin < 0 ? '-' : ''}${formatPrice(Math.abs(margin))} gp`);
+  }
 
   if (data.volume !== null) {
     lines.push(`- **Hourly Volume:** ${data.volume.toLocaleString()} traded`);
   }
 
+  if (data.buyLimit !== null) {
+    lines.push(`- **Buy Limit:** ${data.buyLimit.toLocaleString()} per 4 hours`);
+  }
+
   lines.push('');
   lines.push(`_[View on Wiki](${data.wikiUrl})_`);
 
@@ -0,0 +1,467 @@
+/**
+ * Quest Planner Module
+ * Builds a quest prerequisite graph from {{Quest details}} / {{Infobox Quest}} and
+ * orders the quests a player still needs for a target quest or the Quest point cape.
+ */
+
+import { getWikiWikitext, getCategoryMembers } from './osrs';
+import { loadDataset, storeDataset } from './datasets';
+import { findTemplates, parseInfoboxes, stripMarkup, parseWikiNumber, parseScpTemplates } from './wikitext';
+import { isSkillName } from './xp';
+import { evaluateSkillRequirement, type BoostOptions } from './boosts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SkillRequirement {
+  /** Capitalised skill name, or "Combat" for combat level requirements */
+  skill: string;
+  level: number;
+  /** False for "(not boostable)" requirements, null when the Wiki doesn't say */
+  boostable: boolean | null;
+}
+
+export interface QuestNode {
+  name: string;
+  members: boolean | null;
+  difficulty: string | null;
+  length: string | null;
+  /** Quest points awarded on completion */
+  questPoints: number;
+  /** Quest points needed before starting */
+  questPointsRequired: number;
+  skills: SkillRequirement[];
+  /** Direct prerequisite quests; nested ones live on those quests' nodes */
+  prerequisites: string[];
+  items: string[];
+}
+
+/** Quest name -> node */
+export type QuestGraph = Map<string, QuestNode>;
+
+export interface PlayerQuestState {
+  /** Lowercase skill name (plus "combat") -> current level */
+  levels: Record<string, number>;
+  /** Lowercase names of completed quests */
+  completed: Set<string>;
+  /** Known quest point total; derived from completed quests when omitted */
+  questPoints?: number;
+  /** Only suggest boosts an ironman can obtain */
+  ironman?: boolean;
+}
+
+export interface UnmetSkill {
+  skill: string;
+  required: number;
+  current: number;
+  /** Boost that covers the gap (e.g. "Spicy stew (+5, random)"), null if it must be trained */
+  boost: string | null;
+}
+
+export interface QuestPlanStep {
+  quest: string;
+  unmetSkills: UnmetSkill[];
+  /** Quest points still missing when this quest comes up */
+  questPointsShortfall: number;
+  questPointsAfter: number;
+  /** Items the quest needs, as listed in its details */
+  items: string[];
+}
+
+export interface SkillTrainingTarget {
+  skill: string;
+  current: number;
+  required: number;
+  /** Quests in the plan that need this level */
+  quests: string[];
+}
+
+export interface QuestPlan {
+  target: string;
+  steps: QuestPlanStep[];
+  skillsToTrain: SkillTrainingTarget[];
+  startingQuestPoints: number;
+  finalQuestPoints: number;
+  /** Prerequisites that could not be found on the Wiki */
+  unknownQuests: string[];
+  /** Quests not fetched within the time budget, left out of the plan */
+  unloadedQuests: string[];
+}
+
+export const QUEST_CAPE_TARGET = 'Quest point cape';
+
+// ============================================
+// Parsing
+// ============================================
+
+export function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+}
+
+/**
+ * Parse the requirements parameter of {{Quest details}}.
+ * Quests are read from the list under "Completion of the following quests" (direct children only);
+ * skills come from {{SCP}} templates outside that list.
+ */
+export function parseQuestRequirements(text: string): Pick<QuestNode, 'skills' | 'prerequisites' | 'questPointsRequired'> {
+  const skills: SkillRequirement[] = [];
+  const prerequisites: string[] = [];
+  let questPointsRequired = 0;
+
+  // Depth of the "Completion of..." line we are under, and whether its children are direct prerequisites
+  let questBlock: { depth: number; collect: boolean } | null = null;
+
+  for (const line of text.split('\n')) {
+    const depth = line.match(/^\s*(\*+)/)?.[1].length ?? 0;
+    if (questBlock && depth <= questBlock.depth) questBlock = null;
+
+    if (questBlock) {
+      if (questBlock.collect && depth === questBlock.depth + 1) {
+        const link = line.match(/\[\[([^\]|#]+)/);
+        if (link) prerequisites.push(link[1].trim());
+      }
+      // Deeper lines are the prerequisite's own requirements
+      continue;
+    }
+
+    if (/complet(?:ion|ed)|started/i.test(line) && !/\{\{SCP/i.test(line)) {
+      // "Completion of [[Druidic Ritual]]" names the quest inline; its children are nested requirements
+      const inline = line.match(/\[\[([^\]|#]+)/);
+      if (inline) prerequisites.push(inline[1].trim());
+      questBlock = { depth, collect: !inline };
+      continue;
+    }
+
+    for (const { name, level, boostable } of parseScpTemplates(line)) {
+      if (name === 'quest' || name === 'quest points') {
+        questPointsRequired = Math.max(questPointsRequired, level);
+      } else if (name === 'combat' || isSkillName(name)) {
+        skills.push({ skill: capitalize(name), level, boostable });
+      }
+    }
+
+    const qpText = stripMarkup(line).match(/(\d+)\s+quest points?/i);
+    if (qpText) questPointsRequired = Math.max(questPointsRequired, parseInt(qpText[1], 10));
+  }
+
+  return { skills, prerequisites: [...new Set(prerequisites)], questPointsRequired };
+}
+
+/**
+ * Parse a quest page's wikitext into a graph node. Returns null for pages without {{Quest details}}.
+ */
+export function parseQuestPage(title: string, wikitext: string): QuestNode | null {
+  const details = findTemplates(wikitext, 'Quest details')[0];
+  if (!details) return null;
+
+  const infobox = parseInfoboxes(wikitext).quests[0];
+  const rewards = findTemplates(wikitext, 'Quest rewards')[0];
+  const requirements = parseQuestRequirements(details.params.requirements ?? '');
+
+  const items = (details.params.items ?? '')
+    .split('\n')
+    .map((line) => stripMarkup(line.replace(/^\s*\*+/, '')))
+    .filter(Boolean);
+
+  return {
+    name: infobox?.name || title,
+    members: infobox?.members ?? null,
+    difficulty: stripMarkup(details.params.difficulty) || null,
+    length: stripMarkup(details.params.length) || null,
+    questPoints: parseWikiNumber(rewards?.params.qp) ?? 0,
+    ...requirements,
+    items,
+  };
+}
+
+// ============================================
+// Graph Building
+// ============================================
+
+// Requested title (lowercase) -> parsed node, shared across requests and persisted to the dataset store
+const questCache = new Map<string, { node: QuestNode | null; cachedAt: number }>();
+const QUEST_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days; quest requirements rarely change
+const QUEST_DATASET_KEY = 'quests';
+const FETCH_BATCH_SIZE = 5;
+
+// Time a graph walk may spend fetching quest pages; a Quest point cape walk covers ~200 pages
+const GRAPH_FETCH_BUDGET_MS = 25_000;
+
+let questCacheLoaded = false;
+let questCacheDirty = false;
+
+interface StoredQuestNode {
+  title: string;
+  node: QuestNode | null;
+  cachedAt: number;
+}
+
+async function loadQuestCache(): Promise<void> {
+  if (questCacheLoaded) return;
+  questCacheLoaded = true;
+
+  const stored = await loadDataset<StoredQuestNode>(QUEST_DATASET_KEY);
+  for (const { title, node, cachedAt } of stored?.entries ?? []) {
+    if (!questCache.has(title)) questCache.set(title, { node, cachedAt });
+  }
+}
+
+async function saveQuestCache(): Promise<void> {
+  if (!questCacheDirty) return;
+  questCacheDirty = false;
+
+  const entries: StoredQuestNode[] = [...questCache]
+    .filter(([, { cachedAt }]) => Date.now() - cachedAt < QUEST_CACHE_TTL)
+    .map(([title, { node, cachedAt }]) => ({ title, node, cachedAt }));
+  await storeDataset(QUEST_DATASET_KEY, { entries, pending: [], complete: true }, 'https://oldschool.runescape.wiki/w/Quests');
+}
+
+/**
+ * Cached node for a title: the node (or null when the page isn't a quest), undefined when not cached
+ */
+function cachedQuestNode(title: string): QuestNode | null | undefined {
+  const cached = questCache.get(title.toLowerCase());
+  return cached && Date.now() - cached.cachedAt < QUEST_CACHE_TTL ? cached.node : undefined;
+}
+
+async function getQuestNode(title: string): Promise<QuestNode | null> {
+  const cached = cachedQuestNode(title);
+  if (cached !== undefined) return cached;
+
+  const wikitext = await getWikiWikitext(title);
+  const node = wikitext ? parseQuestPage(title, wikitext) : null;
+  // Don't cache fetch failures
+  if (wikitext) {
+    questCache.set(title.toLowerCase(), { node, cachedAt: Date.now() });
+    questCacheDirty = true;
+  }
+  return node;
+}
+
+/**
+ * Build the prerequisite graph reachable from the given quests.
+ * Prerequisite names are rewritten to the canonical quest names (redirects resolved).
+ * Once the fetch budget is spent only cached quests are added; the rest come back as
+ * unloaded, and are picked up by the next walk since fetched nodes are cached.
+ */
+export async function buildQuestGraph(
+  roots: string[],
+  budgetMs = GRAPH_FETCH_BUDGET_MS
+): Promise<{ graph: QuestGraph; unknown: string[]; unloaded: string[] }> {
+  await loadQuestCache();
+
+  const started = Date.now();
+  const graph: QuestGraph = new Map();
+  const resolved = new Map<string, string | null>();
+  const unloaded = new Set<string>();
+  let frontier = [...new Set(roots)];
+
+  while (frontier.length > 0) {
+    const next: string[] = [];
+
+    for (let i = 0; i < frontier.length; i += FETCH_BATCH_SIZE) {
+      const batch = frontier.slice(i, i + FETCH_BATCH_SIZE);
+      const overBudget = Date.now() - started > budgetMs;
+      const nodes = await Promise.all(batch.map((title) => (overBudget ? cachedQuestNode(title) : getQuestNode(title))));
+
+      batch.forEach((title, index) => {
+        const node = nodes[index];
+        if (node === undefined) {
+          unloaded.add(title);
+          return;
+        }
+        resolved.set(title.toLowerCase(), node?.name ?? null);
+        if (!node || graph.has(node.name)) return;
+
+        // Copy so resolving prerequisite names below doesn't touch the cached node
+        graph.set(node.name, { ...node });
+        for (const prereq of node.prerequisites) {
+          if (!resolved.has(prereq.toLowerCase())) next.push(prereq);
+        }
+      });
+    }
+
+    frontier = [...new Set(next)].filter((title) => !resolved.has(title.toLowerCase()) && !unloaded.has(title));
+  }
+
+  await saveQuestCache();
+
+  const unknown = new Set<string>();
+  for (const node of graph.values()) {
+    node.prerequisites = node.prerequisites.flatMap((prereq) => {
+      const name = resolved.get(prereq.toLowerCase());
+      if (!name && !unloaded.has(prereq)) unknown.add(prereq);
+      return name ? [name] : [];
+    });
+  }
+
+  return { graph, unknown: [...unknown], unloaded: [...unloaded] };
+}
+
+/**
+ * Every quest counted towards the Quest point cape
+ */
+export async function getAllQuestNames(): Promise<string[]> {
+  const members = await getCategoryMembers('Quests');
+  // Subpages are quick guides, transcripts and lists
+  return members.filter((title) => !title.includes('/'));
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Skill requirements the player doesn't meet outright, with the boost that bridges each gap if any
+ */
+export function findUnmetSkills(
+  requirements: SkillRequirement[],
+  levels: Record<string, number>,
+  options: BoostOptions = {}
+): UnmetSkill[] {
+  return requirements
+    .map((req) => evaluateSkillRequirement(req, levels[req.skill.toLowerCase()] ?? 1, options))
+    .filter((check) => check.status !== 'met')
+    .map(({ skill, required, current, boost }) => ({ skill, required, current, boost }));
+}
+
+/**
+ * Order the outstanding quests needed for the targets.
+ * Prerequisites always come first; among quests that are ready, ones the player can start right now
+ * (no skill or quest point gap) go first, then the smallest total level gap.
+ */
+export function planQuestPath(
+  graph: QuestGraph,
+  targets: string[],
+  state: PlayerQuestState,
+  label: string = targets.join(', ')
+): Omit<QuestPlan, 'unknownQuests' | 'unloadedQuests'> {
+  const isDone = (name: string) => state.completed.has(name.toLowerCase());
+
+  // Collect every outstanding quest reachable from the targets
+  const needed = new Set<string>();
+  const visit = (name: string) => {
+    const node = graph.get(name);
+    if (!node || isDone(name) || needed.has(name)) return;
+    needed.add(name);
+    node.prerequisites.forEach(visit);
+  };
+  targets.forEach(visit);
+
+  const startingQuestPoints = state.questPoints ?? [...graph.values()]
+    .filter((node) => isDone(node.name))
+    .reduce((sum, node) => sum + node.questPoints, 0);
+
+  const boostOptions: BoostOptions = { ironman: state.ironman };
+  const steps: QuestPlanStep[] = [];
+  const placed = new Set<string>();
+  let questPoints = startingQuestPoints;
+
+  while (placed.size < needed.size) {
+    const ready = [...needed].filter((name) =>
+      !placed.has(name) &&
+      graph.get(name)!.prerequisites.every((p) => placed.has(p) || isDone(p) || !needed.has(p))
+    );
+    // A cycle in Wiki data should never happen, but don't spin forever if it does
+    if (ready.length === 0) break;
+
+    const cost = (name: string) => {
+      const node = graph.get(name)!;
+      const gaps = findUnmetSkills(node.skills, state.levels, boostOptions);
+      const mustTrain = gaps.filter((g) => !g.boost);
+      const qpShort = Math.max(0, node.questPointsRequired - questPoints);
+      // Boostable gaps cost a little (the boost has to be brought), trained gaps cost their level difference
+      const levelGap = mustTrain.reduce((sum, g) => sum + g.required - g.current, 0) + (gaps.length - mustTrain.length);
+      return (mustTrain.length > 0 || qpShort > 0 ? 1000 : 0) + levelGap + qpShort;
+    };
+    ready.sort((a, b) => cost(a) - cost(b) || a.localeCompare(b));
+
+    const name = ready[0];
+    const node = graph.get(name)!;
+    const questPointsShortfall = Math.max(0, node.questPointsRequired - questPoints);
+    questPoints += node.questPoints;
+    placed.add(name);
+    steps.push({
+      quest: name,
+      unmetSkills: findUnmetSkills(node.skills, state.levels, boostOptions),
+      questPointsShortfall,
+      questPointsAfter: questPoints,
+      items: node.items,
+    });
+  }
+
+  // Highest level needed per skill across the whole plan, ignoring gaps a boost covers
+  const training = new Map<string, SkillTrainingTarget>();
+  for (const step of steps) {
+    for (const gap of step.unmetSkills.filter((g) => !g.boost)) {
+      const existing = training.get(gap.skill);
+      if (existing) {
+        existing.required = Math.max(existing.required, gap.required);
+        existing.quests.push(step.quest);
+      } else {
+        training.set(gap.skill, { skill: gap.skill, current: gap.current, required: gap.required, quests: [step.quest] });
+      }
+    }
+  }
+
+  return {
+    target: label,
+    steps,
+    skillsToTrain: [...training.values()].sort((a, b) => (b.required - b.current) - (a.required - a.current)),
+    startingQuestPoints,
+    finalQuestPoints: questPoints,
+  };
+}
+
+/**
+ * Fetch the graph and plan a path to a quest, or to the Quest point cape
+ */
+export async function planQuests(target: string, state: PlayerQuestState): Promise<QuestPlan | null> {
+  const questCape = /quest (point )?cape|all quests/i.test(target);
+  const roots = questCape ? await getAllQuestNames() : [target];
+  if (roots.length === 0) return null;
+
+  const { graph, unknown, unloaded } = await buildQuestGraph(roots);
+  if (graph.size === 0) return null;
+
+  // Use the canonical name so redirects ("Dragon Slayer") still match the graph keys
+  const targetNode = questCape ? null : await getQuestNode(target);
+  const targets = questCape ? [...graph.keys()] : targetNode ? [targetNode.name] : [];
+  if (targets.length === 0) return null;
+
+  const plan = planQuestPath(graph, targets, state, questCape ? QUEST_CAPE_TARGET : targets[0]);
+  return { ...plan, unknownQuests: unknown, unloadedQuests: unloaded };
+}
+
+/**
+ * Format a quest plan for the AI
+ */
+export function formatQuestPlan(plan: QuestPlan): string {
+  if (plan.steps.length === 0) {
+    return `All quests needed for ${plan.target} are already complete.`;
+  }
+
+  const lines = [`## Quest path to ${plan.target} (${plan.steps.length} quests)`, ''];
+  plan.steps.forEach((step, i) => {
+    const blockers = [
+      ...step.unmetSkills.map((s) => `${s.required} ${s.skill} (have ${s.current}${s.boost ? `, boost with ${s.boost}` : ''})`),
+      ...(step.questPointsShortfall > 0 ? [`${step.questPointsShortfall} more QP`] : []),
+    ];
+    lines.push(`${i + 1}. **${step.quest}**${blockers.length ? ` — needs ${blockers.join(', ')}` : ''}`);
+    if (step.items.length > 0) lines.push(`   - Items: ${step.items.join('; ')}`);
+  });
+
+  if (plan.skillsToTrain.length > 0) {
+    lines.push('', '### Skills to train');
+    for (const s of plan.skillsToTrain) {
+      lines.push(`- **${s.skill}:** ${s.current} → ${s.required} (for ${s.quests.join(', ')})`);
+    }
+  }
+
+  lines.push('', `Quest points: ${plan.startingQuestPoints} → ${plan.finalQuestPoints}`);
+  if (plan.unloadedQuests.length > 0) {
+    lines.push(`_${plan.unloadedQuests.length} quests couldn't be loaded in time and are missing from this plan; asking again fills them in._`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,635 @@
+/**
+ * Slayer Module
+ * Slayer master assignment tables with level, quest and unlock gating, task probabilities
+ * for a player's blocks and extends, and a block-list optimizer for points, XP or GP.
+ */
+
+import { capitalize } from './quests';
+
+// ============================================
+// Types
+// ============================================
+
+export type SlayerGoal = 'points' | 'xp' | 'gp';
+
+export interface SlayerMonster {
+  name: string;
+  slayerLevel: number;
+  /** Quests that must be completed before the task is assigned */
+  quests: string[];
+  /** Slayer XP per kill (the monster's hitpoints) */
+  xpEach: number;
+  /** Typical kills per hour with good gear */
+  killsPerHour: number;
+  /** Average GP per kill from drops */
+  gpEach: number;
+}
+
+export interface SlayerAssignment {
+  monster: string;
+  weight: number;
+  quantity: [number, number];
+  /** Quantity with the extend unlock bought */
+  extended: [number, number] | null;
+  /** Reward shop unlock the master needs before assigning the task, if any */
+  unlock: string | null;
+  /** Combat level the master needs before assigning the task, when above the master's own requirement */
+  combatLevel: number | null;
+}
+
+export interface SlayerMaster {
+  name: string;
+  combatLevel: number;
+  slayerLevel: number;
+  /** Points per task before streak bonuses */
+  points: number;
+  assignments: SlayerAssignment[];
+}
+
+export interface SlayerPlayerState {
+  /** Lowercase skill name (plus "combat") -> level */
+  levels: Record<string, number>;
+  /** Lowercase names of completed quests; null when unknown (quest-gated tasks assumed available) */
+  completedQuests: Set<string> | null;
+  /** Lowercase names of bought task unlocks */
+  unlocks: Set<string>;
+  /** Lowercase monster names */
+  blocks: Set<string>;
+  /** Lowercase monster names with the extend unlock bought */
+  extends: Set<string>;
+}
+
+export interface TaskOdds {
+  monster: string;
+  /** 0-1 chance of being assigned */
+  probability: number;
+  extended: boolean;
+  averageQuantity: number;
+  /** Hours to finish, including travel and banking */
+  hours: number;
+  xpPerHour: number;
+  gpPerHour: number;
+}
+
+export interface SlayerRates {
+  pointsPerHour: number;
+  xpPerHour: number;
+  gpPerHour: number;
+  /** Average hours per task */
+  hoursPerTask: number;
+}
+
+export interface IneligibleTask {
+  monster: string;
+  reason: string;
+}
+
+export interface TaskDistribution {
+  master: string;
+  tasks: TaskOdds[];
+  rates: SlayerRates;
+  /** Tasks the master won't assign (blocked, level, quest or unlock) */
+  ineligible: IneligibleTask[];
+  questsVerified: boolean;
+}
+
+export interface BlockPlan {
+  goal: SlayerGoal;
+  /** Recommended block list, including blocks the player keeps */
+  blocks: string[];
+  /** Tasks worth extending for the goal */
+  extends: string[];
+  before: SlayerRates;
+  after: SlayerRates;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Travel, banking and gearing per task
+export const TASK_OVERHEAD_HOURS = 0.1;
+
+export const DEFAULT_MAX_BLOCKS = 6;
+
+// Average points multiplier over a 1000-task cycle: every 10th task gives 5x, 50th 15x,
+// 100th 25x, 250th 35x and 1000th 50x the base
+const STREAK_MULTIPLIER = 1.775;
+
+function monster(
+  name: string,
+  slayerLevel: number,
+  xpEach: number,
+  killsPerHour: number,
+  gpEach: number,
+  quests: string[] = []
+): SlayerMonster {
+  return { name, slayerLevel, xpEach, killsPerHour, gpEach, quests };
+}
+
+export const SLAYER_MONSTERS: Record<string, SlayerMonster> = Object.fromEntries(
+  [
+    monster('Aberrant spectres', 60, 90, 120, 450),
+    monster('Abyssal demons', 85, 150, 150, 1800),
+    monster('Ankou', 1, 60, 150, 150),
+    monster('Araxytes', 92, 120, 120, 1200, ['Priest in Peril']),
+    monster('Aviansies', 1, 70, 100, 600),
+    monster('Banshees', 15, 22, 250, 50),
+    monster('Basilisks', 40, 75, 150, 300),
+    monster('Black demons', 1, 157, 90, 500),
+    monster('Black dragons', 1, 190, 40, 3500),
+    monster('Bloodveld', 50, 120, 180, 300),
+    monster('Blue dragons', 1, 105, 80, 1200),
+    monster('Brine rats', 47, 50, 200, 150, ['Olaf\'s Quest']),
+    monster('Bronze dragons', 1, 122, 50, 1300),
+    monster('Cave horrors', 58, 55, 150, 400, ['Cabin Fever']),
+    monster('Cave kraken', 87, 125, 150, 600),
+    monster('Cockatrice', 25, 37, 200, 50),
+    monster('Crocodiles', 1, 62, 150, 20),
+    monster('Dagannoth', 1, 70, 200, 150, ['Horror from the Deep']),
+    monster('Dark beasts', 90, 220, 80, 1000, ['Mourning\'s End Part II']),
+    monster('Drakes', 84, 250, 60, 1500),
+    monster('Dust devils', 65, 105, 300, 500, ['Desert Treasure I']),
+    monster('Elves', 1, 105, 120, 600, ['Regicide']),
+    monster('Fever spiders', 42, 40, 200, 40, ['Rum Deal']),
+    monster('Fire giants', 1, 111, 120, 250),
+    monster('Fossil Island wyverns', 66, 200, 50, 1500, ['Bone Voyage']),
+    monster('Gargoyles', 75, 105, 120, 1100),
+    monster('Ghouls', 1, 50, 200, 10, ['Priest in Peril']),
+    monster('Greater demons', 1, 87, 150, 200),
+    monster('Green dragons', 1, 75, 100, 2500),
+    monster('Harpie bug swarms', 33, 25, 250, 20),
+    monster('Hellhounds', 1, 116, 150, 50),
+    monster('Hill giants', 1, 35, 250, 300),
+    monster('Ice giants', 1, 70, 150, 80),
+    monster('Infernal mages', 45, 60, 150, 80),
+    monster('Iron dragons', 1, 165, 50, 1800),
+    monster('Jellies', 52, 75, 200, 150),
+    monster('Kalphite', 1, 90, 200, 50),
+    monster('Killerwatts', 37, 51, 200, 50),
+    monster('Kurask', 70, 97, 150, 600),
+    monster('Lesser demons', 1, 79, 150, 80),
+    monster('Lizardmen', 1, 60, 150, 300),
+    monster('Mithril dragons', 1, 254, 30, 6000),
+    monster('Mogres', 32, 48, 150, 20),
+    monster('Moss giants', 1, 60, 150, 200),
+    monster('Mutated zygomites', 57, 65, 120, 80),
+    monster('Nechryael', 80, 110, 200, 700),
+    monster('Ogres', 1, 60, 150, 80),
+    monster('Pyrefiends', 30, 45, 200, 60),
+    monster('Red dragons', 1, 140, 60, 1500),
+    monster('Rune dragons', 1, 330, 30, 30000, ['Dragon Slayer II']),
+    monster('Shades', 1, 50, 150, 100),
+    monster('Skeletal wyverns', 72, 140, 60, 2500, ['Elemental Workshop I']),
+    monster('Smoke devils', 93, 185, 200, 1000),
+    monster('Spiritual creatures', 63, 90, 120, 300, ['Death Plateau']),
+    monster('Steel dragons', 1, 210, 40, 2500),
+    monster('Suqahs', 1, 105, 120, 500, ['Lunar Diplomacy']),
+    monster('Terror dogs', 40, 82, 150, 50, ['Haunted Mine']),
+    monster('Trolls', 1, 90, 150, 150),
+    monster('Turoth', 55, 79, 150, 400),
+    monster('TzHaar', 1, 140, 100, 300),
+    monster('Vampyres', 1, 90, 120, 300),
+    monster('Waterfiends', 1, 128, 90, 400),
+    monster('Werewolves', 1, 60, 150, 20, ['Priest in Peril']),
+    monster('Wyrms', 62, 130, 120, 800),
+  ].map((m) => [m.name.toLowerCase(), m])
+);
+
+function task(
+  name: string,
+  weight: number,
+  quantity: [number, number],
+  extended: [number, number] | null = null,
+  unlock: string | null = null,
+  combatLevel: number | null = null
+): SlayerAssignment {
+  return { monster: name, weight, quantity, extended, unlock, combatLevel };
+}
+
+// Weights and quantities follow the Wiki's assignment tables
+export const SLAYER_MASTERS: SlayerMaster[] = [
+  {
+    name: 'Vannaka',
+    combatLevel: 40,
+    slayerLevel: 1,
+    points: 4,
+    assignments: [
+      task('Aberrant spectres', 8, [40, 90], null, null, 65),
+      task('Abyssal demons', 5, [40, 90], null, null, 85),
+      task('Ankou', 7, [25, 35]),
+      task('Basilisks', 8, [40, 90]),
+      task('Bloodveld', 8, [40, 90], null, null, 50),
+      task('Blue dragons', 7, [40, 90], null, null, 65),
+      task('Brine rats', 7, [40, 90]),
+      task('Cockatrice', 8, [40, 90]),
+      task('Crocodiles', 6, [40, 90], null, null, 50),
+      task('Dagannoth', 7, [40, 90], null, null, 75),
+      task('Dust devils', 8, [40, 90], null, null, 70),
+      task('Elves', 7, [30, 70], null, null, 70),
+      task('Fever spiders', 7, [30, 90]),
+      task('Fire giants', 7, [40, 90], null, null, 65),
+      task('Gargoyles', 5, [40, 90], null, null, 80),
+      task('Ghouls', 7, [10, 40]),
+      task('Green dragons', 6, [30, 60], null, null, 52),
+      task('Harpie bug swarms', 8, [40, 90]),
+      task('Hellhounds', 7, [30, 60], null, null, 75),
+      task('Hill giants', 7, [40, 90]),
+      task('Ice giants', 7, [30, 80], null, null, 50),
+      task('Infernal mages', 8, [40, 90]),
+      task('Jellies', 8, [40, 90], null, null, 57),
+      task('Kalphite', 7, [40, 90]),
+      task('Killerwatts', 6, [30, 80], null, null, 50),
+      task('Kurask', 7, [40, 90], null, null, 65),
+      task('Lesser demons', 7, [40, 90], null, null, 60),
+      task('Mogres', 7, [40, 90]),
+      task('Moss giants', 7, [40, 90]),
+      task('Nechryael', 5, [40, 90], null, null, 85),
+      task('Ogres', 7, [40, 90]),
+      task('Pyrefiends', 8, [40, 90]),
+      task('Shades', 8, [40, 90]),
+      task('Spiritual creatures', 8, [40, 90], null, null, 60),
+      task('Terror dogs', 6, [20, 45]),
+      task('Trolls', 7, [40, 90], null, null, 60),
+      task('Turoth', 8, [30, 90], null, null, 60),
+      task('Vampyres', 7, [10, 20]),
+      task('Werewolves', 7, [30, 60], null, null, 60),
+    ],
+  },
+  {
+    name: 'Chaeldar',
+    combatLevel: 70,
+    slayerLevel: 1,
+    points: 10,
+    assignments: [
+      task('Aberrant spectres', 8, [70, 130]),
+      task('Abyssal demons', 12, [70, 130], [200, 250], null, 85),
+      task('Aviansies', 7, [70, 130], [130, 250], 'Watch the birdie'),
+      task('Banshees', 5, [70, 130]),
+      task('Basilisks', 7, [70, 130], [150, 200]),
+      task('Black demons', 10, [70, 130], [200, 250], null, 80),
+      task('Bloodveld', 8, [70, 130], [200, 250]),
+      task('Blue dragons', 8, [70, 130]),
+      task('Brine rats', 7, [70, 130]),
+      task('Bronze dragons', 11, [4, 6], [30, 50]),
+      task('Cave horrors', 10, [70, 130], [200, 250], null, 85),
+      task('Cave kraken', 12, [30, 50], [150, 200], null, 80),
+      task('Dagannoth', 11, [70, 130], [200, 250], null, 75),
+      task('Dust devils', 9, [70, 130], [200, 250]),
+      task('Elves', 8, [70, 130]),
+      task('Fever spiders', 7, [70, 130]),
+      task('Fire giants', 12, [70, 130]),
+      task('Fossil Island wyverns', 7, [10, 20], [55, 75]),
+      task('Gargoyles', 11, [70, 130], [200, 250], null, 80),
+      task('Greater demons', 9, [70, 130], [200, 250], null, 75),
+      task('Jellies', 10, [70, 130]),
+      task('Kalphite', 11, [70, 130], [200, 250]),
+      task('Kurask', 12, [70, 130]),
+      task('Lesser demons', 9, [70, 130]),
+      task('Lizardmen', 8, [50, 110], null, 'Reptile got ripped'),
+      task('Mutated zygomites', 7, [8, 15]),
+      task('Pyrefiends', 6, [70, 130]),
+      task('Skeletal wyverns', 7, [10, 20], [50, 70]),
+      task('Spiritual creatures', 12, [70, 130], [181, 250]),
+      task('Trolls', 11, [70, 130]),
+      task('Turoth', 10, [70, 130]),
+      task('TzHaar', 8, [90, 150], null, 'Hot stuff'),
+      task('Vampyres', 6, [80, 120], [200, 250]),
+      task('Wyrms', 6, [60, 120], [200, 250]),
+    ],
+  },
+  {
+    name: 'Nieve',
+    combatLevel: 85,
+    slayerLevel: 1,
+    points: 12,
+    assignments: [
+      task('Aberrant spectres', 6, [120, 185], [200, 250]),
+      task('Abyssal demons', 9, [120, 185], [200, 250]),
+      task('Ankou', 5, [50, 90], [91, 150]),
+      task('Araxytes', 8, [40, 60], [200, 250]),
+      task('Aviansies', 6, [120, 185], [130, 250], 'Watch the birdie'),
+      task('Basilisks', 6, [120, 180], [200, 250], 'Basilocked'),
+      task('Black demons', 9, [120, 185], [200, 250]),
+      task('Black dragons', 6, [10, 20], [40, 60]),
+      task('Bloodveld', 9, [120, 185], [200, 250]),
+      task('Blue dragons', 4, [120, 185]),
+      task('Brine rats', 3, [120, 185]),
+      task('Cave horrors', 5, [120, 180], [200, 250]),
+      task('Cave kraken', 6, [100, 120], [150, 200]),
+      task('Dagannoth', 8, [120, 185], [200, 250]),
+      task('Dark beasts', 5, [10, 20], [110, 135], null, 90),
+      task('Drakes', 7, [30, 95]),
+      task('Dust devils', 6, [120, 185], [200, 250]),
+      task('Elves', 4, [60, 90]),
+      task('Fire giants', 9, [120, 185]),
+      task('Fossil Island wyverns', 5, [5, 25], [55, 75]),
+      task('Gargoyles', 6, [120, 185], [200, 250]),
+      task('Greater demons', 7, [120, 185], [150, 200]),
+      task('Hellhounds', 8, [120, 185]),
+      task('Iron dragons', 5, [30, 60], [60, 100]),
+      task('Kalphite', 9, [120, 185], [200, 250]),
+      task('Kurask', 3, [120, 185]),
+      task('Lizardmen', 8, [90, 120], null, 'Reptile got ripped'),
+      task('Mithril dragons', 5, [4, 9], [20, 30], 'I hope you mith me'),
+      task('Nechryael', 7, [110, 170], [200, 250]),
+      task('Red dragons', 5, [30, 80], null, 'Seeing red'),
+      task('Rune dragons', 2, [30, 60], [30, 60]),
+      task('Skeletal wyverns', 5, [5, 15], [50, 70]),
+      task('Smoke devils', 7, [120, 185], [200, 250]),
+      task('Spiritual creatures', 6, [120, 185], [181, 250]),
+      task('Steel dragons', 5, [30, 60], [40, 60]),
+      task('Suqahs', 8, [120, 185], [186, 250]),
+      task('Trolls', 6, [120, 185]),
+      task('TzHaar', 10, [110, 180], null, 'Hot stuff'),
+      task('Vampyres', 6, [110, 170], [200, 250], 'Actual vampyre slayer'),
+      task('Wyrms', 7, [80, 145], [200, 250]),
+    ],
+  },
+  {
+    name: 'Duradel',
+    combatLevel: 100,
+    slayerLevel: 50,
+    points: 15,
+    assignments: [
+      task('Aberrant spectres', 7, [130, 200], [200, 250]),
+      task('Abyssal demons', 12, [130, 200], [200, 250]),
+      task('Ankou', 5, [50, 80], [91, 150]),
+      task('Araxytes', 10, [60, 80], [200, 250]),
+      task('Aviansies', 8, [120, 200], [130, 250], 'Watch the birdie'),
+      task('Basilisks', 7, [130, 200], [200, 250], 'Basilocked'),
+      task('Black demons', 8, [130, 200], [200, 250]),
+      task('Black dragons', 9, [10, 20], [40, 60]),
+      task('Bloodveld', 8, [130, 200], [200, 250]),
+      task('Blue dragons', 4, [110, 170]),
+      task('Cave horrors', 4, [130, 200], [200, 250]),
+      task('Cave kraken', 9, [100, 120], [150, 200]),
+      task('Dagannoth', 9, [130, 200], [200, 250]),
+      task('Dark beasts', 11, [10, 20], [110, 135]),
+      task('Drakes', 8, [50, 110]),
+      task('Dust devils', 5, [130, 200], [200, 250]),
+      task('Elves', 4, [100, 170]),
+      task('Fire giants', 7, [130, 200]),
+      task('Fossil Island wyverns', 7, [20, 50], [55, 75]),
+      task('Gargoyles', 8, [130, 200], [200, 250]),
+      task('Greater demons', 9, [130, 200], [200, 250]),
+      task('Hellhounds', 10, [130, 200]),
+      task('Iron dragons', 5, [40, 60], [60, 100]),
+      task('Kalphite', 9, [130, 200], [200, 250]),
+      task('Kurask', 4, [130, 200]),
+      task('Lizardmen', 10, [130, 200], null, 'Reptile got ripped'),
+      task('Mithril dragons', 9, [5, 10], [20, 30], 'I hope you mith me'),
+      task('Nechryael', 9, [130, 200], [200, 250]),
+      task('Red dragons', 8, [30, 65], null, 'Seeing red'),
+      task('Skeletal wyverns', 7, [20, 40], [50, 70]),
+      task('Smoke devils', 9, [130, 200], [200, 250]),
+      task('Spiritual creatures', 7, [130, 200], [181, 250]),
+      task('Steel dragons', 7, [10, 20], [40, 60]),
+      task('Suqahs', 8, [60, 90], [186, 250]),
+      task('Trolls', 6, [130, 200]),
+      task('TzHaar', 10, [130, 199], null, 'Hot stuff'),
+      task('Vampyres', 8, [100, 210], [200, 250], 'Actual vampyre slayer'),
+      task('Waterfiends', 2, [130, 200]),
+      task('Wyrms', 8, [100, 160], [200, 250]),
+    ],
+  },
+];
+
+// ============================================
+// Lookup
+// ============================================
+
+export function findSlayerMaster(name: string): SlayerMaster | null {
+  const key = name.trim().toLowerCase();
+  return SLAYER_MASTERS.find((m) => m.name.toLowerCase() === key) ?? null;
+}
+
+/**
+ * The highest-tier master the player can use
+ */
+export function bestAvailableMaster(levels: Record<string, number>): SlayerMaster {
+  const combat = levels.combat ?? 3;
+  const slayer = levels.slayer ?? 1;
+  return (
+    [...SLAYER_MASTERS].reverse().find((m) => combat >= m.combatLevel && slayer >= m.slayerLevel) ??
+    SLAYER_MASTERS[0]
+  );
+}
+
+// Common player shorthand for task names
+const SLAYER_MONSTER_ALIASES: Record<string, string> = {
+  'abby demons': 'abyssal demons',
+  abbys: 'abyssal demons',
+  'abby specs': 'aberrant spectres',
+  gargs: 'gargoyles',
+  nechs: 'nechryael',
+  kraken: 'cave kraken',
+  zygos: 'mutated zygomites',
+  'fossil wyverns': 'fossil island wyverns',
+  'skele wyverns': 'skeletal wyverns',
+  smokes: 'smoke devils',
+};
+
+/**
+ * Match a player-typed task name ("abby demons", "Gargoyle") to a monster key
+ */
+export function resolveSlayerMonster(name: string): string | null {
+  const key = name.trim().toLowerCase();
+  if (SLAYER_MONSTERS[key]) return key;
+  if (SLAYER_MONSTER_ALIASES[key]) return SLAYER_MONSTER_ALIASES[key];
+  const singular = key.replace(/s$/, '');
+  return Object.keys(SLAYER_MONSTERS).find((m) => m.replace(/s$/, '') === singular || m.startsWith(key)) ?? null;
+}
+
+/**
+ * Why the master won't assign a task to this player, or null if they can get it
+ */
+function ineligibleReason(assignment: SlayerAssignment, state: SlayerPlayerState): string | null {
+  const key = assignment.monster.toLowerCase();
+  const monsterData = SLAYER_MONSTERS[key];
+  if (state.blocks.has(key)) return 'blocked';
+  if ((state.levels.slayer ?? 1) < monsterData.slayerLevel) return `needs ${monsterData.slayerLevel} Slayer`;
+  if (assignment.combatLevel && (state.levels.combat ?? 3) < assignment.combatLevel) return `needs ${assignment.combatLevel} combat`;
+  if (assignment.unlock && !state.unlocks.has(assignment.unlock.toLowerCase())) return `needs the "${assignment.unlock}" unlock`;
+  const missingQuests = state.completedQuests
+    ? monsterData.quests.filter((q) => !state.completedQuests!.has(q.toLowerCase()))
+    : [];
+  if (missingQuests.length > 0) return `needs ${missingQuests.join(', ')}`;
+  return null;
+}
+
+// ============================================
+// Calculations
+// ============================================
+
+function taskOdds(assignment: SlayerAssignment, probability: number, extend: boolean): TaskOdds {
+  const m = SLAYER_MONSTERS[assignment.monster.toLowerCase()];
+  const extended = extend && assignment.extended !== null;
+  const [min, max] = extended ? assignment.extended! : assignment.quantity;
+  const averageQuantity = (min + max) / 2;
+  const hours = averageQuantity / m.killsPerHour + TASK_OVERHEAD_HOURS;
+  return {
+    monster: assignment.monster,
+    probability,
+    extended,
+    averageQuantity,
+    hours,
+    xpPerHour: (averageQuantity * m.xpEach) / hours,
+    gpPerHour: (averageQuantity * m.gpEach) / hours,
+  };
+}
+
+/**
+ * Long-run rates over the task stream: totals per task weighted by probability,
+ * divided by the expected time per task
+ */
+export function expectedRates(tasks: TaskOdds[], master: SlayerMaster): SlayerRates {
+  const hoursPerTask = tasks.reduce((sum, t) => sum + t.probability * t.hours, 0);
+  if (hoursPerTask === 0) return { pointsPerHour: 0, xpPerHour: 0, gpPerHour: 0, hoursPerTask: 0 };
+  const per = (rate: (t: TaskOdds) => number) =>
+    tasks.reduce((sum, t) => sum + t.probability * rate(t) * t.hours, 0) / hoursPerTask;
+  return {
+    pointsPerHour: (master.points * STREAK_MULTIPLIER) / hoursPerTask,
+    xpPerHour: per((t) => t.xpPerHour),
+    gpPerHour: per((t) => t.gpPerHour),
+    hoursPerTask,
+  };
+}
+
+/**
+ * Chance of each task from a master given the player's levels, quests, unlocks, blocks and extends
+ */
+export function taskDistribution(master: SlayerMaster, state: SlayerPlayerState): TaskDistribution {
+  const ineligible: IneligibleTask[] = [];
+  const eligible = master.assignments.filter((a) => {
+    const reason = ineligibleReason(a, state);
+    if (reason) ineligible.push({ monster: a.monster, reason });
+    return !reason;
+  });
+
+  const totalWeight = eligible.reduce((sum, a) => sum + a.weight, 0);
+  const tasks = eligible
+    .map((a) => taskOdds(a, a.weight / totalWeight, state.extends.has(a.monster.toLowerCase())))
+    .sort((a, b) => b.probability - a.probability);
+
+  return {
+    master: master.name,
+    tasks,
+    rates: expectedRates(tasks, master),
+    ineligible,
+    questsVerified: state.completedQuests !== null,
+  };
+}
+
+function goalRate(rates: SlayerRates, goal: SlayerGoal): number {
+  if (goal === 'points') return rates.pointsPerHour;
+  return goal === 'xp' ? rates.xpPerHour : rates.gpPerHour;
+}
+
+/**
+ * Greedy block list: keep the player's current blocks, then repeatedly block the task whose
+ * removal raises the goal rate the most until the slots run out or nothing helps.
+ * For XP and GP, extends are suggested for tasks that beat the resulting average rate.
+ */
+export function optimizeBlocks(
+  master: SlayerMaster,
+  state: SlayerPlayerState,
+  goal: SlayerGoal,
+  maxBlocks = DEFAULT_MAX_BLOCKS
+): BlockPlan {
+  const before = taskDistribution(master, state).rates;
+  const blocks = new Set(state.blocks);
+  let current = before;
+
+  while (blocks.size < maxBlocks) {
+    const candidates = taskDistribution(master, { ...state, blocks }).tasks;
+    let best: { monster: string; rates: SlayerRates } | null = null;
+    for (const candidate of candidates) {
+      const trial = new Set(blocks).add(candidate.monster.toLowerCase());
+      const rates = taskDistribution(master, { ...state, blocks: trial }).rates;
+      if (goalRate(rates, goal) > goalRate(best?.rates ?? current, goal)) {
+        best = { monster: candidate.monster, rates };
+      }
+    }
+    if (!best) break;
+    blocks.add(best.monster.toLowerCase());
+    current = best.rates;
+  }
+
+  let extendSet = state.extends;
+  if (goal !== 'points') {
+    const extendable = new Set(master.assignments.filter((a) => a.extended).map((a) => a.monster.toLowerCase()));
+    const distribution = taskDistribution(master, { ...state, blocks });
+    const average = goalRate(distribution.rates, goal);
+    extendSet = new Set(
+      distribution.tasks
+        .filter((t) => extendable.has(t.monster.toLowerCase()))
+        .filter((t) => (goal === 'xp' ? t.xpPerHour : t.gpPerHour) > average)
+        .map((t) => t.monster.toLowerCase())
+    );
+    current = taskDistribution(master, { ...state, blocks, extends: extendSet }).rates;
+  }
+
+  const label = (key: string) => SLAYER_MONSTERS[key]?.name ?? capitalize(key);
+  return {
+    goal,
+    blocks: [...blocks].map(label),
+    extends: [...extendSet].map(label),
+    before,
+    after: current,
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function formatRate(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toFixed(1);
+}
+
+function formatRates(rates: SlayerRates): string {
+  return `${formatRate(rates.pointsPerHour)} points/hr · ${formatRate(rates.xpPerHour)} Slayer XP/hr · ${formatRate(rates.gpPerHour)} GP/hr · ${rates.hoursPerTask.toFixed(2)}h per task`;
+}
+
+/**
+ * Format a master's task odds and a block plan for the AI
+ */
+export function formatSlayerAdvice(distribution: TaskDistribution, plan: BlockPlan | null, maxTasks = 12): string {
+  const lines = [
+    `## Slayer: ${distribution.master}`,
+    `Current rates: ${formatRates(distribution.rates)}`,
+    '',
+    '### Most likely tasks',
+  ];
+  for (const t of distribution.tasks.slice(0, maxTasks)) {
+    lines.push(
+      `- **${t.monster}** — ${(t.probability * 100).toFixed(1)}% · ~${Math.round(t.averageQuantity)} kills` +
+      `${t.extended ? ' (extended)' : ''} · ${t.hours.toFixed(2)}h`
+    );
+  }
+
+  const notBlocked = distribution.ineligible.filter((i) => i.reason !== 'blocked');
+  if (notBlocked.length > 0) {
+    lines.push('', `Not assigned: ${notBlocked.map((i) => `${i.monster} (${i.reason})`).join(', ')}`);
+  }
+  if (!distribution.questsVerified) {
+    lines.push('_Quest-gated tasks are assumed available — completed quests weren\'t given._');
+  }
+
+  if (plan) {
+    lines.push(
+      '',
+      `### Recommended setup for ${plan.goal === 'xp' ? 'XP' : plan.goal === 'gp' ? 'GP' : 'points'}`,
+      `- **Block:** ${plan.blocks.length > 0 ? plan.blocks.join(', ') : 'nothing — no block improves this goal'}`,
+    );
+    if (plan.goal !== 'points') {
+      lines.push(`- **Extend:** ${plan.extends.length > 0 ? plan.extends.join(', ') : 'nothing'}`);
+    }
+    lines.push(`- Before: ${formatRates(plan.before)}`, `- After: ${formatRates(plan.after)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,247 @@
+/**
+ * Progress Timeline Module
+ * Time-series model over Wise Old Man snapshots: per-metric series for XP, boss KC and
+ * activity scores across a custom date range, plus the biggest movers in that range.
+ */
+
+import { getPlayerSnapshots, getPlayerMetricTimeline, type WOMDateRange } from './osrs';
+import { SKILL_NAMES } from './xp';
+import type { WOMSnapshot, WOMTimelineDatapoint } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type MetricKind = 'skill' | 'boss' | 'activity' | 'computed';
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+export interface MetricSeries {
+  metric: string;
+  kind: MetricKind;
+  /** Oldest first */
+  points: SeriesPoint[];
+  start: number | null;
+  end: number | null;
+  gained: number;
+  /** Average gain per day across the range */
+  perDay: number;
+}
+
+export interface MetricGain {
+  metric: string;
+  gained: number;
+}
+
+export interface ProgressTimeline {
+  username: string;
+  startDate: string;
+  endDate: string;
+  snapshotCount: number;
+  series: MetricSeries[];
+  /** Skills with the most XP gained in the range */
+  topSkills: MetricGain[];
+  /** Bosses with the most kills in the range */
+  topBosses: MetricGain[];
+}
+
+// WOM returns at most 50 snapshots per page
+const SNAPSHOT_PAGE_SIZE = 50;
+const MAX_SNAPSHOT_PAGES = 10;
+const MS_PER_DAY = 86400000;
+
+const ACTIVITY_PREFIXES = [
+  'clue_scrolls', 'bounty_hunter', 'league_points', 'last_man_standing', 'soul_wars',
+  'guardians_of_the_rift', 'pvp_arena', 'colosseum', 'collections_logged',
+];
+
+// ============================================
+// Model
+// ============================================
+
+/**
+ * Classify a WOM metric key
+ */
+export function metricKind(metric: string): MetricKind {
+  if (metric === 'overall' || (SKILL_NAMES as readonly string[]).includes(metric)) return 'skill';
+  if (metric === 'ehp' || metric === 'ehb') return 'computed';
+  if (ACTIVITY_PREFIXES.some((prefix) => metric.startsWith(prefix))) return 'activity';
+  return 'boss';
+}
+
+/**
+ * A metric's value in one snapshot: XP for skills, KC for bosses, score for activities.
+ * WOM uses -1 for unranked values, which are treated as missing.
+ */
+export function snapshotMetricValue(snapshot: WOMSnapshot, metric: string): number | null {
+  const { data } = snapshot;
+  let value: number | undefined;
+  switch (metricKind(metric)) {
+    case 'skill':
+      value = data.skills[metric]?.experience;
+      break;
+    case 'boss':
+      value = data.bosses[metric]?.kills;
+      break;
+    case 'activity':
+      value = data.activities[metric]?.score;
+      break;
+    case 'computed':
+      value = data.computed[metric]?.value;
+      break;
+  }
+  return value === undefined || value < 0 ? null : value;
+}
+
+function toSeries(metric: string, points: SeriesPoint[]): MetricSeries {
+  const start = points[0]?.value ?? null;
+  const end = points[points.length - 1]?.value ?? null;
+  const gained = start !== null && end !== null ? end - start : 0;
+  const days = points.length > 1
+    ? (new Date(points[points.length - 1].date).getTime() - new Date(points[0].date).getTime()) / MS_PER_DAY
+    : 0;
+  return {
+    metric,
+    kind: metricKind(metric),
+    points,
+    start,
+    end,
+    gained,
+    perDay: days > 0 ? Math.round(gained / days) : gained,
+  };
+}
+
+/**
+ * Build a metric's series from snapshots (any order)
+ */
+export function buildMetricSeries(snapshots: WOMSnapshot[], metric: string): MetricSeries {
+  const points = snapshots
+    .map((snapshot) => ({ date: snapshot.createdAt, value: snapshotMetricValue(snapshot, metric) }))
+    .filter((point): point is SeriesPoint => point.value !== null)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return toSeries(metric, points);
+}
+
+/**
+ * Build a metric's series from the WOM per-metric timeline endpoint
+ */
+export function seriesFromTimeline(metric: string, datapoints: WOMTimelineDatapoint[]): MetricSeries {
+  return toSeries(
+    metric,
+    datapoints.filter((d) => d.value >= 0).map((d) => ({ date: d.date, value: d.value }))
+  );
+}
+
+/**
+ * Biggest gains of one kind between the oldest and newest snapshot
+ */
+export function rankGains(snapshots: WOMSnapshot[], kind: 'skill' | 'boss', limit = 5): MetricGain[] {
+  if (snapshots.length < 2) return [];
+  const sorted = [...snapshots].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const metrics = Object.keys(kind === 'skill' ? last.data.skills : last.data.bosses).filter((m) => m !== 'overall');
+
+  return metrics
+    .map((metric) => {
+      const start = snapshotMetricValue(first, metric) ?? 0;
+      const end = snapshotMetricValue(last, metric) ?? start;
+      return { metric, gained: end - start };
+    })
+    .filter((g) => g.gained > 0)
+    .sort((a, b) => b.gained - a.gained)
+    .slice(0, limit);
+}
+
+/**
+ * Keep at most `max` evenly spaced points (always including the first and last)
+ */
+export function downsample(points: SeriesPoint[], max: number): SeriesPoint[] {
+  if (points.length <= max || max < 2) return points;
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => points[Math.round(i * step)]);
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+/**
+ * Fetch every snapshot in a date range, following WOM pagination up to a cap
+ */
+export async function fetchSnapshotRange(username: string, range: WOMDateRange): Promise<WOMSnapshot[] | null> {
+  const snapshots: WOMSnapshot[] = [];
+  for (let page = 0; page < MAX_SNAPSHOT_PAGES; page++) {
+    const batch = await getPlayerSnapshots(username, { ...range, limit: SNAPSHOT_PAGE_SIZE, offset: page * SNAPSHOT_PAGE_SIZE });
+    if (!batch) return page === 0 ? null : snapshots;
+    snapshots.push(...batch);
+    if (batch.length < SNAPSHOT_PAGE_SIZE) break;
+  }
+  return snapshots;
+}
+
+/**
+ * Progress for a custom date range: a series per requested metric and the top movers.
+ * Series come from the per-metric timeline endpoint (complete for long ranges); snapshots
+ * are used for the movers and as a fallback when a timeline call fails.
+ */
+export async function getProgressTimeline(
+  username: string,
+  range: { startDate: string; endDate: string },
+  metrics: string[] = ['overall']
+): Promise<ProgressTimeline | null> {
+  const [snapshots, timelines] = await Promise.all([
+    fetchSnapshotRange(username, range),
+    Promise.all(metrics.map((metric) => getPlayerMetricTimeline(username, metric, range))),
+  ]);
+  if (!snapshots && timelines.every((t) => t === null)) return null;
+
+  const series = metrics.map((metric, i) => {
+    const timeline = timelines[i];
+    return timeline ? seriesFromTimeline(metric, timeline) : buildMetricSeries(snapshots ?? [], metric);
+  });
+
+  return {
+    username,
+    startDate: range.startDate,
+    endDate: range.endDate,
+    snapshotCount: snapshots?.length ?? 0,
+    series,
+    topSkills: rankGains(snapshots ?? [], 'skill'),
+    topBosses: rankGains(snapshots ?? [], 'boss'),
+  };
+}
+
+/**
+ * Format a progress timeline for the AI
+ */
+export function formatProgressTimeline(timeline: ProgressTimeline): string {
+  const unit = (kind: MetricKind) => (kind === 'skill' ? 'XP' : kind === 'boss' ? 'KC' : '');
+  const lines = [
+    `## Progress for ${timeline.username} (${timeline.startDate.slice(0, 10)} → ${timeline.endDate.slice(0, 10)})`,
+    '',
+  ];
+
+  for (const s of timeline.series) {
+    if (s.points.length === 0) {
+      lines.push(`- **${s.metric}:** no data in range`);
+      continue;
+    }
+    lines.push(
+      `- **${s.metric}:** ${s.start?.toLocaleString()} → ${s.end?.toLocaleString()} ${unit(s.kind)} ` +
+      `(+${s.gained.toLocaleString()}, ~${s.perDay.toLocaleString()}/day, ${s.points.length} data points)`
+    );
+  }
+
+  if (timeline.topSkills.length > 0) {
+    lines.push('', '### Top skills', ...timeline.topSkills.map((g) => `- ${g.metric}: +${g.gained.toLocaleString()} XP`));
+  }
+  if (timeline.topBosses.length > 0) {
+    lines.push('', '### Top bosses', ...timeline.topBosses.map((g) => `- ${g.metric}: +${g.gained.toLocaleString()} KC`));
+  }
+
+  return lines.join('\n');
+}
@@ -3,8 +3,8 @@ export interface WOMPlayer {
   id: number;
   username: string;
   displayName: string;
-  type: 'regular' | 'ironman' | 'hardcore' | 'ultimate';
-  build: 'main' | 'f2p' | 'lvl3' | 'zerker' | 'def1' | 'hp10';
+  type: 'regular' | 'ironman' | 'hardcore' | 'ultimate' | 'unknown';
+  build: 'main' | 'f2p' | 'f2p_lvl3' | 'lvl3' | 'zerker' | 'def1' | 'hp10';
   country: string | null;
   status: 'active' | 'archived' | 'flagged' | 'banned';
   exp: number;
@@ -67,6 +67,164 @@ export interface WOMGains {
   };
 }
 
+export type WOMPeriod = 'five_min' | 'day' | 'week' | 'month' | 'year';
+
+export interface WOMAchievement {
+  playerId: number;
+  name: string;
+  metric: string;
+  measure: 'experience' | 'kills' | 'score' | 'value' | 'levels';
+  threshold: number;
+  createdAt: string;
+  /** Max time between the snapshots the date was derived from, in ms (null or -1 when unknown) */
+  accuracy: number | null;
+}
+
+export interface WOMAchievementProgress extends Omit<WOMAchievement, 'createdAt'> {
+  /** Null until the achievement is reached */
+  createdAt: string | null;
+  currentValue: number;
+  absoluteProgress: number;
+  /** 0-1 progress from the previous tier's threshold */
+  relativeProgress: number;
+}
+
+export interface WOMRecord {
+  playerId: number;
+  period: WOMPeriod;
+  metric: string;
+  value: number;
+  updatedAt: string;
+}
+
+export interface WOMTimelineDatapoint {
+  value: number;
+  rank: number;
+  date: string;
+}
+
+/** WOM efficiency algorithm, chosen from account type and build */
+export type WOMEfficiencyAlgorithm =
+  | 'main' | 'ironman' | 'ultimate' | 'lvl3' | 'f2p' | 'f2p_lvl3'
+  | 'f2p_ironman' | 'f2p_lvl3_ironman' | 'def1';
+
+export interface WOMSkillMethod {
+  /** XP the method becomes the best option from */
+  startExp: number;
+  /** XP per hour (0 when the skill isn't trained on this algorithm) */
+  rate: number;
+  description: string;
+}
+
+export interface WOMSkillBonus {
+  originSkill: string;
+  bonusSkill: string;
+  /** Origin-skill XP range the bonus applies to */
+  startExp: number;
+  endExp: number;
+  end: boolean;
+  /** Bonus XP per origin XP */
+  ratio: number;
+}
+
+export interface WOMSkillMeta {
+  skill: string;
+  methods: WOMSkillMethod[];
+  bonuses: WOMSkillBonus[];
+}
+
+export interface WOMBossMeta {
+  boss: string;
+  /** Kills per hour */
+  rate: number;
+}
+
+// WOM Group & Competition Types
+export interface WOMGroup {
+  id: number;
+  name: string;
+  clanChat: string | null;
+  description: string | null;
+  homeworld: number | null;
+  verified: boolean;
+  score: number;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WOMGroupMembership {
+  playerId: number;
+  groupId: number;
+  role: string;
+  createdAt: string;
+  player: WOMPlayer;
+}
+
+export interface WOMGroupDetails extends WOMGroup {
+  memberships: WOMGroupMembership[];
+}
+
+export interface WOMPlayerMembership {
+  playerId: number;
+  groupId: number;
+  role: string;
+  group: WOMGroup;
+}
+
+export interface WOMGroupHiscoresEntry {
+  player: WOMPlayer;
+  data:
+    | { type: 'skill'; rank: number; level: number; experience: number }
+    | { type: 'boss'; rank: number; kills: number }
+    | { type: 'activity'; rank: number; score: number }
+    | { type: 'computed'; rank: number; value: number };
+}
+
+export interface WOMGroupGainsEntry {
+  player: WOMPlayer;
+  startDate: string;
+  endDate: string;
+  data: { gained: number; start: number; end: number };
+}
+
+export interface WOMCompetition {
+  id: number;
+  title: string;
+  metric: string;
+  type: 'classic' | 'team';
+  startsAt: string;
+  endsAt: string;
+  groupId: number | null;
+  participantCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WOMParticipation {
+  playerId: number;
+  competitionId: number;
+  teamName: string | null;
+  player: WOMPlayer;
+  progress: { start: number; end: number; gained: number };
+  levels: { start: number; end: number; gained: number };
+}
+
+export interface WOMCompetitionDetails extends WOMCompetition {
+  /** Sorted by gained, highest first */
+  participations: WOMParticipation[];
+}
+
+export interface WOMCompetitionStanding {
+  playerId: number;
+  competitionId: number;
+  teamName: string | null;
+  competition: WOMCompetition;
+  progress: { start: number; end: number; gained: number };
+  levels: { start: number; end: number; gained: number };
+  rank: number;
+}
+
 // Collection Log Types
 export interface CollectionLogItem {
   id: number;
@@ -98,13 +256,18 @@ export interface CollectionLogData {
 }
 
 // User Context
+/** WOM account types plus the group ironman variants (from the collection log export) */
+export type GameMode =
+  | 'regular' | 'ironman' | 'hardcore' | 'ultimate'
+  | 'group_ironman' | 'hardcore_group_ironman' | 'unranked_group_ironman';
+
 export interface UserContext {
   username: string | null;
   stats: WOMPlayerDetails | null;
   gains: WOMGains | null;
   collectionLog: CollectionLogData | null;
   rareItems: CollectionLogItem[];
-  accountType: 'regular' | 'ironman' | 'hardcore' | 'ultimate' | null;
+  accountType: GameMode | null;
 }
 
 // Tavily API Types
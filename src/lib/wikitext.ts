@@ -0,0 +1,520 @@
+/**
+ * Wikitext Template Parser
+ * Extracts structured data from MediaWiki templates (infoboxes, drop tables, etc.)
+ * before cleanWikitext flattens the page into prose.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface WikiTemplate {
+  /** Template name, trimmed and with the first letter upper-cased (e.g. "Infobox Item") */
+  name: string;
+  /** Named parameters (key=value) plus positional ones keyed "1", "2", ... */
+  params: Record<string, string>;
+  /** Raw template source including the surrounding braces */
+  raw: string;
+}
+
+export interface InfoboxItem {
+  version: string | null;
+  name: string;
+  itemId: number[];
+  members: boolean | null;
+  tradeable: boolean | null;
+  equipable: boolean | null;
+  stackable: boolean | null;
+  noteable: boolean | null;
+  questItem: string | null;
+  examine: string | null;
+  value: number | null;
+  highAlch: number | null;
+  lowAlch: number | null;
+  weight: number | null;
+  buyLimit: number | null;
+}
+
+export interface InfoboxMonster {
+  version: string | null;
+  name: string;
+  combatLevel: number | null;
+  hitpoints: number | null;
+  maxHit: string | null;
+  attackStyle: string | null;
+  attackSpeed: number | null;
+  aggressive: boolean | null;
+  poisonous: boolean | null;
+  members: boolean | null;
+  size: number | null;
+  slayerLevel: number | null;
+  slayerXp: number | null;
+  slayerCategory: string | null;
+  examine: string | null;
+  levels: {
+    attack: number;
+    strength: number;
+    defence: number;
+    magic: number;
+    ranged: number;
+  };
+  offensive: {
+    attack: number;
+    strength: number;
+    magic: number;
+    magicDamage: number;
+    ranged: number;
+    rangedStrength: number;
+  };
+  defensive: {
+    stab: number;
+    slash: number;
+    crush: number;
+    magic: number;
+    ranged: number;
+    light: number;
+    standard: number;
+    heavy: number;
+  };
+}
+
+export interface InfoboxQuest {
+  version: string | null;
+  name: string;
+  number: number | null;
+  members: boolean | null;
+  series: string | null;
+  releaseDate: string | null;
+  developer: string | null;
+}
+
+export interface InfoboxBonuses {
+  version: string | null;
+  slot: string | null;
+  attackSpeed: number | null;
+  attackRange: number | null;
+  combatStyle: string | null;
+  attack: { stab: number; slash: number; crush: number; magic: number; ranged: number };
+  defence: { stab: number; slash: number; crush: number; magic: number; ranged: number };
+  strength: number;
+  rangedStrength: number;
+  magicDamage: number;
+  prayer: number;
+}
+
+export interface ParsedInfoboxes {
+  items: InfoboxItem[];
+  monsters: InfoboxMonster[];
+  quests: InfoboxQuest[];
+  bonuses: InfoboxBonuses[];
+}
+
+// ============================================
+// Template Tokenizer
+// ============================================
+
+/**
+ * Find every top-level template in a wikitext string.
+ * Nested templates stay inside their parent's parameter values.
+ */
+export function parseTemplates(wikitext: string): WikiTemplate[] {
+  const templates: WikiTemplate[] = [];
+  const text = wikitext.replace(/<!--[\s\S]*?-->/g, '');
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < text.length - 1; i++) {
+    if (text[i] === '{' && text[i + 1] === '{') {
+      if (depth === 0) start = i;
+      depth++;
+      i++;
+    } else if (text[i] === '}' && text[i + 1] === '}' && depth > 0) {
+      depth--;
+      i++;
+      if (depth === 0 && start >= 0) {
+        const raw = text.slice(start, i + 1);
+        const parsed = parseTemplateBody(raw.slice(2, -2));
+        if (parsed) templates.push({ ...parsed, raw });
+        start = -1;
+      }
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Find all templates matching a name (case-insensitive, underscores treated as spaces)
+ */
+export function findTemplates(wikitext: string, name: string): WikiTemplate[] {
+  const target = normalizeTemplateName(name);
+  return parseTemplates(wikitext).filter((t) => t.name.toLowerCase() === target.toLowerCase());
+}
+
+function normalizeTemplateName(name: string): string {
+  const cleaned = name.replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+}
+
+/** Split a template body on top-level pipes, respecting nested {{ }} and [[ ]] */
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let braces = 0;
+  let brackets = 0;
+  let current = '';
+
+  for (let i = 0; i < body.length; i++) {
+    const pair = body.slice(i, i + 2);
+    if (pair === '{{') { braces++; current += pair; i++; continue; }
+    if (pair === '}}' && braces > 0) { braces--; current += pair; i++; continue; }
+    if (pair === '[[') { brackets++; current += pair; i++; continue; }
+    if (pair === ']]' && brackets > 0) { brackets--; current += pair; i++; continue; }
+    if (body[i] === '|' && braces === 0 && brackets === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += body[i];
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseTemplateBody(body: string): Omit<WikiTemplate, 'raw'> | null {
+  const [rawName, ...rawParams] = splitTopLevel(body);
+  const name = normalizeTemplateName(rawName);
+  if (!name || name.startsWith('#')) return null;
+
+  const params: Record<string, string> = {};
+  let position = 1;
+  for (const part of rawParams) {
+    const eq = part.indexOf('=');
+    // Only treat "=" as a separator when the key is a plain identifier
+    if (eq > 0 && /^[\w\s-]+$/.test(part.slice(0, eq))) {
+      params[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim();
+    } else {
+      params[String(position++)] = part.trim();
+    }
+  }
+
+  return { name, params };
+}
+
+// ============================================
+// Tables
+// ============================================
+
+export interface WikiTable {
+  /** Header cells as plain lowercase text */
+  headers: string[];
+  /** Raw wikitext of each body cell, row by row */
+  rows: string[][];
+}
+
+/** Drop a leading cell attribute block (`style="..." | content`) */
+function stripCellAttributes(cell: string): string {
+  const parts = splitTopLevel(cell);
+  return parts.length > 1 && parts[0].includes('=') && !/[[{]/.test(parts[0]) ? parts.slice(1).join('|') : cell;
+}
+
+/**
+ * Parse every {| ... |} wikitable into header text and raw body cells.
+ * Nested tables, rowspans and colspans are not expanded.
+ */
+export function parseWikitables(wikitext: string): WikiTable[] {
+  const tables: WikiTable[] = [];
+
+  for (const table of wikitext.match(/\{\|[\s\S]*?\n\|\}/g) ?? []) {
+    const headers: string[] = [];
+    const rows: string[][] = [];
+    const body = table.replace(/^\{\|[^\n]*/, '').replace(/\n\|\}$/, '');
+
+    for (const row of body.split(/\n\|-[^\n]*/)) {
+      const text = row.trim();
+      if (!text || text.startsWith('|+')) continue;
+      if (text.startsWith('!')) {
+        if (rows.length === 0) {
+          headers.push(...text.slice(1).split(/\n!|!!/).map((cell) => stripMarkup(stripCellAttributes(cell)).toLowerCase()));
+        }
+        continue;
+      }
+      // Cells start with "|" at the beginning of a line; "||" separates inline cells
+      rows.push(`\n${text}`.split(/\n\||\|\|/).slice(1).map((cell) => stripCellAttributes(cell).trim()));
+    }
+
+    if (rows.length > 0) tables.push({ headers, rows });
+  }
+
+  return tables;
+}
+
+// ============================================
+// Value Helpers
+// ============================================
+
+/**
+ * Reduce a template parameter value to plain text (links, refs, nested templates removed)
+ */
+export function stripMarkup(value: string | undefined): string {
+  if (!value) return '';
+  let text = value;
+  text = text.replace(/<ref[^>]*>[\s\S]*?<\/ref>/gi, '');
+  text = text.replace(/<ref[^/]*\/>/gi, '');
+  text = text.replace(/\{\{[Cc]oins\|([^}]*)\}\}/g, '$1');
+  text = text.replace(/\{\{(?:[Ss]kill|SCP)\|([^}|]*)\|?([^}|]*)[^}]*\}\}/g, (_, a: string, b: string) => (b ? `${b} ${a}` : a));
+  text = text.replace(/\[\[(?:File|Image):[^\]]*\]\]/gi, '');
+  text = text.replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2');
+  text = text.replace(/\[\[([^\]]*)\]\]/g, '$1');
+  text = text.replace(/\{\{[^{}]*\}\}/g, '');
+  text = text.replace(/<br\s*\/?>/gi, ', ');
+  text = text.replace(/<\/?[^>]+>/g, '');
+  text = text.replace(/'{2,}/g, '');
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Parse a wiki number like "1,234", "+5", "12.5 kg". Returns null for "?", "N/A", blanks. */
+export function parseWikiNumber(value: string | undefined): number | null {
+  const text = stripMarkup(value).replace(/,/g, '');
+  const match = text.match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const num = parseFloat(match[0]);
+  return Number.isFinite(num) ? num : null;
+}
+
+/** Parse "Yes"/"No" style flags */
+export function parseWikiBoolean(value: string | undefined): boolean | null {
+  const text = stripMarkup(value).toLowerCase();
+  if (!text) return null;
+  if (text.startsWith('yes') || text === 'true') return true;
+  if (text.startsWith('no') || text === 'false') return false;
+  return null;
+}
+
+/**
+ * Parse a boostability note following a requirement: "(not boostable)", {{Boostable|no}}, "(boostable)".
+ * Returns null when the text says nothing either way.
+ */
+export function parseBoostableNote(text: string): boolean | null {
+  if (/not\s+boostable|cannot\s+be\s+boosted|\{\{boostable\|no\}\}/i.test(text)) return false;
+  if (/\(boostable\)|\{\{boostable(\|yes)?\}\}/i.test(text)) return true;
+  return null;
+}
+
+/**
+ * Extract {{SCP|Skill|level}} requirement templates from a line of wikitext.
+ * Names are lowercased ("attack", "quest", "combat"); levels may use thousands separators.
+ * Boostability comes from the text between a template and the next one.
+ */
+export function parseScpTemplates(text: string): { name: string; level: number; boostable: boolean | null }[] {
+  const matches = [...text.matchAll(/\{\{SCP\|([^|}]+)\|([\d,]+)[^}]*\}\}/gi)];
+  return matches.map((match, i) => {
+    const noteStart = match.index + match[0].length;
+    const noteEnd = matches[i + 1]?.index ?? text.length;
+    return {
+      name: match[1].trim().toLowerCase(),
+      level: parseInt(match[2].replace(/,/g, ''), 10),
+      boostable: parseBoostableNote(text.slice(noteStart, noteEnd)),
+    };
+  });
+}
+
+function numberOrZero(value: string | undefined): number {
+  return parseWikiNumber(value) ?? 0;
+}
+
+function textOrNull(value: string | undefined): string | null {
+  const text = stripMarkup(value);
+  return text || null;
+}
+
+/**
+ * Expand a versioned infobox (|version1=...|version2=...) into one param set per version.
+ * Keys suffixed with the version number (e.g. "examine2") override the shared value.
+ */
+export function expandVersions(params: Record<string, string>): { version: string | null; params: Record<string, string> }[] {
+  const versionNumbers = Object.keys(params)
+    .map((key) => key.match(/^version(\d+)$/)?.[1])
+    .filter((n): n is string => !!n)
+    .sort((a, b) => Number(a) - Number(b));
+
+  if (versionNumbers.length === 0) {
+    return [{ version: null, params }];
+  }
+
+  const base: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (!/\d+$/.test(key) || key === '1') base[key] = value;
+  }
+
+  return versionNumbers.map((n) => {
+    const merged: Record<string, string> = { ...base };
+    for (const [key, value] of Object.entries(params)) {
+      const match = key.match(/^(.*?)(\d+)$/);
+      if (match && match[2] === n && match[1]) merged[match[1]] = value;
+    }
+    return { version: stripMarkup(params[`version${n}`]) || n, params: merged };
+  });
+}
+
+// ============================================
+// Infobox Parsers
+// ============================================
+
+function parseInfoboxItem(version: string | null, p: Record<string, string>): InfoboxItem {
+  const value = parseWikiNumber(p.value);
+  const alchable = parseWikiBoolean(p.alchable) !== false;
+  const explicitHigh = parseWikiNumber(p.highalch);
+  const explicitLow = parseWikiNumber(p.lowalch);
+
+  return {
+    version,
+    name: stripMarkup(p.name),
+    itemId: stripMarkup(p.id)
+      .split(/[,\s]+/)
+      .map((id) => parseInt(id, 10))
+      .filter((id) => Number.isFinite(id)),
+    members: parseWikiBoolean(p.members),
+    tradeable: parseWikiBoolean(p.tradeable),
+    equipable: parseWikiBoolean(p.equipable),
+    stackable: parseWikiBoolean(p.stackable),
+    noteable: parseWikiBoolean(p.noteable),
+    questItem: (() => {
+      const quest = stripMarkup(p.quest);
+      return quest && quest.toLowerCase() !== 'no' ? quest : null;
+    })(),
+    examine: textOrNull(p.examine),
+    value,
+    highAlch: explicitHigh ?? (alchable && value !== null ? Math.floor(value * 0.6) : null),
+    lowAlch: explicitLow ?? (alchable && value !== null ? Math.floor(value * 0.4) : null),
+    weight: parseWikiNumber(p.weight),
+    buyLimit: parseWikiNumber(p.limit ?? p.buylimit),
+  };
+}
+
+function parseInfoboxMonster(version: string | null, p: Record<string, string>): InfoboxMonster {
+  return {
+    version,
+    name: stripMarkup(p.name),
+    combatLevel: parseWikiNumber(p.combat),
+    hitpoints: parseWikiNumber(p.hitpoints),
+    maxHit: textOrNull(p['max hit']),
+    attackStyle: textOrNull(p['attack style']),
+    attackSpeed: parseWikiNumber(p['attack speed']),
+    aggressive: parseWikiBoolean(p.aggressive),
+    poisonous: parseWikiBoolean(p.poisonous),
+    members: parseWikiBoolean(p.members),
+    size: parseWikiNumber(p.size),
+    slayerLevel: parseWikiNumber(p.slaylvl),
+    slayerXp: parseWikiNumber(p.slayxp),
+    slayerCategory: textOrNull(p.cat),
+    examine: textOrNull(p.examine),
+    levels: {
+      attack: numberOrZero(p.att),
+      strength: numberOrZero(p.str),
+      defence: numberOrZero(p.def),
+      magic: numberOrZero(p.mage),
+      ranged: numberOrZero(p.range),
+    },
+    offensive: {
+      attack: numberOrZero(p.attbns),
+      strength: numberOrZero(p.strbns),
+      magic: numberOrZero(p.amagic),
+      magicDamage: numberOrZero(p.mbns),
+      ranged: numberOrZero(p.arange),
+      rangedStrength: numberOrZero(p.rngbns),
+    },
+    defensive: {
+      stab: numberOrZero(p.dstab),
+      slash: numberOrZero(p.dslash),
+      crush: numberOrZero(p.dcrush),
+      magic: numberOrZero(p.dmagic),
+      // Ranged defence was split into light/standard/heavy; fall back to the old single value
+      ranged: numberOrZero(p.drange ?? p.dstandard),
+      light: numberOrZero(p.dlight ?? p.drange),
+      standard: numberOrZero(p.dstandard ?? p.drange),
+      heavy: numberOrZero(p.dheavy ?? p.drange),
+    },
+  };
+}
+
+function parseInfoboxQuest(version: string | null, p: Record<string, string>): InfoboxQuest {
+  return {
+    version,
+    name: stripMarkup(p.name),
+    number: parseWikiNumber(p.number),
+    members: parseWikiBoolean(p.members),
+    series: textOrNull(p.series),
+    releaseDate: textOrNull(p.release),
+    developer: textOrNull(p.developer),
+  };
+}
+
+function parseInfoboxBonuses(version: string | null, p: Record<string, string>): InfoboxBonuses {
+  return {
+    version,
+    slot: textOrNull(p.slot),
+    attackSpeed: parseWikiNumber(p.speed),
+    attackRange: parseWikiNumber(p.attackrange),
+    combatStyle: textOrNull(p.combatstyle),
+    attack: {
+      stab: numberOrZero(p.astab),
+      slash: numberOrZero(p.aslash),
+      crush: numberOrZero(p.acrush),
+      magic: numberOrZero(p.amagic),
+      ranged: numberOrZero(p.arange),
+    },
+    defence: {
+      stab: numberOrZero(p.dstab),
+      slash: numberOrZero(p.dslash),
+      crush: numberOrZero(p.dcrush),
+      magic: numberOrZero(p.dmagic),
+      ranged: numberOrZero(p.drange),
+    },
+    strength: numberOrZero(p.str),
+    rangedStrength: numberOrZero(p.rstr),
+    magicDamage: numberOrZero(p.mdmg),
+    prayer: numberOrZero(p.prayer),
+  };
+}
+
+/**
+ * Parse Infobox Item, Infobox Monster, Infobox Quest and Infobox Bonuses from raw wikitext.
+ * Versioned infoboxes produce one entry per version.
+ */
+export function parseInfoboxes(wikitext: string): ParsedInfoboxes {
+  const result: ParsedInfoboxes = { items: [], monsters: [], quests: [], bonuses: [] };
+
+  for (const template of parseTemplates(wikitext)) {
+    const name = template.name.toLowerCase();
+    for (const { version, params } of expandVersions(template.params)) {
+      switch (name) {
+        case 'infobox item':
+          result.items.push(parseInfoboxItem(version, params));
+          break;
+        case 'infobox monster':
+          result.monsters.push(parseInfoboxMonster(version, params));
+          break;
+        case 'infobox quest':
+          result.quests.push(parseInfoboxQuest(version, params));
+          break;
+        case 'infobox bonuses':
+          result.bonuses.push(parseInfoboxBonuses(version, params));
+          break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * True if no infobox of any kind was found
+ */
+export function isEmptyInfoboxes(infoboxes: ParsedInfoboxes): boolean {
+  return (
+    infoboxes.items.length === 0 &&
+    infoboxes.monsters.length === 0 &&
+    infoboxes.quests.length === 0 &&
+    infoboxes.bonuses.length === 0
+  );
+}
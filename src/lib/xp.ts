@@ -0,0 +1,148 @@
+/**
+ * Experience Module
+ * Level <-> XP conversions and "how long to X" calculations using the real OSRS XP table.
+ */
+
+// ============================================
+// Constants
+// ============================================
+
+export const MAX_LEVEL = 99;
+export const MAX_VIRTUAL_LEVEL = 126;
+export const MAX_XP = 200_000_000;
+
+export const SKILL_NAMES = [
+  'attack', 'defence', 'strength', 'hitpoints', 'ranged', 'prayer', 'magic',
+  'cooking', 'woodcutting', 'fletching', 'fishing', 'firemaking', 'crafting',
+  'smithing', 'mining', 'herblore', 'agility', 'thieving', 'slayer', 'farming',
+  'runecrafting', 'hunter', 'construction', 'sailing',
+] as const;
+
+export type SkillName = (typeof SKILL_NAMES)[number];
+
+/**
+ * XP required for each level, index = level (index 0 unused).
+ * Built from the in-game formula: floor(sum(floor(l + 300 * 2^(l/7))) / 4)
+ */
+const XP_TABLE: number[] = (() => {
+  const table = [0, 0];
+  let points = 0;
+  for (let level = 1; level < MAX_VIRTUAL_LEVEL; level++) {
+    points += Math.floor(level + 300 * Math.pow(2, level / 7));
+    table.push(Math.floor(points / 4));
+  }
+  return table;
+})();
+
+// ============================================
+// Conversions
+// ============================================
+
+/**
+ * XP required to reach a level (1-126)
+ */
+export function xpForLevel(level: number): number {
+  const clamped = Math.max(1, Math.min(MAX_VIRTUAL_LEVEL, Math.floor(level)));
+  return XP_TABLE[clamped];
+}
+
+/**
+ * Level for a given XP amount. Capped at 99 unless virtual levels are requested.
+ */
+export function levelForXp(xp: number, virtual = false): number {
+  const cap = virtual ? MAX_VIRTUAL_LEVEL : MAX_LEVEL;
+  let level = 1;
+  while (level < cap && xp >= XP_TABLE[level + 1]) {
+    level++;
+  }
+  return level;
+}
+
+/**
+ * Returns true if a string is a trainable skill name
+ */
+export function isSkillName(name: string): name is SkillName {
+  return (SKILL_NAMES as readonly string[]).includes(name.toLowerCase());
+}
+
+// ============================================
+// Calculations
+// ============================================
+
+export interface XpCalculationInput {
+  currentXp: number;
+  /** Target level (1-126). Ignored if targetXp is set. */
+  targetLevel?: number;
+  targetXp?: number;
+  /** Base XP per action (before boosts) */
+  xpPerAction?: number;
+  /** Base XP per hour of the chosen method (before boosts) */
+  xpPerHour?: number;
+  /** Percentage XP bonus from outfits, relics, etc. (e.g. 2.5 for a full skilling outfit) */
+  bonusPercent?: number;
+}
+
+export interface XpCalculationResult {
+  currentXp: number;
+  currentLevel: number;
+  targetXp: number;
+  targetLevel: number;
+  remainingXp: number;
+  /** Multiplier applied to xpPerAction / xpPerHour */
+  multiplier: number;
+  actionsRequired: number | null;
+  hoursRemaining: number | null;
+}
+
+/**
+ * Compute remaining XP, actions and hours to a target level or XP amount
+ */
+export function calculateXpToTarget(input: XpCalculationInput): XpCalculationResult {
+  const currentXp = Math.max(0, Math.min(MAX_XP, Math.floor(input.currentXp)));
+  const targetXp = Math.min(
+    MAX_XP,
+    input.targetXp !== undefined ? Math.floor(input.targetXp) : xpForLevel(input.targetLevel ?? MAX_LEVEL)
+  );
+  const remainingXp = Math.max(0, targetXp - currentXp);
+  const multiplier = 1 + (input.bonusPercent ?? 0) / 100;
+
+  const effectivePerAction = input.xpPerAction ? input.xpPerAction * multiplier : null;
+  const effectivePerHour = input.xpPerHour ? input.xpPerHour * multiplier : null;
+
+  return {
+    currentXp,
+    currentLevel: levelForXp(currentXp, true),
+    targetXp,
+    targetLevel: levelForXp(targetXp, true),
+    remainingXp,
+    multiplier,
+    actionsRequired: effectivePerAction ? Math.ceil(remainingXp / effectivePerAction) : null,
+    hoursRemaining: effectivePerHour ? Math.round((remainingXp / effectivePerHour) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Format an XP calculation for the AI
+ */
+export function formatXpSummary(skill: string, result: XpCalculationResult): string {
+  const name = skill.charAt(0).toUpperCase() + skill.slice(1);
+  const lines: string[] = [
+    `## ${name}: level ${result.currentLevel} → ${result.targetLevel}`,
+    '',
+    `- **Current XP:** ${result.currentXp.toLocaleString()}`,
+    `- **Target XP:** ${result.targetXp.toLocaleString()}`,
+    `- **Remaining XP:** ${result.remainingXp.toLocaleString()}`,
+  ];
+
+  if (result.multiplier !== 1) {
+    lines.push(`- **XP Bonus:** +${Math.round((result.multiplier - 1) * 1000) / 10}%`);
+  }
+  if (result.actionsRequired !== null) {
+    lines.push(`- **Actions Required:** ${result.actionsRequired.toLocaleString()}`);
+  }
+  if (result.hoursRemaining !== null) {
+    lines.push(`- **Hours Remaining:** ${result.hoursRemaining.toLocaleString()}`);
+  }
+
+  return lines.join('\n');
+}
@@ -122,6 +122,40 @@ CREATE TRIGGER documents_updated_at_trigger
   FOR EACH ROW
   EXECUTE FUNCTION update_documents_updated_at();
 
+-- 11. Create the wiki_datasets table for parsed Wiki datasets
+-- Clue guides, money making guides and quest requirements are parsed into structured entries and cached here,
+-- outside documents, so match_documents never returns a whole dataset as context.
+CREATE TABLE IF NOT EXISTS wiki_datasets (
+  key TEXT PRIMARY KEY,
+  entries JSONB NOT NULL DEFAULT '[]',
+  pending JSONB NOT NULL DEFAULT '[]',
+  complete BOOLEAN NOT NULL DEFAULT true,
+  source_url TEXT,
+  cached_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE wiki_datasets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Wiki datasets are publicly readable" ON wiki_datasets;
+CREATE POLICY "Wiki datasets are publicly readable" ON wiki_datasets
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert wiki datasets" ON wiki_datasets;
+CREATE POLICY "Anon can insert wiki datasets" ON wiki_datasets
+  FOR INSERT
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update wiki datasets" ON wiki_datasets;
+CREATE POLICY "Anon can update wiki datasets" ON wiki_datasets
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON wiki_datasets TO anon;
+GRANT SELECT, INSERT, UPDATE ON wiki_datasets TO authenticated;
+GRANT ALL ON wiki_datasets TO service_role;
+
 -- ============================================
 -- Verification Query
 -- ============================================